@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "policy_rules" ADD COLUMN     "patternType" TEXT NOT NULL DEFAULT 'phrase';
@@ -0,0 +1,18 @@
+-- CreateExtension
+CREATE EXTENSION IF NOT EXISTS "vector";
+
+-- CreateTable
+CREATE TABLE "policy_vectors" (
+    "id" TEXT NOT NULL,
+    "docId" TEXT NOT NULL,
+    "chunkIndex" INTEGER NOT NULL,
+    "text" TEXT NOT NULL,
+    "metadata" JSONB,
+    "embedding" vector,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "policy_vectors_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "policy_vectors_docId_idx" ON "policy_vectors"("docId");
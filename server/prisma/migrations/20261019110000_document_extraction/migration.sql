@@ -0,0 +1,4 @@
+-- AlterTable
+ALTER TABLE "documents" ADD COLUMN     "extractionError" TEXT,
+ADD COLUMN     "extractionStatus" TEXT NOT NULL DEFAULT 'PENDING',
+ADD COLUMN     "pageCount" INTEGER;
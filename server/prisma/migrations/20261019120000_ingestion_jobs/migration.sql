@@ -0,0 +1,25 @@
+-- CreateEnum
+CREATE TYPE "IngestionStatus" AS ENUM ('QUEUED', 'EXTRACTING', 'EMBEDDING', 'INDEXED', 'FAILED');
+
+-- CreateTable
+CREATE TABLE "ingestion_jobs" (
+    "id" TEXT NOT NULL,
+    "documentId" TEXT NOT NULL,
+    "status" "IngestionStatus" NOT NULL DEFAULT 'QUEUED',
+    "totalChunks" INTEGER NOT NULL DEFAULT 0,
+    "processedChunks" INTEGER NOT NULL DEFAULT 0,
+    "attempts" INTEGER NOT NULL DEFAULT 0,
+    "error" TEXT,
+    "startedAt" TIMESTAMP(3),
+    "finishedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ingestion_jobs_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ingestion_jobs_status_createdAt_idx" ON "ingestion_jobs"("status", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "ingestion_jobs" ADD CONSTRAINT "ingestion_jobs_documentId_fkey" FOREIGN KEY ("documentId") REFERENCES "documents"("id") ON DELETE CASCADE ON UPDATE CASCADE;
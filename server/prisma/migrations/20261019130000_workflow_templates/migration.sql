@@ -0,0 +1,29 @@
+-- AlterTable
+ALTER TABLE "content" ADD COLUMN "category" TEXT;
+
+-- AlterTable
+ALTER TABLE "workflows" ADD COLUMN "templateId" TEXT;
+
+-- AlterTable
+ALTER TABLE "approval_steps" ADD COLUMN "requiredApprovals" INTEGER NOT NULL DEFAULT 1;
+
+-- CreateTable
+CREATE TABLE "workflow_templates" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "description" TEXT,
+    "category" TEXT,
+    "isDefault" BOOLEAN NOT NULL DEFAULT false,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "steps" JSONB NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "workflow_templates_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "workflow_templates_category_idx" ON "workflow_templates"("category");
+
+-- AddForeignKey
+ALTER TABLE "workflows" ADD CONSTRAINT "workflows_templateId_fkey" FOREIGN KEY ("templateId") REFERENCES "workflow_templates"("id") ON DELETE SET NULL ON UPDATE CASCADE;
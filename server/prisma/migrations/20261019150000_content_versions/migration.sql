@@ -0,0 +1,30 @@
+-- AlterTable
+ALTER TABLE "workflows" ADD COLUMN "contentVersion" INTEGER;
+
+-- CreateTable
+CREATE TABLE "content_versions" (
+    "id" TEXT NOT NULL,
+    "contentId" TEXT NOT NULL,
+    "version" INTEGER NOT NULL,
+    "title" TEXT NOT NULL,
+    "text" TEXT NOT NULL,
+    "rendition" TEXT,
+    "complianceResult" JSONB,
+    "workflowOutcome" TEXT,
+    "workflowSnapshot" JSONB,
+    "createdById" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "content_versions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "content_versions_contentId_version_key" ON "content_versions"("contentId", "version");
+
+-- AddForeignKey
+ALTER TABLE "content_versions" ADD CONSTRAINT "content_versions_contentId_fkey" FOREIGN KEY ("contentId") REFERENCES "content"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Backfill: current state of existing content becomes its first recorded version
+INSERT INTO "content_versions" ("id", "contentId", "version", "title", "text", "complianceResult", "createdById", "createdAt")
+SELECT gen_random_uuid()::text, "id", "version", "title", "text", "complianceResult", "creatorId", "updatedAt"
+FROM "content";
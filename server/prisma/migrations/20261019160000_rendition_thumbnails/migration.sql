@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "content_versions" ADD COLUMN "renditionThumbnail" TEXT;
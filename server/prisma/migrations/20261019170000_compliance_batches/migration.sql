@@ -0,0 +1,56 @@
+-- CreateEnum
+CREATE TYPE "BatchStatus" AS ENUM ('QUEUED', 'RUNNING', 'COMPLETED');
+
+-- CreateEnum
+CREATE TYPE "BatchItemStatus" AS ENUM ('PENDING', 'RUNNING', 'DONE', 'FAILED');
+
+-- CreateTable
+CREATE TABLE "compliance_batches" (
+    "id" TEXT NOT NULL,
+    "name" TEXT,
+    "status" "BatchStatus" NOT NULL DEFAULT 'QUEUED',
+    "totalItems" INTEGER NOT NULL,
+    "processedItems" INTEGER NOT NULL DEFAULT 0,
+    "failedItems" INTEGER NOT NULL DEFAULT 0,
+    "createdById" TEXT,
+    "startedAt" TIMESTAMP(3),
+    "finishedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "compliance_batches_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "compliance_batch_items" (
+    "id" TEXT NOT NULL,
+    "batchId" TEXT NOT NULL,
+    "position" INTEGER NOT NULL,
+    "itemId" TEXT NOT NULL,
+    "title" TEXT,
+    "text" TEXT NOT NULL,
+    "locale" TEXT,
+    "category" TEXT,
+    "status" "BatchItemStatus" NOT NULL DEFAULT 'PENDING',
+    "result" JSONB,
+    "error" TEXT,
+    "startedAt" TIMESTAMP(3),
+    "finishedAt" TIMESTAMP(3),
+
+    CONSTRAINT "compliance_batch_items_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "compliance_batches_status_createdAt_idx" ON "compliance_batches"("status", "createdAt");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "compliance_batch_items_batchId_itemId_key" ON "compliance_batch_items"("batchId", "itemId");
+
+-- CreateIndex
+CREATE INDEX "compliance_batch_items_batchId_status_position_idx" ON "compliance_batch_items"("batchId", "status", "position");
+
+-- AddForeignKey
+ALTER TABLE "compliance_batches" ADD CONSTRAINT "compliance_batches_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "compliance_batch_items" ADD CONSTRAINT "compliance_batch_items_batchId_fkey" FOREIGN KEY ("batchId") REFERENCES "compliance_batches"("id") ON DELETE CASCADE ON UPDATE CASCADE;
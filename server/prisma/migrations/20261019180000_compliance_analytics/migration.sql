@@ -0,0 +1,25 @@
+-- AlterTable
+ALTER TABLE "users" ADD COLUMN "team" TEXT;
+
+-- AlterTable
+ALTER TABLE "compliance_checks" ADD COLUMN "issues" JSONB,
+ADD COLUMN "status" TEXT NOT NULL DEFAULT 'ok',
+ADD COLUMN "source" TEXT NOT NULL DEFAULT 'text',
+ADD COLUMN "provider" TEXT,
+ADD COLUMN "cached" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN "latencyMs" INTEGER,
+ADD COLUMN "userId" TEXT,
+ADD COLUMN "team" TEXT,
+ADD COLUMN "contentId" TEXT;
+
+-- CreateIndex
+CREATE INDEX "compliance_checks_createdAt_idx" ON "compliance_checks"("createdAt");
+
+-- CreateIndex
+CREATE INDEX "compliance_checks_team_createdAt_idx" ON "compliance_checks"("team", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "compliance_checks" ADD CONSTRAINT "compliance_checks_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "compliance_checks" ADD CONSTRAINT "compliance_checks_contentId_fkey" FOREIGN KEY ("contentId") REFERENCES "content"("id") ON DELETE SET NULL ON UPDATE CASCADE;
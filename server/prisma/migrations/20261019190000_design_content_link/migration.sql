@@ -0,0 +1,15 @@
+-- AlterTable
+ALTER TABLE "designs" ADD COLUMN "contentId" TEXT;
+
+-- AlterTable
+ALTER TABLE "logs" ADD COLUMN "stepName" TEXT,
+ADD COLUMN "actorId" TEXT;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "designs_contentId_key" ON "designs"("contentId");
+
+-- AddForeignKey
+ALTER TABLE "designs" ADD CONSTRAINT "designs_contentId_fkey" FOREIGN KEY ("contentId") REFERENCES "content"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "logs" ADD CONSTRAINT "logs_actorId_fkey" FOREIGN KEY ("actorId") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
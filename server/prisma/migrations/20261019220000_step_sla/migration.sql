@@ -0,0 +1,11 @@
+-- AlterTable
+ALTER TABLE "approval_steps" ADD COLUMN     "sla" JSONB,
+ADD COLUMN     "dueAt" TIMESTAMP(3),
+ADD COLUMN     "remindAt" TIMESTAMP(3),
+ADD COLUMN     "escalateAt" TIMESTAMP(3),
+ADD COLUMN     "remindedAt" TIMESTAMP(3),
+ADD COLUMN     "overdueAt" TIMESTAMP(3),
+ADD COLUMN     "escalatedAt" TIMESTAMP(3);
+
+-- CreateIndex
+CREATE INDEX "approval_steps_status_dueAt_idx" ON "approval_steps"("status", "dueAt");
@@ -0,0 +1,31 @@
+-- AlterTable
+ALTER TABLE "approval_steps" ADD COLUMN     "assignment" JSONB,
+ADD COLUMN     "assignedAt" TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE "delegations" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "delegateId" TEXT NOT NULL,
+    "startsAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "endsAt" TIMESTAMP(3),
+    "note" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "delegations_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "approval_steps_assigneeId_status_idx" ON "approval_steps"("assigneeId", "status");
+
+-- CreateIndex
+CREATE INDEX "delegations_userId_startsAt_idx" ON "delegations"("userId", "startsAt");
+
+-- CreateIndex
+CREATE INDEX "delegations_delegateId_startsAt_idx" ON "delegations"("delegateId", "startsAt");
+
+-- AddForeignKey
+ALTER TABLE "delegations" ADD CONSTRAINT "delegations_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "delegations" ADD CONSTRAINT "delegations_delegateId_fkey" FOREIGN KEY ("delegateId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
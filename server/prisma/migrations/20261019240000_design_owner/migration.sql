@@ -0,0 +1,16 @@
+-- AlterTable
+ALTER TABLE "designs" ADD COLUMN "ownerId" TEXT;
+
+-- Backfill: existing designs belong to whoever submitted them first
+UPDATE "designs" SET "ownerId" = (
+    SELECT "logs"."actorId" FROM "logs"
+    WHERE "logs"."designId" = "designs"."id" AND "logs"."action" = 'SUBMITTED' AND "logs"."actorId" IS NOT NULL
+    ORDER BY "logs"."createdAt" ASC
+    LIMIT 1
+);
+
+-- CreateIndex
+CREATE INDEX "designs_ownerId_idx" ON "designs"("ownerId");
+
+-- AddForeignKey
+ALTER TABLE "designs" ADD CONSTRAINT "designs_ownerId_fkey" FOREIGN KEY ("ownerId") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "notifications" ADD COLUMN "emailError" TEXT;
@@ -0,0 +1,2 @@
+-- AlterEnum
+ALTER TYPE "WorkflowStatus" ADD VALUE 'CHANGES_REQUESTED';
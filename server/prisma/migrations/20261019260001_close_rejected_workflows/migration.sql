@@ -0,0 +1,5 @@
+-- Backfill: workflows of content sent back for changes were left ACTIVE
+-- (a separate migration, since a new enum value cannot be used in the transaction that adds it)
+UPDATE "workflows" SET "status" = 'CHANGES_REQUESTED'
+WHERE "status" = 'ACTIVE'
+  AND "contentId" IN (SELECT "id" FROM "content" WHERE "status" = 'CHANGES_REQUESTED');
@@ -2,7 +2,7 @@
  * PDF Ingestion Script
  * 
  * Reads PDF files from server/uploads/, extracts text, chunks it,
- * generates embeddings, and upserts to Pinecone.
+ * generates embeddings, and upserts to the configured vector store.
  * 
  * Usage: node scripts/ingest-pdf.js [filename]
  * If no filename provided, will look for files starting with "doc-"
@@ -11,8 +11,9 @@
 require("dotenv").config({ path: require("path").join(__dirname, "../.env") });
 const fs = require("fs");
 const path = require("path");
-const pdfParse = require("pdf-parse");
+const prisma = require("../src/lib/prisma");
 const vectorStore = require("../src/services/vectorStore");
+const { extractText } = require("../src/services/textExtractor");
 
 /**
  * Find PDF files in uploads directory
@@ -42,18 +43,17 @@ function findPDFFiles(uploadsDir, filename = null) {
 /**
  * Extract text from PDF file
  * @param {string} filePath - Path to PDF file
- * @returns {Promise<string>} Extracted text
+ * @returns {Promise<{text: string, pages: Array<{pageNumber: number, text: string}>}>} Extracted text, per page
  */
 async function extractTextFromPDF(filePath) {
   try {
     console.log(`📄 Reading PDF: ${path.basename(filePath)}`);
-    const dataBuffer = fs.readFileSync(filePath);
-    const data = await pdfParse(dataBuffer);
+    const { text, pages } = await extractText(filePath, "application/pdf");
     
-    console.log(`   ✅ Extracted ${data.text.length} characters`);
-    console.log(`   📊 Pages: ${data.numpages}`);
+    console.log(`   ✅ Extracted ${text.length} characters`);
+    console.log(`   📊 Pages: ${pages.length}`);
     
-    return data.text;
+    return { text, pages };
   } catch (error) {
     console.error(`❌ Failed to parse PDF ${filePath}:`, error.message);
     throw error;
@@ -76,11 +76,8 @@ function generateDocId(filePath) {
  */
 async function ingestPDF() {
   try {
-    // Validate environment variables
-    if (!process.env.GOOGLE_API_KEY) {
-      throw new Error("GOOGLE_API_KEY is not set in environment variables");
-    }
-    if (!process.env.PINECONE_API_KEY) {
+    // Validate environment variables (embedding keys are checked by the provider)
+    if (vectorStore.provider === "pinecone" && !process.env.PINECONE_API_KEY) {
       throw new Error("PINECONE_API_KEY is not set in environment variables");
     }
 
@@ -105,7 +102,7 @@ async function ingestPDF() {
     console.log(`   Found ${pdfFiles.length} PDF file(s)\n`);
 
     // Connect to vector store
-    console.log("🔌 Connecting to Pinecone...");
+    console.log(`🔌 Connecting to vector store (${vectorStore.provider})...`);
     await vectorStore.connect();
     console.log("   ✅ Connected\n");
 
@@ -113,29 +110,52 @@ async function ingestPDF() {
     for (const filePath of pdfFiles) {
       try {
         const filename = path.basename(filePath);
-        const docId = generateDocId(filePath);
+
+        // Reuse the Document record if this file was uploaded through the API
+        const existingDoc = await prisma.document
+          .findFirst({ where: { filename } })
+          .catch(() => null);
+        const docId = existingDoc ? existingDoc.id : generateDocId(filePath);
 
         console.log(`\n📦 Processing: ${filename}`);
         console.log(`   Document ID: ${docId}`);
 
         // Extract text from PDF
-        const text = await extractTextFromPDF(filePath);
+        const { text, pages } = await extractTextFromPDF(filePath);
 
         if (!text || text.trim().length === 0) {
           console.warn(`   ⚠️ No text extracted from ${filename}, skipping...`);
           continue;
         }
 
-        // Index document in Pinecone
-        console.log(`\n📤 Indexing document in Pinecone...`);
-        const vectorId = await vectorStore.indexDocument(docId, text, {
-          filename,
-          source: "pdf",
-          ingestedAt: new Date().toISOString(),
-        });
+        if (existingDoc) {
+          await prisma.document.update({
+            where: { id: existingDoc.id },
+            data: {
+              textContent: text,
+              pageCount: pages.length,
+              extractionStatus: "EXTRACTED",
+              extractionError: null,
+            },
+          });
+        }
+
+        // Index document in the vector store
+        console.log(`\n📤 Indexing document in ${vectorStore.provider}...`);
+        const chunkCount = await vectorStore.indexDocument(
+          docId,
+          text,
+          {
+            filename,
+            originalName: existingDoc ? existingDoc.originalName : filename,
+            source: "pdf",
+            ingestedAt: new Date().toISOString(),
+          },
+          { pages }
+        );
 
         console.log(`\n✅ Successfully ingested: ${filename}`);
-        console.log(`   Vector ID: ${vectorId}`);
+        console.log(`   Chunks: ${chunkCount}`);
         console.log(`   Document ID: ${docId}\n`);
 
       } catch (error) {
@@ -0,0 +1,85 @@
+/**
+ * Vector Migration Script
+ *
+ * Copies every stored vector (embedding + chunk metadata) from one vector
+ * backend to another, e.g. to move the knowledge base off Pinecone.
+ * Embeddings are copied as-is, so both sides must use the same embedding provider.
+ *
+ * Usage: node scripts/migrate-vectors.js --from pinecone --to pgvector [--batch 100]
+ */
+
+require("dotenv").config({ path: require("path").join(__dirname, "../.env") });
+const { createBackend, BACKENDS } = require("../src/services/vectorBackends");
+
+/**
+ * Parse --flag value pairs from argv
+ * @param {string[]} argv
+ * @returns {Record<string, string>}
+ */
+function parseArgs(argv) {
+  const args = {};
+  for (let i = 0; i < argv.length; i++) {
+    if (argv[i].startsWith("--")) {
+      args[argv[i].slice(2)] = argv[i + 1];
+      i++;
+    }
+  }
+  return args;
+}
+
+/**
+ * Copy all vectors between two backends
+ * @param {string} from - Source backend name
+ * @param {string} to - Target backend name
+ * @param {number} batchSize - Vectors per read/write batch
+ * @returns {Promise<number>} Number of vectors copied
+ */
+async function migrateVectors(from, to, batchSize = 100) {
+  if (from === to) {
+    throw new Error("--from and --to must be different backends");
+  }
+
+  const source = createBackend(from);
+  const target = createBackend(to);
+
+  console.log(`🔌 Connecting to ${from} and ${to}...`);
+  await source.connect();
+  await target.connect();
+
+  let copied = 0;
+  for await (const batch of source.listAll(batchSize)) {
+    await target.upsert(batch);
+    copied += batch.length;
+    console.log(`   Copied ${copied} vectors`);
+  }
+
+  return copied;
+}
+
+async function main() {
+  const args = parseArgs(process.argv.slice(2));
+  const names = Object.keys(BACKENDS).join(", ");
+
+  if (!args.from || !args.to) {
+    console.log("Usage: node scripts/migrate-vectors.js --from <backend> --to <backend> [--batch 100]");
+    console.log(`   Backends: ${names}`);
+    process.exit(1);
+  }
+
+  try {
+    console.log(`\n🚚 Migrating vectors: ${args.from} → ${args.to}\n`);
+    const copied = await migrateVectors(args.from, args.to, Number(args.batch) || 100);
+    console.log(`\n✨ Migration complete! ${copied} vectors copied.\n`);
+    process.exit(0);
+  } catch (error) {
+    console.error("\n❌ Migration failed:", error.message);
+    process.exit(1);
+  }
+}
+
+// Run migration
+if (require.main === module) {
+  main();
+}
+
+module.exports = { migrateVectors };
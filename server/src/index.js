@@ -6,7 +6,6 @@
 require("dotenv").config();
 const express = require("express");
 const cors = require("cors");
-const path = require("path");
 
 // Import Prisma client
 const prisma = require("./lib/prisma");
@@ -16,7 +15,19 @@ const complianceRoutes = require("./routes/compliance");
 const documentsRoutes = require("./routes/documents");
 const rulesRoutes = require("./routes/rules");
 const workflowRoutes = require("./routes/workflow");
+const templateRoutes = require("./routes/templates");
+const authRoutes = require("./routes/auth");
+const notificationRoutes = require("./routes/notifications");
+const webhookRoutes = require("./routes/webhooks");
+const { authenticate, requireAuth, requireRole } = require("./middleware/auth");
+const { signUploadUrls, serveUploads } = require("./middleware/uploads");
 const { checkCompliance } = require("./services/complianceChecker");
+const { linkDesign, getDesignStatus, canSubmitDesign, canViewDesign } = require("./services/designSync");
+const ingestionQueue = require("./services/ingestionQueue");
+const batchQueue = require("./services/batchQueue");
+const webhooks = require("./services/webhooks");
+const emailDigest = require("./services/emailDigest");
+const slaScheduler = require("./services/slaScheduler");
 
 // Initialize Express app
 const app = express();
@@ -30,7 +41,7 @@ app.use(
   cors({
     origin: "*",
     methods: ["GET", "POST", "PUT", "DELETE"],
-    allowedHeaders: ["Content-Type", "Authorization"],
+    allowedHeaders: ["Content-Type", "Authorization", "Last-Event-ID"],
   })
 );
 
@@ -38,8 +49,12 @@ app.use(
 app.use(express.json({ limit: "50mb" }));
 app.use(express.urlencoded({ limit: "50mb", extended: true }));
 
-// Serve uploaded files statically
-app.use("/uploads", express.static(path.join(__dirname, "../uploads")));
+// Resolve `Authorization: Bearer <jwt | api token>` to req.user
+app.use(authenticate);
+
+// Uploaded files need a signed link (added to signed-in users' responses) or a bearer token
+app.use("/uploads", serveUploads);
+app.use(signUploadUrls);
 
 // ============================================
 // ADOBE EXPRESS DESIGN TRACKING ENDPOINTS
@@ -48,11 +63,15 @@ app.use("/uploads", express.static(path.join(__dirname, "../uploads")));
 /**
  * POST /api/submit
  * Submit a design for approval
- * Input: { adobeId, snapshot }
+ * Input: { adobeId, snapshot?, text?, complianceResult?, contentId? }
+ *
+ * With contentId the design is linked to the workflow content it was submitted
+ * as, and from then on follows that content's review. A design submitted by
+ * someone else can only be resubmitted by an ADMIN.
  */
-app.post("/api/submit", async (req, res) => {
+app.post("/api/submit", requireAuth, async (req, res) => {
   try {
-    const { adobeId, snapshot, text, complianceResult } = req.body;
+    const { adobeId, snapshot, text, complianceResult, contentId } = req.body;
 
     // Validate input
     if (!adobeId) {
@@ -62,31 +81,64 @@ app.post("/api/submit", async (req, res) => {
       });
     }
 
-    // Upsert design - create or update
-    const design = await prisma.design.upsert({
+    const existing = await prisma.design.findUnique({
       where: { adobeId },
-      update: {
-        status: "PENDING",
-        snapshot: snapshot || undefined,
-        text: text || undefined,
-        complianceResult: complianceResult || undefined,
-      },
-      create: {
-        adobeId,
-        status: "PENDING",
-        snapshot: snapshot || null,
-        text: text || null,
-        complianceResult: complianceResult || null,
-      },
+      select: { ownerId: true },
     });
+    if (!canSubmitDesign(req.user, existing)) {
+      return res.status(403).json({
+        error: "Forbidden",
+        message: "This design was submitted by someone else",
+      });
+    }
 
-    // Create log entry
-    await prisma.log.create({
-      data: {
-        designId: design.id,
-        action: "SUBMITTED",
-      },
-    });
+    let design;
+    if (contentId) {
+      const content = await prisma.content.findUnique({ where: { id: contentId } });
+      if (!content) {
+        return res.status(404).json({
+          error: "Not found",
+          message: "Content not found",
+        });
+      }
+      if (content.creatorId !== req.user.id && req.user.role !== "ADMIN") {
+        return res.status(403).json({
+          error: "Forbidden",
+          message: "Only the creator can link this content to a design",
+        });
+      }
+
+      design = await linkDesign({ adobeId, content, snapshot, text, complianceResult }, req.user.id);
+    } else {
+      // Upsert design - create or update
+      design = await prisma.design.upsert({
+        where: { adobeId },
+        update: {
+          status: "PENDING",
+          ownerId: existing?.ownerId || req.user.id,
+          snapshot: snapshot || undefined,
+          text: text || undefined,
+          complianceResult: complianceResult || undefined,
+        },
+        create: {
+          adobeId,
+          ownerId: req.user.id,
+          status: "PENDING",
+          snapshot: snapshot || null,
+          text: text || null,
+          complianceResult: complianceResult || null,
+        },
+      });
+
+      // Create log entry
+      await prisma.log.create({
+        data: {
+          designId: design.id,
+          action: "SUBMITTED",
+          actorId: req.user.id,
+        },
+      });
+    }
 
     console.log(`✅ [submit] Design ${adobeId} submitted for approval`);
 
@@ -97,6 +149,7 @@ app.post("/api/submit", async (req, res) => {
         id: design.id,
         adobeId: design.adobeId,
         status: design.status,
+        contentId: design.contentId,
       },
     });
   } catch (error) {
@@ -110,20 +163,12 @@ app.post("/api/submit", async (req, res) => {
 
 /**
  * GET /api/status/:adobeId
- * Get the status of a design
+ * Get the status of a design, its linked content and its log timeline
+ * (its owner, reviewers and admins only)
  */
-app.get("/api/status/:adobeId", async (req, res) => {
+app.get("/api/status/:adobeId", requireAuth, async (req, res) => {
   try {
-    const { adobeId } = req.params;
-
-    const design = await prisma.design.findUnique({
-      where: { adobeId },
-      include: {
-        logs: {
-          orderBy: { createdAt: "desc" },
-        },
-      },
-    });
+    const design = await getDesignStatus(req.params.adobeId);
 
     if (!design) {
       return res.json({
@@ -131,15 +176,24 @@ app.get("/api/status/:adobeId", async (req, res) => {
         snapshot: null,
         text: null,
         complianceResult: null,
+        content: null,
         logs: [],
       });
     }
 
+    if (!canViewDesign(req.user, design)) {
+      return res.status(403).json({
+        error: "Forbidden",
+        message: "This design belongs to someone else",
+      });
+    }
+
     res.json({
       status: design.status,
       snapshot: design.snapshot,
       text: design.text,
       complianceResult: design.complianceResult,
+      content: design.content,
       logs: design.logs,
     });
   } catch (error) {
@@ -157,7 +211,7 @@ app.get("/api/status/:adobeId", async (req, res) => {
  * Input: { adobeId, decision, feedback }
  * Decision: 'APPROVE' or 'REJECT'
  */
-app.post("/api/review", async (req, res) => {
+app.post("/api/review", requireRole("MANAGER", "LEGAL", "EXECUTIVE", "ADMIN"), async (req, res) => {
   try {
     const { adobeId, decision, feedback } = req.body;
 
@@ -188,6 +242,15 @@ app.post("/api/review", async (req, res) => {
       });
     }
 
+    // Linked designs are decided through their workflow steps
+    if (design.contentId) {
+      return res.status(409).json({
+        error: "Conflict",
+        message: "This design is reviewed through its workflow; use /api/workflow/steps/:id/approve or /reject",
+        contentId: design.contentId,
+      });
+    }
+
     // Determine new status
     const newStatus = decision.toUpperCase() === "APPROVE" 
       ? "APPROVED" 
@@ -205,6 +268,7 @@ app.post("/api/review", async (req, res) => {
         designId: design.id,
         action: decision.toUpperCase() === "APPROVE" ? "APPROVED" : "REJECTED",
         feedback: feedback || null,
+        actorId: req.user.id,
       },
     });
 
@@ -242,7 +306,7 @@ app.get("/health", (req, res) => {
 });
 
 // RAG Compliance Check Endpoint
-app.post("/check-compliance", async (req, res) => {
+app.post("/check-compliance", requireAuth, async (req, res) => {
   try {
     const { text } = req.body;
 
@@ -260,7 +324,7 @@ app.post("/check-compliance", async (req, res) => {
       });
     }
 
-    const result = await checkCompliance(text);
+    const result = await checkCompliance(text, { user: req.user });
     res.json(result);
   } catch (error) {
     console.error("❌ [check-compliance] Error:", error);
@@ -273,10 +337,14 @@ app.post("/check-compliance", async (req, res) => {
 });
 
 // API routes
-app.use("/api/compliance", complianceRoutes);
-app.use("/api/documents", documentsRoutes);
-app.use("/api/rules", rulesRoutes);
-app.use("/api/workflow", workflowRoutes);
+app.use("/api/auth", authRoutes);
+app.use("/api/compliance", requireAuth, complianceRoutes);
+app.use("/api/documents", requireAuth, documentsRoutes);
+app.use("/api/rules", requireAuth, rulesRoutes);
+app.use("/api/workflow/templates", requireAuth, templateRoutes);
+app.use("/api/workflow", requireAuth, workflowRoutes);
+app.use("/api/notifications", requireAuth, notificationRoutes);
+app.use("/api/webhooks", requireRole("ADMIN"), webhookRoutes);
 
 // Root endpoint
 app.get("/", (req, res) => {
@@ -286,6 +354,10 @@ app.get("/", (req, res) => {
     description: "AI Compliance Guardian for Adobe Express",
     endpoints: {
       health: "GET /health",
+      // Auth (send Authorization: Bearer <token> everywhere else)
+      login: "POST /api/auth/login",
+      me: "GET /api/auth/me",
+      apiTokens: "POST /api/auth/tokens",
       // Design tracking
       submitDesign: "POST /api/submit",
       getDesignStatus: "GET /api/status/:adobeId",
@@ -293,13 +365,25 @@ app.get("/", (req, res) => {
       // Compliance
       checkCompliance: "POST /check-compliance",
       checkComplianceAPI: "POST /api/compliance/check",
+      checkComplianceStream: "POST /api/compliance/check/stream",
+      batchCheck: "POST /api/compliance/batch",
+      batchStatus: "GET /api/compliance/batch/:id",
+      analytics: "GET /api/compliance/analytics/{trends,phrases,policies,teams}",
       // Documents
       uploadDocument: "POST /api/documents/upload",
       listDocuments: "GET /api/documents",
+      documentStatus: "GET /api/documents/:id/status",
       // Rules
       listRules: "GET /api/rules",
       // Workflow
       workflow: "/api/workflow/*",
+      workflowTemplates: "GET /api/workflow/templates",
+      workflowQueue: "GET /api/workflow/queue",
+      delegations: "GET /api/workflow/delegations",
+      // Notifications
+      notifications: "GET /api/notifications",
+      notificationStream: "GET /api/notifications/stream",
+      webhooks: "/api/webhooks/* (admin)",
     },
   });
 });
@@ -345,6 +429,16 @@ app.listen(PORT, () => {
 ║   • POST /check-compliance                        ║
 ║   • POST /api/compliance/check                    ║
 ║                                                   ║
+║   Notifications:                                  ║
+║   • GET  /api/notifications/stream                ║
+║                                                   ║
 ╚═══════════════════════════════════════════════════╝
   `);
+
+  // Background workers for document ingestion, batch scans, outgoing notifications and SLAs
+  ingestionQueue.start();
+  batchQueue.start();
+  webhooks.start();
+  emailDigest.start();
+  slaScheduler.start();
 });
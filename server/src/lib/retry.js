@@ -0,0 +1,43 @@
+/**
+ * Retry with exponential backoff
+ *
+ * Delay doubles after every failed attempt (with ±25% jitter), capped at maxDelayMs.
+ */
+
+const sleep = (ms) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * @param {() => Promise<T>} fn - Operation to run
+ * @param {object} options
+ * @param {number} [options.retries=5] - Retries after the first attempt
+ * @param {number} [options.baseDelayMs=1000] - Delay before the first retry
+ * @param {number} [options.maxDelayMs=60000] - Upper bound for a single delay
+ * @param {(error: Error) => boolean} [options.shouldRetry] - Return false to fail immediately
+ * @param {(error: Error, attempt: number, delayMs: number) => void} [options.onRetry]
+ * @returns {Promise<T>}
+ * @template T
+ */
+async function withRetry(fn, options = {}) {
+  const {
+    retries = 5,
+    baseDelayMs = 1000,
+    maxDelayMs = 60000,
+    shouldRetry = () => true,
+    onRetry = () => {},
+  } = options;
+
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await fn();
+    } catch (error) {
+      if (attempt >= retries || !shouldRetry(error)) throw error;
+
+      const exponential = Math.min(maxDelayMs, baseDelayMs * 2 ** attempt);
+      const delayMs = Math.round(exponential * (0.75 + Math.random() * 0.5));
+      onRetry(error, attempt + 1, delayMs);
+      await sleep(delayMs);
+    }
+  }
+}
+
+module.exports = { withRetry, sleep };
@@ -0,0 +1,233 @@
+/**
+ * Minimal SMTP client
+ *
+ * Enough of RFC 5321 to hand a plain-text message to a relay: EHLO, STARTTLS
+ * (when the server offers it), AUTH PLAIN or LOGIN, MAIL/RCPT/DATA. Use
+ * `secure: true` for implicit TLS (port 465). The body is sent base64-encoded,
+ * so it needs no dot-stuffing or 8BITMIME support.
+ *
+ * Credentials are never sent over an unencrypted connection unless
+ * `allowInsecureAuth` is set. Failed commands throw with `responseCode` and
+ * `command` (e.g. "AUTH", "RCPT", "message").
+ */
+
+const net = require("net");
+const tls = require("tls");
+const os = require("os");
+const crypto = require("crypto");
+
+/**
+ * Reads SMTP replies ("250-..." continuation lines, "250 ..." final line)
+ */
+class SmtpSession {
+  constructor(socket) {
+    this.replies = [];
+    this.waiting = [];
+    this.error = null;
+    this.attach(socket);
+  }
+
+  attach(socket) {
+    this.socket = socket;
+    this.buffer = "";
+    this.lines = [];
+    socket.setEncoding("utf8");
+    socket.on("data", (chunk) => {
+      this.buffer += chunk;
+      this.drain();
+    });
+    socket.on("error", (error) => this.fail(error));
+    socket.on("close", () => this.fail(new Error("SMTP connection closed")));
+  }
+
+  drain() {
+    let index;
+    while ((index = this.buffer.indexOf("\n")) !== -1) {
+      const line = this.buffer.slice(0, index).replace(/\r$/, "");
+      this.buffer = this.buffer.slice(index + 1);
+      this.lines.push(line.slice(4));
+      if (line[3] === "-") continue;
+
+      const reply = { code: Number(line.slice(0, 3)), lines: this.lines };
+      this.lines = [];
+      if (this.waiting.length) this.waiting.shift().resolve(reply);
+      else this.replies.push(reply);
+    }
+  }
+
+  fail(error) {
+    if (this.error) return;
+    this.error = error;
+    for (const waiter of this.waiting.splice(0)) waiter.reject(error);
+  }
+
+  read() {
+    if (this.replies.length) return Promise.resolve(this.replies.shift());
+    if (this.error) return Promise.reject(this.error);
+    return new Promise((resolve, reject) => this.waiting.push({ resolve, reject }));
+  }
+
+  /**
+   * Send a command (or nothing, to read the greeting) and check the reply code
+   *
+   * @param {string|null} line
+   * @param {number[]} expected - Accepted reply codes
+   * @param {string} [label] - Shown in errors instead of the line (for credentials)
+   */
+  async command(line, expected, label = line) {
+    if (line !== null) this.socket.write(`${line}\r\n`);
+    const reply = await this.read();
+    if (!expected.includes(reply.code)) {
+      const error = new Error(`SMTP ${label || "greeting"} failed: ${reply.code} ${reply.lines.join(" ")}`);
+      error.responseCode = reply.code;
+      error.command = (label || "greeting").split(/[ :]/)[0];
+      throw error;
+    }
+    return reply;
+  }
+
+  /**
+   * Switch the connection to TLS after STARTTLS
+   */
+  upgrade(servername, options) {
+    const plain = this.socket;
+    for (const event of ["data", "error", "close"]) plain.removeAllListeners(event);
+
+    return new Promise((resolve, reject) => {
+      const secure = tls.connect({ socket: plain, servername, ...options }, () => {
+        secure.off("error", reject);
+        this.attach(secure);
+        resolve();
+      });
+      secure.once("error", reject);
+    });
+  }
+
+  close() {
+    this.socket.destroy();
+  }
+}
+
+function connect({ host, port, secure, timeoutMs, tlsOptions }) {
+  return new Promise((resolve, reject) => {
+    const socket = secure
+      ? tls.connect({ host, port, servername: host, ...tlsOptions })
+      : net.connect({ host, port });
+    socket.setTimeout(timeoutMs, () => socket.destroy(new Error(`SMTP timeout after ${timeoutMs}ms`)));
+    socket.once(secure ? "secureConnect" : "connect", () => {
+      socket.off("error", reject);
+      resolve(socket);
+    });
+    socket.once("error", reject);
+  });
+}
+
+/**
+ * Bare address from "Name <address>" or "address"
+ */
+function mailbox(address) {
+  return (address.match(/<([^>]+)>/)?.[1] || address).trim();
+}
+
+function encodeHeader(value) {
+  return /^[ -~]*$/.test(value) ? value : `=?UTF-8?B?${Buffer.from(value).toString("base64")}?=`;
+}
+
+/**
+ * RFC 5322 message with a base64 text/plain body
+ */
+function formatMessage({ from, to, subject, text }) {
+  const body = Buffer.from(text).toString("base64").replace(/.{1,76}/g, "$&\r\n");
+  return [
+    `From: ${from}`,
+    `To: ${to.join(", ")}`,
+    `Subject: ${encodeHeader(subject)}`,
+    `Date: ${new Date().toUTCString()}`,
+    `Message-ID: <${crypto.randomUUID()}@${mailbox(from).split("@")[1] || os.hostname()}>`,
+    "MIME-Version: 1.0",
+    "Content-Type: text/plain; charset=utf-8",
+    "Content-Transfer-Encoding: base64",
+    "",
+    body,
+  ].join("\r\n");
+}
+
+/**
+ * Send one plain-text message
+ *
+ * @param {object} options
+ * @param {string} options.host
+ * @param {number} [options.port=587]
+ * @param {boolean} [options.secure=false] - Implicit TLS (otherwise STARTTLS when offered)
+ * @param {string} [options.user] - AUTH credentials (no AUTH when unset)
+ * @param {string} [options.pass]
+ * @param {boolean} [options.allowInsecureAuth=false] - Send credentials without TLS (local test relays only)
+ * @param {string} options.from - "Name <address>" or "address"
+ * @param {string|string[]} options.to
+ * @param {string} options.subject
+ * @param {string} options.text
+ * @param {number} [options.timeoutMs=15000] - Idle timeout
+ * @param {object} [options.tlsOptions] - Passed to tls.connect (e.g. {rejectUnauthorized: false})
+ */
+async function sendMail({
+  host,
+  port = 587,
+  secure = false,
+  user,
+  pass,
+  allowInsecureAuth = false,
+  from,
+  to,
+  subject,
+  text,
+  timeoutMs = 15000,
+  tlsOptions = {},
+}) {
+  const recipients = [].concat(to);
+  const session = new SmtpSession(await connect({ host, port, secure, timeoutMs, tlsOptions }));
+
+  try {
+    await session.command(null, [220]);
+    let ehlo = await session.command(`EHLO ${os.hostname()}`, [250]);
+    let encrypted = secure;
+
+    if (!secure && ehlo.lines.some((line) => /^STARTTLS\b/i.test(line))) {
+      await session.command("STARTTLS", [220]);
+      await session.upgrade(host, tlsOptions);
+      ehlo = await session.command(`EHLO ${os.hostname()}`, [250]);
+      encrypted = true;
+    }
+
+    if (user && !encrypted && !allowInsecureAuth) {
+      const error = new Error(
+        `SMTP server ${host} offers no STARTTLS; refusing to send credentials unencrypted`
+      );
+      error.code = "SMTP_INSECURE_AUTH";
+      throw error;
+    }
+
+    if (user) {
+      const methods = ehlo.lines.find((line) => /^AUTH\b/i.test(line)) || "";
+      if (/\bPLAIN\b/i.test(methods)) {
+        const token = Buffer.from(`\0${user}\0${pass}`).toString("base64");
+        await session.command(`AUTH PLAIN ${token}`, [235], "AUTH PLAIN");
+      } else {
+        await session.command("AUTH LOGIN", [334]);
+        await session.command(Buffer.from(user).toString("base64"), [334], "AUTH LOGIN user");
+        await session.command(Buffer.from(pass || "").toString("base64"), [235], "AUTH LOGIN password");
+      }
+    }
+
+    await session.command(`MAIL FROM:<${mailbox(from)}>`, [250]);
+    for (const recipient of recipients) {
+      await session.command(`RCPT TO:<${mailbox(recipient)}>`, [250, 251]);
+    }
+    await session.command("DATA", [354]);
+    await session.command(`${formatMessage({ from, to: recipients, subject, text })}\r\n.`, [250], "message");
+    await session.command("QUIT", [221]).catch(() => {});
+  } finally {
+    session.close();
+  }
+}
+
+module.exports = { sendMail, formatMessage };
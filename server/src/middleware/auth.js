@@ -0,0 +1,62 @@
+/**
+ * Auth Middleware
+ *
+ * authenticate - reads `Authorization: Bearer <jwt | api token>` and sets req.user
+ * requireAuth  - 401 unless a user is signed in
+ * requireRole  - 403 unless the user has one of the given roles
+ */
+
+const { resolveToken } = require("../services/auth");
+
+async function authenticate(req, res, next) {
+  const header = req.headers.authorization || "";
+  const [scheme, token] = header.split(" ");
+
+  if (!token || scheme.toLowerCase() !== "bearer") {
+    req.user = null;
+    return next();
+  }
+
+  try {
+    req.user = await resolveToken(token);
+    if (!req.user) {
+      return res.status(401).json({
+        error: "Unauthorized",
+        message: "Invalid or expired token",
+      });
+    }
+    next();
+  } catch (error) {
+    next(error);
+  }
+}
+
+function requireAuth(req, res, next) {
+  if (!req.user) {
+    return res.status(401).json({
+      error: "Unauthorized",
+      message: "Sign in required",
+    });
+  }
+  next();
+}
+
+function requireRole(...roles) {
+  return (req, res, next) => {
+    if (!req.user) {
+      return res.status(401).json({
+        error: "Unauthorized",
+        message: "Sign in required",
+      });
+    }
+    if (!roles.includes(req.user.role)) {
+      return res.status(403).json({
+        error: "Forbidden",
+        message: `Requires role: ${roles.join(" or ")}`,
+      });
+    }
+    next();
+  };
+}
+
+module.exports = { authenticate, requireAuth, requireRole };
@@ -0,0 +1,52 @@
+/**
+ * Upload Middleware
+ *
+ * Files under uploads/ (policy documents, design renditions) are only served to
+ * signed-in users. Browsers load them through <img> and <a> tags, which cannot
+ * send a bearer token, so API responses carry signed, expiring URLs instead:
+ *
+ * signUploadUrls - rewrites every "/uploads/..." string in a signed-in user's JSON responses
+ * serveUploads   - serves a file for a valid signature or an authenticated request
+ */
+
+const path = require("path");
+const express = require("express");
+const { signUploadUrl, verifyUploadUrl } = require("../services/auth");
+
+const UPLOAD_PREFIX = "/uploads/";
+const uploadDir = path.join(__dirname, "../../uploads");
+
+/**
+ * Copy of a JSON-ready value with its upload URLs signed
+ */
+function signUrls(value) {
+  if (typeof value === "string") {
+    return value.startsWith(UPLOAD_PREFIX) ? signUploadUrl(value) : value;
+  }
+  if (Array.isArray(value)) return value.map(signUrls);
+  if (value && Object.getPrototypeOf(value) === Object.prototype) {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, signUrls(item)]));
+  }
+  return value;
+}
+
+function signUploadUrls(req, res, next) {
+  const json = res.json.bind(res);
+  res.json = (body) => json(req.user ? signUrls(body) : body);
+  next();
+}
+
+const staticUploads = express.static(uploadDir);
+
+function serveUploads(req, res, next) {
+  const pathname = `${req.baseUrl}${req.path}`;
+  if (!req.user && !verifyUploadUrl(pathname, req.query.expires, req.query.signature)) {
+    return res.status(401).json({
+      error: "Unauthorized",
+      message: "Sign in or use a current signed link",
+    });
+  }
+  staticUploads(req, res, next);
+}
+
+module.exports = { signUrls, signUploadUrls, serveUploads };
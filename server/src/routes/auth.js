@@ -0,0 +1,216 @@
+/**
+ * Auth API Routes
+ *
+ * POST   /api/auth/register - Create the first (ADMIN) account while nobody can sign in
+ * POST   /api/auth/login - Email + password → JWT
+ * GET    /api/auth/me - Current user
+ * POST   /api/auth/password - Change own password
+ * GET    /api/auth/tokens - List own API tokens
+ * POST   /api/auth/tokens - Create an API token (shown once)
+ * DELETE /api/auth/tokens/:id - Revoke an API token
+ */
+
+const express = require("express");
+const router = express.Router();
+const prisma = require("../lib/prisma");
+const { requireAuth } = require("../middleware/auth");
+const {
+  MIN_PASSWORD_LENGTH,
+  hashPassword,
+  verifyPassword,
+  signSession,
+  createApiToken,
+  publicUser,
+} = require("../services/auth");
+
+/**
+ * POST /api/auth/register
+ * Only allowed while no user has a password (a new install, or one upgraded from before
+ * sign-in existed), and only for a new email: existing users get their password from an
+ * ADMIN via PATCH /api/workflow/users/:id. Later accounts are created by an ADMIN via
+ * POST /api/workflow/users
+ */
+router.post("/register", async (req, res) => {
+  try {
+    const { name, email, password } = req.body;
+
+    if (!name || !email || !password) {
+      return res.status(400).json({ error: "Name, email, and password are required" });
+    }
+    if (password.length < MIN_PASSWORD_LENGTH) {
+      return res.status(400).json({ error: `Password must be at least ${MIN_PASSWORD_LENGTH} characters` });
+    }
+
+    const withPassword = await prisma.user.count({ where: { passwordHash: { not: null } } });
+    if (withPassword > 0) {
+      return res.status(403).json({
+        error: "Registration closed",
+        message: "Ask an admin to create your account",
+      });
+    }
+
+    const user = await prisma.user.create({
+      data: {
+        name,
+        email: email.toLowerCase(),
+        role: "ADMIN",
+        isActive: true,
+        passwordHash: await hashPassword(password),
+        avatar: name.split(" ").map(n => n[0]).join("").toUpperCase().slice(0, 2),
+      },
+    });
+
+    console.log(`🔑 [auth] Bootstrap admin ${user.email} created`);
+    res.status(201).json({ token: signSession(user), user: publicUser(user) });
+  } catch (error) {
+    if (error.code === "P2002") {
+      return res.status(409).json({
+        error: "Email already exists",
+        message: "Register a new admin account, then set this user's password as that admin",
+      });
+    }
+    console.error("❌ [auth/register] Error:", error);
+    res.status(500).json({ error: "Failed to register" });
+  }
+});
+
+/**
+ * POST /api/auth/login
+ */
+router.post("/login", async (req, res) => {
+  try {
+    const { email, password } = req.body;
+
+    if (!email || !password) {
+      return res.status(400).json({ error: "Email and password are required" });
+    }
+
+    const user = await prisma.user.findUnique({ where: { email: email.toLowerCase() } });
+    const valid = user && user.isActive && (await verifyPassword(password, user.passwordHash));
+
+    if (!valid) {
+      return res.status(401).json({ error: "Invalid email or password" });
+    }
+
+    res.json({ token: signSession(user), user: publicUser(user) });
+  } catch (error) {
+    console.error("❌ [auth/login] Error:", error);
+    res.status(500).json({ error: "Failed to sign in" });
+  }
+});
+
+/**
+ * GET /api/auth/me
+ */
+router.get("/me", requireAuth, (req, res) => {
+  res.json({ user: publicUser(req.user) });
+});
+
+/**
+ * POST /api/auth/password
+ */
+router.post("/password", requireAuth, async (req, res) => {
+  try {
+    const { currentPassword, newPassword } = req.body;
+
+    if (!newPassword || newPassword.length < MIN_PASSWORD_LENGTH) {
+      return res.status(400).json({ error: `Password must be at least ${MIN_PASSWORD_LENGTH} characters` });
+    }
+    if (req.user.passwordHash && !(await verifyPassword(currentPassword || "", req.user.passwordHash))) {
+      return res.status(401).json({ error: "Current password is incorrect" });
+    }
+
+    await prisma.user.update({
+      where: { id: req.user.id },
+      data: { passwordHash: await hashPassword(newPassword) },
+    });
+
+    res.json({ message: "Password updated" });
+  } catch (error) {
+    console.error("❌ [auth/password] Error:", error);
+    res.status(500).json({ error: "Failed to update password" });
+  }
+});
+
+/**
+ * GET /api/auth/tokens
+ */
+router.get("/tokens", requireAuth, async (req, res) => {
+  try {
+    const tokens = await prisma.apiToken.findMany({
+      where: { userId: req.user.id },
+      select: {
+        id: true,
+        name: true,
+        prefix: true,
+        lastUsedAt: true,
+        expiresAt: true,
+        revokedAt: true,
+        createdAt: true,
+      },
+      orderBy: { createdAt: "desc" },
+    });
+
+    res.json({ tokens });
+  } catch (error) {
+    console.error("❌ [auth/tokens] Error:", error);
+    res.status(500).json({ error: "Failed to list tokens" });
+  }
+});
+
+/**
+ * POST /api/auth/tokens
+ * Input: { name, expiresInDays? }
+ */
+router.post("/tokens", requireAuth, async (req, res) => {
+  try {
+    const { name, expiresInDays } = req.body;
+
+    if (!name) {
+      return res.status(400).json({ error: "Token name is required" });
+    }
+
+    const expiresAt = expiresInDays
+      ? new Date(Date.now() + Number(expiresInDays) * 24 * 60 * 60 * 1000)
+      : null;
+    const { token, apiToken } = await createApiToken(req.user.id, name, expiresAt);
+
+    res.status(201).json({
+      message: "Copy this token now - it will not be shown again",
+      token,
+      apiToken: {
+        id: apiToken.id,
+        name: apiToken.name,
+        prefix: apiToken.prefix,
+        expiresAt: apiToken.expiresAt,
+        createdAt: apiToken.createdAt,
+      },
+    });
+  } catch (error) {
+    console.error("❌ [auth/tokens] Error:", error);
+    res.status(500).json({ error: "Failed to create token" });
+  }
+});
+
+/**
+ * DELETE /api/auth/tokens/:id
+ */
+router.delete("/tokens/:id", requireAuth, async (req, res) => {
+  try {
+    const { count } = await prisma.apiToken.updateMany({
+      where: { id: req.params.id, userId: req.user.id, revokedAt: null },
+      data: { revokedAt: new Date() },
+    });
+
+    if (count === 0) {
+      return res.status(404).json({ error: "Token not found" });
+    }
+
+    res.json({ message: "Token revoked" });
+  } catch (error) {
+    console.error("❌ [auth/tokens] Error:", error);
+    res.status(500).json({ error: "Failed to revoke token" });
+  }
+});
+
+module.exports = router;
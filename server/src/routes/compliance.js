@@ -3,26 +3,63 @@
  * 
  * POST /api/compliance/check - Check text for compliance issues (RAG-based)
  * POST /api/check-compliance - Alias endpoint (RAG-based)
+ * GET|POST /api/compliance/check/stream - Same check as server-sent events, stage by stage
+ * POST /api/compliance/check-image - OCR + visual checks on a design rendition
+ * POST /api/compliance/batch - Queue many assets for a background scan
+ * GET /api/compliance/batch/:id - Batch progress, per-item results and report
+ * GET /api/compliance/analytics/* - Trends, frequent phrases, cited policies, team pass rates
  */
 
 const express = require("express");
 const router = express.Router();
-const { checkCompliance } = require("../services/complianceChecker");
+const multer = require("multer");
+const { checkCompliance, checkComplianceStream } = require("../services/complianceChecker");
+const { checkImageCompliance } = require("../services/visualCompliance");
+const { isSupportedImage } = require("../services/renditions");
+const complianceCache = require("../services/complianceCache");
+const batchQueue = require("../services/batchQueue");
+const analytics = require("../services/complianceAnalytics");
+const { requireRole } = require("../middleware/auth");
+const { signUrls } = require("../middleware/uploads");
+
+const canViewAnalytics = requireRole("MANAGER", "LEGAL", "EXECUTIVE", "ADMIN");
+
+// Renditions are analyzed in memory and not stored
+const imageUpload = multer({
+  storage: multer.memoryStorage(),
+  fileFilter: (req, file, cb) => {
+    if (isSupportedImage(file.mimetype)) {
+      cb(null, true);
+    } else {
+      cb(new Error("Images must be PNG, JPEG, or WebP"), false);
+    }
+  },
+  limits: {
+    fileSize: 20 * 1024 * 1024, // 20MB max
+  },
+});
 
 /**
  * POST /api/compliance/check
  * POST /api/check-compliance (alias)
  * 
- * Request body: { text: string }
+ * Request body: { text: string, live?: boolean }  // live: watch-mode check, kept out of analytics
  * Response: {
- *   isCompliant: boolean,
- *   issues: Array<{text, severity, reason, suggestion}>,
- *   checkedAt: string
+ *   isCompliant: boolean,  // false unless the AI review completed, even with no issues
+ *   status: "ok" | "degraded" | "rules_only",  // degraded: the AI review failed; rules_only: no AI provider.
+ *                                              // Either way only rule hits are included
+ *   degradedReason?: string,
+ *   issues: Array<{text, severity, reason, suggestion, source, ruleId, start, end, citations}>,
+ *   provider: string,
+ *   checkedAt: string,
+ *   cached: boolean  // served from the result cache (or a concurrent identical check)
  * }
+ *
+ * citations: Array<{documentId, filename, originalName, chunkIndex, page, excerpt, url}>
  */
 const checkHandler = async (req, res) => {
   try {
-    const { text } = req.body;
+    const { text, live } = req.body;
 
     // Validate input
     if (!text || typeof text !== "string") {
@@ -40,7 +77,7 @@ const checkHandler = async (req, res) => {
     }
 
     // Check compliance using RAG
-    const result = await checkCompliance(text);
+    const result = await checkCompliance(text, { user: req.user, ...(live === true && { source: "live" }) });
 
     // Return result
     res.json(result);
@@ -59,27 +96,208 @@ const checkHandler = async (req, res) => {
 router.post("/check", checkHandler);
 router.post("/check-compliance", checkHandler);
 
+/**
+ * GET /api/compliance/check/stream?text=...
+ * POST /api/compliance/check/stream  { text: string }
+ *
+ * Server-sent events, in order:
+ *   event: rules    data: {issues}   - rule hits (instant)
+ *   event: context  data: {chunks: Array<{ref, documentId, originalName, page, score}>}
+ *   event: issue    data: {issue}    - one per AI issue, as soon as it is parsed
+ *   event: summary  data: {result}   - same body as POST /check
+ *   event: error    data: {error, message}
+ *
+ * Cached results skip `context` and replay the rest at once. Closing the
+ * connection cancels retrieval and generation.
+ */
+const streamHandler = async (req, res) => {
+  const text = req.method === "GET" ? req.query.text : req.body?.text;
+
+  if (!text || typeof text !== "string" || text.trim().length === 0) {
+    return res.status(400).json({
+      error: "Invalid request",
+      message: "Provide non-empty 'text' (body for POST, query for GET)",
+    });
+  }
+
+  res.writeHead(200, {
+    "Content-Type": "text/event-stream",
+    "Cache-Control": "no-cache",
+    Connection: "keep-alive",
+    "X-Accel-Buffering": "no", // Don't let proxies hold events back
+  });
+  res.flushHeaders();
+
+  const send = (event, data) => {
+    if (!res.writableEnded) res.write(`event: ${event}\ndata: ${JSON.stringify(signUrls(data))}\n\n`);
+  };
+
+  const controller = new AbortController();
+  res.on("close", () => {
+    if (!res.writableFinished) {
+      console.log("🛑 [compliance/check/stream] Client disconnected, cancelling check");
+      controller.abort();
+    }
+  });
+
+  try {
+    await checkComplianceStream(text, {
+      onEvent: send,
+      signal: controller.signal,
+      context: { user: req.user },
+    });
+  } catch (error) {
+    if (!controller.signal.aborted) {
+      console.error("❌ [compliance/check/stream] Error:", error);
+      send("error", {
+        error: "Server error",
+        message: "Failed to check compliance",
+        details: process.env.NODE_ENV === "development" ? error.message : undefined,
+      });
+    }
+  } finally {
+    res.end();
+  }
+};
+
+router.get("/check/stream", streamHandler);
+router.post("/check/stream", streamHandler);
+
+/**
+ * POST /api/compliance/check-image
+ *
+ * Multipart form with a `file` field (PNG/JPEG/WebP rendition)
+ * Response: same as /check, plus
+ *   issues[].bbox: {x, y, width, height} as fractions of the image (null if not located)
+ *   issues[].source: "rule" | "ai" | "visual"
+ *   ocr: {text, confidence}
+ *   image: {width, height}
+ */
+router.post("/check-image", (req, res, next) => {
+  imageUpload.single("file")(req, res, (err) => {
+    if (err) {
+      return res.status(400).json({ error: "Invalid image", message: err.message });
+    }
+    next();
+  });
+}, async (req, res) => {
+  try {
+    if (!req.file) {
+      return res.status(400).json({ error: "No file uploaded" });
+    }
+
+    const result = await checkImageCompliance(req.file.buffer, { user: req.user });
+    res.json(result);
+
+  } catch (error) {
+    console.error("❌ [compliance/check-image] Error:", error);
+    res.status(500).json({
+      error: "Server error",
+      message: "Failed to check image compliance",
+      details: process.env.NODE_ENV === "development" ? error.message : undefined,
+    });
+  }
+});
+
+/**
+ * POST /api/compliance/batch
+ *
+ * Request body: {
+ *   name?: string,
+ *   items: Array<{id: string, title?: string, text: string, locale?: string, category?: string}>
+ * }
+ * Response (202): { batchId, status, totalItems, statusUrl }
+ */
+router.post("/batch", async (req, res) => {
+  try {
+    const { name, items } = req.body || {};
+
+    const invalid = batchQueue.validateItems(items);
+    if (invalid) {
+      return res.status(400).json({ error: "Invalid request", message: invalid });
+    }
+    if (name != null && typeof name !== "string") {
+      return res.status(400).json({ error: "Invalid request", message: "'name' must be a string" });
+    }
+
+    const batch = await batchQueue.enqueue({ name, items, createdById: req.user?.id });
+
+    res.status(202).json({
+      batchId: batch.id,
+      status: batch.status,
+      totalItems: batch.totalItems,
+      statusUrl: `/api/compliance/batch/${batch.id}`,
+    });
+  } catch (error) {
+    console.error("❌ [compliance/batch] Error:", error);
+    res.status(500).json({
+      error: "Server error",
+      message: "Failed to queue batch",
+      details: process.env.NODE_ENV === "development" ? error.message : undefined,
+    });
+  }
+});
+
+/**
+ * GET /api/compliance/batch/:id
+ *
+ * Works while the batch is running: items that are done carry their result.
+ * Response: {
+ *   id, name, status: "QUEUED" | "RUNNING" | "COMPLETED",
+ *   totalItems, processedItems, failedItems, progress (0-100),
+ *   report: {itemsChecked, compliantItems, degradedItems, failedItems, totalIssues,
+ *            bySeverity, byCategory, byLocale,
+ *            worstOffenders: Array<{id, title, category, locale, score, issueCount, bySeverity}>},
+ *   items: Array<{id, title, locale, category, status: "PENDING" | "RUNNING" | "DONE" | "FAILED", result, error}>
+ * }
+ */
+router.get("/batch/:id", async (req, res) => {
+  try {
+    const batch = await batchQueue.getBatch(req.params.id);
+
+    // Designers only see their own batches
+    if (!batch || (req.user.role === "DESIGNER" && batch.createdById !== req.user.id)) {
+      return res.status(404).json({ error: "Batch not found" });
+    }
+
+    res.json(batch);
+  } catch (error) {
+    console.error("❌ [compliance/batch/:id] Error:", error);
+    res.status(500).json({ error: "Failed to get batch" });
+  }
+});
+
 /**
  * GET /api/compliance/stats
- * Get compliance check statistics
+ * Get compliance check statistics (live watch-mode checks not included)
  */
 router.get("/stats", async (req, res) => {
   try {
     const prisma = require("../lib/prisma");
+    const counted = { source: { not: "live" } };
     
-    const totalChecks = await prisma.complianceCheck.count();
+    const totalChecks = await prisma.complianceCheck.count({ where: counted });
     const compliantCount = await prisma.complianceCheck.count({
-      where: { isCompliant: true }
+      where: { ...counted, isCompliant: true }
     });
     const nonCompliantCount = totalChecks - compliantCount;
+    const [latency, cachedCount, degradedCount] = await Promise.all([
+      prisma.complianceCheck.aggregate({ where: counted, _avg: { latencyMs: true } }),
+      prisma.complianceCheck.count({ where: { ...counted, cached: true } }),
+      prisma.complianceCheck.count({ where: { ...counted, status: "degraded" } }),
+    ]);
     
     res.json({
       totalChecks,
       compliantCount,
       nonCompliantCount,
+      degradedCount,
       complianceRate: totalChecks > 0 
         ? ((compliantCount / totalChecks) * 100).toFixed(1) + "%" 
         : "N/A",
+      averageLatencyMs: latency._avg.latencyMs !== null ? Math.round(latency._avg.latencyMs) : null,
+      cachedCount,
+      cache: complianceCache.getStats(),
     });
   } catch (error) {
     console.error("❌ [compliance/stats] Error:", error);
@@ -87,4 +305,75 @@ router.get("/stats", async (req, res) => {
   }
 });
 
+// ============================================
+// ANALYTICS (reviewer roles)
+// Common query: ?days=30 (max 365), &team=Social, &limit=10
+// ============================================
+
+function analyticsFilters(query) {
+  return {
+    days: Math.min(Math.max(parseInt(query.days, 10) || 30, 1), analytics.MAX_DAYS),
+    team: typeof query.team === "string" && query.team ? query.team : undefined,
+    limit: Math.min(Math.max(parseInt(query.limit, 10) || 10, 1), 50),
+  };
+}
+
+/**
+ * GET /api/compliance/analytics/trends?interval=day|week
+ * Response: { trends: Array<{date, checks, passed, degraded, issues, high, medium, low, passRate}> }
+ */
+router.get("/analytics/trends", canViewAnalytics, async (req, res) => {
+  try {
+    const interval = req.query.interval === "week" ? "week" : "day";
+    const trends = await analytics.getTrends({ ...analyticsFilters(req.query), interval });
+    res.json({ trends });
+  } catch (error) {
+    console.error("❌ [compliance/analytics/trends] Error:", error);
+    res.status(500).json({ error: "Failed to load trends" });
+  }
+});
+
+/**
+ * GET /api/compliance/analytics/phrases
+ * Response: { phrases: Array<{phrase, count, checks, severity, categories, sources, lastSeen}> }
+ */
+router.get("/analytics/phrases", canViewAnalytics, async (req, res) => {
+  try {
+    const phrases = await analytics.getTopPhrases(analyticsFilters(req.query));
+    res.json({ phrases });
+  } catch (error) {
+    console.error("❌ [compliance/analytics/phrases] Error:", error);
+    res.status(500).json({ error: "Failed to load phrases" });
+  }
+});
+
+/**
+ * GET /api/compliance/analytics/policies
+ * Response: { documents: Array<{documentId, originalName, citations, pages}>, rules: Array<{ruleId, pattern, category, severity, hits}> }
+ */
+router.get("/analytics/policies", canViewAnalytics, async (req, res) => {
+  try {
+    const policies = await analytics.getTopPolicies(analyticsFilters(req.query));
+    res.json(policies);
+  } catch (error) {
+    console.error("❌ [compliance/analytics/policies] Error:", error);
+    res.status(500).json({ error: "Failed to load policies" });
+  }
+});
+
+/**
+ * GET /api/compliance/analytics/teams
+ * Response: { teams: Array<{team, users, checks, passed, degraded, issues, high, medium, low, passRate}> }
+ */
+router.get("/analytics/teams", canViewAnalytics, async (req, res) => {
+  try {
+    const { days } = analyticsFilters(req.query);
+    const teams = await analytics.getTeamStats({ days });
+    res.json({ teams });
+  } catch (error) {
+    console.error("❌ [compliance/analytics/teams] Error:", error);
+    res.status(500).json({ error: "Failed to load team stats" });
+  }
+});
+
 module.exports = router;
\ No newline at end of file
@@ -1,6 +1,6 @@
 /**
  * Documents API Routes
- * Handles PDF/Text uploads for the "Truth Source" (RAG Knowledge Base)
+ * Handles PDF/DOCX/HTML/Text uploads for the "Truth Source" (RAG Knowledge Base)
  */
 
 const express = require("express");
@@ -10,6 +10,12 @@ const path = require("path");
 const fs = require("fs");
 const prisma = require("../lib/prisma");
 const vectorStore = require("../services/vectorStore");
+const ingestionQueue = require("../services/ingestionQueue");
+const { detectFormat } = require("../services/textExtractor");
+const { requireRole } = require("../middleware/auth");
+
+// Changing the truth source affects every compliance check
+const canManageDocuments = requireRole("MANAGER", "LEGAL", "ADMIN");
 
 // ============================================
 // MULTER CONFIGURATION (File Uploads)
@@ -33,16 +39,12 @@ const storage = multer.diskStorage({
   },
 });
 
-// Filter for text-based files
+// Filter for supported document formats
 const fileFilter = (req, file, cb) => {
-  if (
-    file.mimetype === "application/pdf" ||
-    file.mimetype === "text/plain" ||
-    file.mimetype === "text/markdown"
-  ) {
+  if (detectFormat(file.mimetype, file.originalname)) {
     cb(null, true);
   } else {
-    cb(new Error("Invalid file type. Only PDF, TXT, and MD allowed."), false);
+    cb(new Error("Invalid file type. Only PDF, DOCX, HTML, TXT, and MD allowed."), false);
   }
 };
 
@@ -60,8 +62,17 @@ router.get("/", async (req, res) => {
   try {
     const documents = await prisma.document.findMany({
       orderBy: { createdAt: "desc" },
+      include: {
+        ingestionJobs: { orderBy: { createdAt: "desc" }, take: 1 },
+      },
+    });
+
+    res.json({
+      documents: documents.map(({ ingestionJobs, ...doc }) => ({
+        ...doc,
+        ingestion: ingestionJobs[0] || null,
+      })),
     });
-    res.json({ documents });
   } catch (error) {
     console.error("❌ [documents] List error:", error);
     res.status(500).json({ error: "Failed to list documents" });
@@ -70,9 +81,10 @@ router.get("/", async (req, res) => {
 
 /**
  * POST /api/documents/upload
- * Upload a file and index it in Pinecone
+ * Upload a file and queue it for extraction + indexing
+ * Responds immediately (202); poll GET /api/documents/:id/status for progress
  */
-router.post("/upload", upload.single("file"), async (req, res) => {
+router.post("/upload", canManageDocuments, upload.single("file"), async (req, res) => {
   try {
     if (!req.file) {
       return res.status(400).json({ error: "No file uploaded" });
@@ -83,44 +95,21 @@ router.post("/upload", upload.single("file"), async (req, res) => {
     // 1. Save to Database
     const doc = await prisma.document.create({
       data: {
-        filename: req.file.originalname,
-        path: req.file.path,
+        filename: req.file.filename,
+        originalName: req.file.originalname,
         mimeType: req.file.mimetype,
-        size: req.file.size,
+        fileSize: req.file.size,
       },
     });
 
-    // 2. Read file content (Simple text extraction for Hackathon)
-    // Note: For PDFs in production, you'd use 'pdf-parse'. 
-    // For now, we assume text/md or simple parsing.
-    let textContent = "";
-    try {
-      if (req.file.mimetype === "application/pdf") {
-        // Placeholder: Real PDF parsing requires 'pdf-parse' package
-        // If you don't have it, we'll skip indexing or treat as empty
-        console.warn("⚠️ PDF parsing requires 'npm install pdf-parse'");
-        textContent = `[PDF Document: ${req.file.originalname}]`; 
-      } else {
-        textContent = fs.readFileSync(req.file.path, "utf-8");
-      }
-      
-      // 3. Index in Vector Store (Pinecone)
-      if (textContent && textContent.length > 0) {
-        console.log("🧠 [documents] Indexing content...");
-        await vectorStore.indexDocument(doc.id, textContent, {
-            filename: doc.filename,
-            source: "user_upload"
-        });
-      }
-    } catch (parseError) {
-      console.error("⚠️ [documents] Parsing/Indexing failed:", parseError);
-      // We don't fail the request, just log it
-    }
+    // 2. Queue extraction + indexing
+    const job = await ingestionQueue.enqueue(doc.id);
 
-    res.json({
+    res.status(202).json({
       success: true,
-      message: "Document uploaded and indexed",
+      message: "Document uploaded and queued for indexing",
       document: doc,
+      job,
     });
 
   } catch (error) {
@@ -129,11 +118,65 @@ router.post("/upload", upload.single("file"), async (req, res) => {
   }
 });
 
+/**
+ * GET /api/documents/:id/status
+ * Ingestion progress for a document
+ */
+router.get("/:id/status", async (req, res) => {
+  try {
+    const doc = await prisma.document.findUnique({
+      where: { id: req.params.id },
+      include: {
+        ingestionJobs: { orderBy: { createdAt: "desc" }, take: 1 },
+      },
+    });
+    if (!doc) return res.status(404).json({ error: "Document not found" });
+
+    const job = doc.ingestionJobs[0] || null;
+
+    res.json({
+      documentId: doc.id,
+      extractionStatus: doc.extractionStatus,
+      extractionError: doc.extractionError,
+      // No job: uploaded before the ingestion queue existed, indexed only if it has vectors
+      status: job ? job.status : doc.vectorId ? "INDEXED" : "NOT_INDEXED",
+      totalChunks: job ? job.totalChunks : 0,
+      processedChunks: job ? job.processedChunks : 0,
+      progress:
+        job && job.totalChunks > 0
+          ? Math.round((job.processedChunks / job.totalChunks) * 100)
+          : job && job.status === "INDEXED" ? 100 : 0,
+      error: job ? job.error : null,
+      job,
+    });
+  } catch (error) {
+    console.error("❌ [documents] Status error:", error);
+    res.status(500).json({ error: "Failed to get document status" });
+  }
+});
+
+/**
+ * POST /api/documents/:id/reindex
+ * Queue a new ingestion job (e.g. after a failure)
+ */
+router.post("/:id/reindex", canManageDocuments, async (req, res) => {
+  try {
+    const doc = await prisma.document.findUnique({ where: { id: req.params.id } });
+    if (!doc) return res.status(404).json({ error: "Document not found" });
+
+    const job = await ingestionQueue.enqueue(doc.id);
+    res.status(202).json({ success: true, message: "Document queued for indexing", job });
+  } catch (error) {
+    console.error("❌ [documents] Reindex error:", error);
+    res.status(500).json({ error: "Failed to queue document" });
+  }
+});
+
 /**
  * DELETE /api/documents/:id
  * Remove a document
  */
-router.delete("/:id", async (req, res) => {
+router.delete("/:id", canManageDocuments, async (req, res) => {
   try {
     const { id } = req.params;
 
@@ -142,8 +185,9 @@ router.delete("/:id", async (req, res) => {
     if (!doc) return res.status(404).json({ error: "Document not found" });
 
     // 2. Delete file from disk
-    if (fs.existsSync(doc.path)) {
-      fs.unlinkSync(doc.path);
+    const filePath = path.join(uploadDir, doc.filename);
+    if (fs.existsSync(filePath)) {
+      fs.unlinkSync(filePath);
     }
 
     // 3. Delete from Vector Store
@@ -0,0 +1,120 @@
+/**
+ * Notifications API Routes
+ *
+ * GET  /api/notifications - Latest notifications and the unread count
+ * GET  /api/notifications/stream - Live workflow events (server-sent events)
+ * POST /api/notifications/read - Mark notifications read
+ */
+
+const express = require("express");
+const router = express.Router();
+const eventBus = require("../services/eventBus");
+
+const HEARTBEAT_MS = 25000;
+
+/**
+ * GET /api/notifications?unread=true&limit=20
+ * Response: { notifications (newest first), unreadCount }
+ */
+router.get("/", async (req, res) => {
+  try {
+    const limit = Math.min(Math.max(Number(req.query.limit) || 20, 1), 100);
+    const [notifications, unreadCount] = await Promise.all([
+      eventBus.list(req.user.id, { unreadOnly: req.query.unread === "true", limit }),
+      eventBus.unreadCount(req.user.id),
+    ]);
+    res.json({ notifications, unreadCount });
+  } catch (error) {
+    console.error("❌ [notifications/list] Error:", error);
+    res.status(500).json({ error: "Failed to list notifications" });
+  }
+});
+
+/**
+ * GET /api/notifications/stream
+ *
+ * Server-sent events for the signed-in user:
+ *   event: notification  data: Notification (the SSE id is the notification id)
+ *   event: resync        data: {latestId} - too much was missed to replay, reload GET /api/notifications
+ *   event: ready         data: {unreadCount} - after any replayed notifications
+ *   event: read          data: {ids, unreadCount} - marked read in another session
+ *
+ * Reconnect with `Last-Event-ID` (or `?after=`) set to the last id received to
+ * replay what was missed while disconnected. The `resync` SSE id is `latestId`,
+ * so the stream resumes from there.
+ */
+router.get("/stream", async (req, res) => {
+  const after = Number(req.get("Last-Event-ID") || req.query.after) || 0;
+
+  res.writeHead(200, {
+    "Content-Type": "text/event-stream",
+    "Cache-Control": "no-cache",
+    Connection: "keep-alive",
+    "X-Accel-Buffering": "no", // Don't let proxies hold events back
+  });
+  res.flushHeaders();
+
+  let lastId = after;
+  const send = (event, data) => {
+    if (res.writableEnded) return;
+    if (event === "notification") {
+      if (data.id <= lastId) return; // Already sent by the replay (or covered by a resync)
+      lastId = data.id;
+      res.write(`id: ${data.id}\n`);
+    } else if (event === "resync") {
+      lastId = Math.max(lastId, data.latestId);
+      res.write(`id: ${lastId}\n`);
+    }
+    res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+  };
+
+  // Subscribe before replaying so nothing published in between is lost
+  let queued = [];
+  const unsubscribe = eventBus.subscribe(req.user.id, (event, data) => {
+    if (queued) queued.push([event, data]);
+    else send(event, data);
+  });
+  const heartbeat = setInterval(() => {
+    if (!res.writableEnded) res.write(": ping\n\n");
+  }, HEARTBEAT_MS);
+  res.on("close", () => {
+    clearInterval(heartbeat);
+    unsubscribe();
+  });
+
+  try {
+    if (after > 0) {
+      const missed = await eventBus.replay(req.user.id, after);
+      if (missed.truncated) send("resync", { latestId: missed.latestId });
+      for (const notification of missed.notifications) send("notification", notification);
+    }
+    send("ready", { unreadCount: await eventBus.unreadCount(req.user.id) });
+  } catch (error) {
+    console.error("❌ [notifications/stream] Error:", error);
+  } finally {
+    for (const [event, data] of queued) send(event, data);
+    queued = null;
+  }
+});
+
+/**
+ * POST /api/notifications/read
+ * Request body: { ids?: number[] } - all of the user's notifications when omitted
+ * Response: { unreadCount }
+ */
+router.post("/read", async (req, res) => {
+  try {
+    const { ids } = req.body || {};
+    if (ids !== undefined && (!Array.isArray(ids) || !ids.every(Number.isInteger))) {
+      return res.status(400).json({ error: "ids must be an array of notification ids" });
+    }
+
+    const unreadCount = await eventBus.markRead(req.user.id, ids);
+    res.json({ unreadCount });
+  } catch (error) {
+    console.error("❌ [notifications/read] Error:", error);
+    res.status(500).json({ error: "Failed to mark notifications read" });
+  }
+});
+
+module.exports = router;
@@ -10,6 +10,11 @@
 const express = require("express");
 const router = express.Router();
 const prisma = require("../lib/prisma");
+const { validatePattern } = require("../services/ruleEngine");
+const { requireRole } = require("../middleware/auth");
+
+// Rules decide what gets flagged - reviewers who own policy can change them
+const canManageRules = requireRole("MANAGER", "LEGAL", "ADMIN");
 
 /**
  * GET /api/rules
@@ -39,9 +44,9 @@ router.get("/", async (req, res) => {
  * POST /api/rules
  * Create a new policy rule
  */
-router.post("/", async (req, res) => {
+router.post("/", canManageRules, async (req, res) => {
   try {
-    const { pattern, reason, suggestion, category, severity } = req.body;
+    const { pattern, patternType, reason, suggestion, category, severity } = req.body;
 
     // Validate required fields
     if (!pattern || !reason || !suggestion) {
@@ -51,9 +56,18 @@ router.post("/", async (req, res) => {
       });
     }
 
+    const patternError = validatePattern(pattern, patternType || "phrase");
+    if (patternError) {
+      return res.status(400).json({
+        error: "Invalid pattern",
+        message: patternError,
+      });
+    }
+
     const rule = await prisma.policyRule.create({
       data: {
         pattern,
+        patternType: patternType || "phrase",
         reason,
         suggestion,
         category: category || "general",
@@ -76,14 +90,35 @@ router.post("/", async (req, res) => {
  * PUT /api/rules/:id
  * Update an existing rule
  */
-router.put("/:id", async (req, res) => {
+router.put("/:id", canManageRules, async (req, res) => {
   try {
-    const { pattern, reason, suggestion, category, severity, isActive } = req.body;
+    const { pattern, patternType, reason, suggestion, category, severity, isActive } = req.body;
+
+    if (pattern || patternType) {
+      const existing = await prisma.policyRule.findUnique({
+        where: { id: req.params.id },
+      });
+      if (!existing) {
+        return res.status(404).json({ error: "Rule not found" });
+      }
+
+      const patternError = validatePattern(
+        pattern || existing.pattern,
+        patternType || existing.patternType
+      );
+      if (patternError) {
+        return res.status(400).json({
+          error: "Invalid pattern",
+          message: patternError,
+        });
+      }
+    }
 
     const rule = await prisma.policyRule.update({
       where: { id: req.params.id },
       data: {
         ...(pattern && { pattern }),
+        ...(patternType && { patternType }),
         ...(reason && { reason }),
         ...(suggestion && { suggestion }),
         ...(category && { category }),
@@ -110,7 +145,7 @@ router.put("/:id", async (req, res) => {
  * DELETE /api/rules/:id
  * Delete a rule
  */
-router.delete("/:id", async (req, res) => {
+router.delete("/:id", canManageRules, async (req, res) => {
   try {
     await prisma.policyRule.delete({
       where: { id: req.params.id },
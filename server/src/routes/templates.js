@@ -0,0 +1,186 @@
+/**
+ * Workflow Template API Routes
+ *
+ * GET    /api/workflow/templates - List templates
+ * GET    /api/workflow/templates/:id - Get a template
+ * POST   /api/workflow/templates - Create a template
+ * PUT    /api/workflow/templates/:id - Update a template
+ * DELETE /api/workflow/templates/:id - Delete a template
+ *
+ * Step format is documented in services/workflowEngine.js
+ */
+
+const express = require("express");
+const router = express.Router();
+const prisma = require("../lib/prisma");
+const { validateTemplateSteps } = require("../services/workflowEngine");
+const { requireRole } = require("../middleware/auth");
+
+// Only admins change approval chains
+const requireAdmin = requireRole("ADMIN");
+
+/**
+ * Only one active default template at a time
+ */
+async function clearOtherDefaults(id) {
+  await prisma.workflowTemplate.updateMany({
+    where: { isDefault: true, ...(id && { id: { not: id } }) },
+    data: { isDefault: false },
+  });
+}
+
+/**
+ * GET /api/workflow/templates
+ * List templates (optionally filtered by ?category=)
+ */
+router.get("/", async (req, res) => {
+  try {
+    const { category } = req.query;
+
+    const templates = await prisma.workflowTemplate.findMany({
+      where: category ? { category } : {},
+      orderBy: [{ isDefault: "desc" }, { name: "asc" }],
+    });
+
+    res.json({
+      count: templates.length,
+      templates,
+    });
+  } catch (error) {
+    console.error("❌ [templates/list] Error:", error);
+    res.status(500).json({ error: "Failed to list templates" });
+  }
+});
+
+/**
+ * GET /api/workflow/templates/:id
+ */
+router.get("/:id", async (req, res) => {
+  try {
+    const template = await prisma.workflowTemplate.findUnique({
+      where: { id: req.params.id },
+    });
+
+    if (!template) {
+      return res.status(404).json({ error: "Template not found" });
+    }
+
+    res.json({ template });
+  } catch (error) {
+    console.error("❌ [templates/get] Error:", error);
+    res.status(500).json({ error: "Failed to get template" });
+  }
+});
+
+/**
+ * POST /api/workflow/templates
+ * Create a new template
+ */
+router.post("/", requireAdmin, async (req, res) => {
+  try {
+    const { name, description, category, isDefault, isActive, steps } = req.body;
+
+    if (!name || !steps) {
+      return res.status(400).json({
+        error: "Missing required fields",
+        message: "name and steps are required",
+      });
+    }
+
+    const stepsError = validateTemplateSteps(steps);
+    if (stepsError) {
+      return res.status(400).json({
+        error: "Invalid steps",
+        message: stepsError,
+      });
+    }
+
+    if (isDefault) await clearOtherDefaults(null);
+
+    const template = await prisma.workflowTemplate.create({
+      data: {
+        name,
+        description,
+        category: category || null,
+        isDefault: Boolean(isDefault),
+        isActive: isActive !== false,
+        steps,
+      },
+    });
+
+    res.status(201).json({
+      message: "Template created successfully",
+      template,
+    });
+  } catch (error) {
+    console.error("❌ [templates/create] Error:", error);
+    res.status(500).json({ error: "Failed to create template" });
+  }
+});
+
+/**
+ * PUT /api/workflow/templates/:id
+ * Update a template. Existing workflows keep the steps they were created with.
+ */
+router.put("/:id", requireAdmin, async (req, res) => {
+  try {
+    const { name, description, category, isDefault, isActive, steps } = req.body;
+
+    if (steps !== undefined) {
+      const stepsError = validateTemplateSteps(steps);
+      if (stepsError) {
+        return res.status(400).json({
+          error: "Invalid steps",
+          message: stepsError,
+        });
+      }
+    }
+
+    if (isDefault === true) await clearOtherDefaults(req.params.id);
+
+    const template = await prisma.workflowTemplate.update({
+      where: { id: req.params.id },
+      data: {
+        ...(name && { name }),
+        ...(description !== undefined && { description }),
+        ...(category !== undefined && { category: category || null }),
+        ...(typeof isDefault === "boolean" && { isDefault }),
+        ...(typeof isActive === "boolean" && { isActive }),
+        ...(steps !== undefined && { steps }),
+      },
+    });
+
+    res.json({
+      message: "Template updated successfully",
+      template,
+    });
+  } catch (error) {
+    if (error.code === "P2025") {
+      return res.status(404).json({ error: "Template not found" });
+    }
+    console.error("❌ [templates/update] Error:", error);
+    res.status(500).json({ error: "Failed to update template" });
+  }
+});
+
+/**
+ * DELETE /api/workflow/templates/:id
+ * Workflows created from the template keep their steps (templateId is cleared)
+ */
+router.delete("/:id", requireAdmin, async (req, res) => {
+  try {
+    await prisma.workflowTemplate.delete({
+      where: { id: req.params.id },
+    });
+
+    res.json({ message: "Template deleted successfully" });
+  } catch (error) {
+    if (error.code === "P2025") {
+      return res.status(404).json({ error: "Template not found" });
+    }
+    console.error("❌ [templates/delete] Error:", error);
+    res.status(500).json({ error: "Failed to delete template" });
+  }
+});
+
+module.exports = router;
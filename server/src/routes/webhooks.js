@@ -0,0 +1,212 @@
+/**
+ * Webhook API Routes (admin only)
+ *
+ * GET    /api/webhooks - List webhooks (secrets masked)
+ * POST   /api/webhooks - Register an endpoint, returns its signing secret once
+ * PUT    /api/webhooks/:id - Update url, events, description, isActive (or rotate the secret)
+ * DELETE /api/webhooks/:id - Remove a webhook and its delivery log
+ * GET    /api/webhooks/:id/deliveries - Delivery log, newest first
+ * POST   /api/webhooks/:id/test - Send a `ping` event
+ * POST   /api/webhooks/deliveries/:id/redeliver - Send a delivery again
+ *
+ * Payload format and signature headers are documented in services/webhooks.js
+ */
+
+const express = require("express");
+const router = express.Router();
+const prisma = require("../lib/prisma");
+const webhooks = require("../services/webhooks");
+const eventBus = require("../services/eventBus");
+
+/**
+ * Never hand the signing secret out again after creation
+ */
+function maskSecret(webhook) {
+  return { ...webhook, secret: `${webhook.secret.slice(0, 6)}…${webhook.secret.slice(-4)}` };
+}
+
+/**
+ * @returns {string|null} What is wrong with an `events` field, or null
+ */
+function validateEvents(events) {
+  if (!Array.isArray(events)) return "events must be an array (empty for all events)";
+  const unknown = events.filter((event) => !eventBus.eventTypes.includes(event));
+  return unknown.length
+    ? `Unknown event(s): ${unknown.join(", ")}. Use: ${eventBus.eventTypes.join(", ")}`
+    : null;
+}
+
+/**
+ * GET /api/webhooks
+ */
+router.get("/", async (req, res) => {
+  try {
+    const list = await prisma.webhook.findMany({
+      orderBy: { createdAt: "desc" },
+      include: { _count: { select: { deliveries: { where: { status: "FAILED" } } } } },
+    });
+    res.json({
+      webhooks: list.map(({ _count, ...webhook }) => ({
+        ...maskSecret(webhook),
+        failedDeliveries: _count.deliveries,
+      })),
+    });
+  } catch (error) {
+    console.error("❌ [webhooks/list] Error:", error);
+    res.status(500).json({ error: "Failed to list webhooks" });
+  }
+});
+
+/**
+ * POST /api/webhooks
+ * Request body: { url, events?: string[], description?, secret? }
+ * Response: { webhook } including `secret` - store it to verify signatures
+ */
+router.post("/", async (req, res) => {
+  try {
+    const { url, events = [], description, secret } = req.body;
+
+    const problem = webhooks.validateUrl(url) || validateEvents(events);
+    if (problem) {
+      return res.status(400).json({ error: "Invalid webhook", message: problem });
+    }
+    if (secret !== undefined && (typeof secret !== "string" || secret.length < 16)) {
+      return res.status(400).json({ error: "Invalid webhook", message: "secret must be at least 16 characters" });
+    }
+
+    const webhook = await prisma.webhook.create({
+      data: {
+        url,
+        events,
+        description: description || null,
+        secret: secret || webhooks.generateSecret(),
+        createdById: req.user.id,
+      },
+    });
+
+    console.log(`🪝 [webhooks] Registered ${webhook.url}`);
+    res.status(201).json({
+      message: "Webhook created. Store the secret now, it will not be shown again.",
+      webhook,
+    });
+  } catch (error) {
+    console.error("❌ [webhooks/create] Error:", error);
+    res.status(500).json({ error: "Failed to create webhook" });
+  }
+});
+
+/**
+ * PUT /api/webhooks/:id
+ * Request body: { url?, events?, description?, isActive?, rotateSecret?: true }
+ * The new secret is only included in the response when rotated.
+ */
+router.put("/:id", async (req, res) => {
+  try {
+    const { url, events, description, isActive, rotateSecret } = req.body;
+
+    const problem =
+      (url !== undefined && webhooks.validateUrl(url)) || (events !== undefined && validateEvents(events));
+    if (problem) {
+      return res.status(400).json({ error: "Invalid webhook", message: problem });
+    }
+
+    const webhook = await prisma.webhook.update({
+      where: { id: req.params.id },
+      data: {
+        ...(url !== undefined && { url }),
+        ...(events !== undefined && { events }),
+        ...(description !== undefined && { description: description || null }),
+        ...(typeof isActive === "boolean" && { isActive }),
+        ...(rotateSecret === true && { secret: webhooks.generateSecret() }),
+      },
+    });
+
+    res.json({
+      message: "Webhook updated successfully",
+      webhook: rotateSecret === true ? webhook : maskSecret(webhook),
+    });
+  } catch (error) {
+    if (error.code === "P2025") {
+      return res.status(404).json({ error: "Webhook not found" });
+    }
+    console.error("❌ [webhooks/update] Error:", error);
+    res.status(500).json({ error: "Failed to update webhook" });
+  }
+});
+
+/**
+ * DELETE /api/webhooks/:id
+ */
+router.delete("/:id", async (req, res) => {
+  try {
+    await prisma.webhook.delete({ where: { id: req.params.id } });
+    res.json({ message: "Webhook deleted successfully" });
+  } catch (error) {
+    if (error.code === "P2025") {
+      return res.status(404).json({ error: "Webhook not found" });
+    }
+    console.error("❌ [webhooks/delete] Error:", error);
+    res.status(500).json({ error: "Failed to delete webhook" });
+  }
+});
+
+/**
+ * GET /api/webhooks/:id/deliveries?status=FAILED&limit=50
+ */
+router.get("/:id/deliveries", async (req, res) => {
+  try {
+    const { status } = req.query;
+    if (status && !["PENDING", "SUCCEEDED", "FAILED"].includes(status)) {
+      return res.status(400).json({ error: "status must be PENDING, SUCCEEDED or FAILED" });
+    }
+
+    const deliveries = await prisma.webhookDelivery.findMany({
+      where: { webhookId: req.params.id, ...(status && { status }) },
+      orderBy: { createdAt: "desc" },
+      take: Math.min(Math.max(Number(req.query.limit) || 50, 1), 200),
+    });
+    res.json({ deliveries });
+  } catch (error) {
+    console.error("❌ [webhooks/deliveries] Error:", error);
+    res.status(500).json({ error: "Failed to list deliveries" });
+  }
+});
+
+/**
+ * POST /api/webhooks/:id/test
+ * Queues a `ping` event for this webhook only (sent even if it is disabled)
+ */
+router.post("/:id/test", async (req, res) => {
+  try {
+    const queued = await webhooks.dispatch(
+      "ping",
+      { event: "ping", occurredAt: new Date().toISOString(), webhookId: req.params.id },
+      { onlyWebhookId: req.params.id }
+    );
+    if (queued === 0) {
+      return res.status(404).json({ error: "Webhook not found" });
+    }
+    res.status(202).json({ message: "Ping queued" });
+  } catch (error) {
+    console.error("❌ [webhooks/test] Error:", error);
+    res.status(500).json({ error: "Failed to queue ping" });
+  }
+});
+
+/**
+ * POST /api/webhooks/deliveries/:id/redeliver
+ */
+router.post("/deliveries/:id/redeliver", async (req, res) => {
+  try {
+    const delivery = await webhooks.redeliver(req.params.id);
+    res.status(202).json({ message: "Delivery queued", delivery });
+  } catch (error) {
+    if (error.code === "P2025") {
+      return res.status(404).json({ error: "Delivery not found" });
+    }
+    console.error("❌ [webhooks/redeliver] Error:", error);
+    res.status(500).json({ error: "Failed to redeliver" });
+  }
+});
+
+module.exports = router;
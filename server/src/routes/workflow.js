@@ -6,26 +6,140 @@
 
 const express = require("express");
 const router = express.Router();
+const multer = require("multer");
 const prisma = require("../lib/prisma");
 const { checkCompliance } = require("../services/complianceChecker");
+const { PUBLIC_USER_SELECT, MIN_PASSWORD_LENGTH, hashPassword, publicUser } = require("../services/auth");
+const {
+  isSupportedImage,
+  saveRendition,
+  deleteRenditionFiles,
+} = require("../services/renditions");
+const {
+  recordVersion,
+  archiveWorkflow,
+  diffContentVersions,
+} = require("../services/contentVersions");
+const { logContentEvent } = require("../services/designSync");
+const { resolveDelegate, delegatorIds } = require("../services/assignment");
+const eventBus = require("../services/eventBus");
+const { requireRole } = require("../middleware/auth");
+const {
+  ROLES,
+  parseComplianceResult,
+  selectTemplate,
+  buildSteps,
+  advanceWorkflow,
+  assignOpenSteps,
+} = require("../services/workflowEngine");
+
+// Renditions are processed in memory (thumbnail) before being written to disk
+const renditionUpload = multer({
+  storage: multer.memoryStorage(),
+  fileFilter: (req, file, cb) => {
+    if (isSupportedImage(file.mimetype)) {
+      cb(null, true);
+    } else {
+      cb(new Error("Renditions must be PNG, JPEG, or WebP images"), false);
+    }
+  },
+  limits: {
+    fileSize: 20 * 1024 * 1024, // 20MB max
+  },
+});
+
+// Latest version's rendition, for list and detail views
+const LATEST_RENDITION_INCLUDE = {
+  orderBy: { version: "desc" },
+  take: 1,
+  select: { version: true, rendition: true, renditionThumbnail: true },
+};
+
+// Steps with their reviewers, feedback and comment thread
+const STEP_HISTORY_INCLUDE = {
+  orderBy: { stepNumber: "asc" },
+  include: {
+    assignee: { select: PUBLIC_USER_SELECT },
+    comments: {
+      include: { author: { select: PUBLIC_USER_SELECT } },
+      orderBy: { createdAt: "asc" },
+    },
+  },
+};
+
+/**
+ * ADMIN can act on any step, everyone else only on steps for their role
+ */
+function canActOnStep(user, step) {
+  return user && (user.role === step.requiredRole || user.role === "ADMIN");
+}
 
-// Default workflow steps configuration
-const DEFAULT_WORKFLOW_STEPS = [
-  { stepNumber: 1, stepName: "Manager Review", requiredRole: "MANAGER" },
-  { stepNumber: 2, stepName: "Legal Review", requiredRole: "LEGAL" },
-  { stepNumber: 3, stepName: "Executive Approval", requiredRole: "EXECUTIVE" },
-];
+/**
+ * Shared checks before a reviewer decides on a step
+ *
+ * @returns {Promise<{status: number, body: object}|null>} Error response, or null if allowed
+ */
+async function checkStepDecision(user, step) {
+  if (step.status !== "IN_PROGRESS") {
+    return { status: 400, body: { error: "Step is not in progress" } };
+  }
+
+  // An assigned step is for its assignee, or whoever they delegated to while away
+  if (step.assigneeId && step.assigneeId !== user.id && user.role !== "ADMIN") {
+    if (!(await delegatorIds(user.id)).includes(step.assigneeId)) {
+      return { status: 403, body: { error: "Step is assigned to another reviewer" } };
+    }
+  }
+
+  // Assignees and delegates still need the step's role
+  if (!canActOnStep(user, step)) {
+    return {
+      status: 403,
+      body: {
+        error: "User does not have required role",
+        required: step.requiredRole,
+        userRole: user.role,
+      },
+    };
+  }
+
+  if (step.workflow.content.creatorId === user.id) {
+    return { status: 403, body: { error: "You cannot review your own content" } };
+  }
+
+  // One decision per reviewer per stage (N-of-M needs N different people)
+  const earlier = await prisma.approvalStep.findFirst({
+    where: {
+      workflowId: step.workflowId,
+      stepNumber: step.stepNumber,
+      assigneeId: user.id,
+      status: { in: ["APPROVED", "REJECTED"] },
+    },
+  });
+  if (earlier) {
+    return { status: 403, body: { error: "You already reviewed this stage" } };
+  }
+
+  return null;
+}
+
+/**
+ * Only the creator (or an ADMIN) may edit or submit content
+ */
+function canEditContent(user, content) {
+  return content.creatorId === user.id || user.role === "ADMIN";
+}
 
 // ============================================
 // USER ROUTES
 // ============================================
 
 /**
- * POST /api/workflow/users - Create a new user
+ * POST /api/workflow/users - Create a new user (ADMIN only)
  */
-router.post("/users", async (req, res) => {
+router.post("/users", requireRole("ADMIN"), async (req, res) => {
   try {
-    const { name, email, role } = req.body;
+    const { name, email, role, password, team } = req.body;
 
     if (!name || !email) {
       return res.status(400).json({ error: "Name and email are required" });
@@ -34,13 +148,15 @@ router.post("/users", async (req, res) => {
     const user = await prisma.user.create({
       data: {
         name,
-        email,
+        email: email.toLowerCase(),
         role: role || "DESIGNER",
+        team: team || null,
+        passwordHash: password ? await hashPassword(password) : null,
         avatar: name.split(" ").map(n => n[0]).join("").toUpperCase().slice(0, 2),
       },
     });
 
-    res.status(201).json({ user });
+    res.status(201).json({ user: publicUser(user) });
   } catch (error) {
     if (error.code === "P2002") {
       return res.status(400).json({ error: "Email already exists" });
@@ -50,12 +166,49 @@ router.post("/users", async (req, res) => {
   }
 });
 
+/**
+ * PATCH /api/workflow/users/:id - Move a user to another team or set their password (ADMIN only)
+ *
+ * Request body: { team?: string | null, password?: string }
+ */
+router.patch("/users/:id", requireRole("ADMIN"), async (req, res) => {
+  try {
+    const { team, password } = req.body;
+    if (team !== undefined && team !== null && typeof team !== "string") {
+      return res.status(400).json({ error: "team must be a string or null" });
+    }
+    if (password !== undefined && (typeof password !== "string" || password.length < MIN_PASSWORD_LENGTH)) {
+      return res.status(400).json({ error: `Password must be at least ${MIN_PASSWORD_LENGTH} characters` });
+    }
+    if (team === undefined && password === undefined) {
+      return res.status(400).json({ error: "Nothing to update: send team and/or password" });
+    }
+
+    const user = await prisma.user.update({
+      where: { id: req.params.id },
+      data: {
+        ...(team !== undefined && { team: team?.trim() || null }),
+        ...(password !== undefined && { passwordHash: await hashPassword(password) }),
+      },
+      select: PUBLIC_USER_SELECT,
+    });
+    res.json({ user });
+  } catch (error) {
+    if (error.code === "P2025") {
+      return res.status(404).json({ error: "User not found" });
+    }
+    console.error("❌ [workflow/users/:id] Error:", error);
+    res.status(500).json({ error: "Failed to update user" });
+  }
+});
+
 /**
  * GET /api/workflow/users - List all users
  */
 router.get("/users", async (req, res) => {
   try {
     const users = await prisma.user.findMany({
+      select: PUBLIC_USER_SELECT,
       orderBy: { name: "asc" },
     });
     res.json({ users });
@@ -82,13 +235,137 @@ router.get("/users/:id", async (req, res) => {
       return res.status(404).json({ error: "User not found" });
     }
 
-    res.json({ user });
+    res.json({ user: publicUser(user) });
   } catch (error) {
     console.error("❌ [workflow/users] Error:", error);
     res.status(500).json({ error: "Failed to get user" });
   }
 });
 
+// ============================================
+// DELEGATION (OUT OF OFFICE)
+// ============================================
+
+/**
+ * GET /api/workflow/delegations - The signed-in user's delegations, and those to them
+ * ADMIN may pass ?userId= to see another user's
+ */
+router.get("/delegations", async (req, res) => {
+  try {
+    const userId = req.user.role === "ADMIN" && req.query.userId ? req.query.userId : req.user.id;
+    const current = { OR: [{ endsAt: null }, { endsAt: { gt: new Date() } }] };
+    const include = {
+      user: { select: PUBLIC_USER_SELECT },
+      delegate: { select: PUBLIC_USER_SELECT },
+    };
+
+    const [delegations, delegatedToMe] = await Promise.all([
+      prisma.delegation.findMany({ where: { userId, ...current }, include, orderBy: { startsAt: "asc" } }),
+      prisma.delegation.findMany({ where: { delegateId: userId, ...current }, include, orderBy: { startsAt: "asc" } }),
+    ]);
+
+    res.json({ delegations, delegatedToMe });
+  } catch (error) {
+    console.error("❌ [workflow/delegations] Error:", error);
+    res.status(500).json({ error: "Failed to list delegations" });
+  }
+});
+
+/**
+ * POST /api/workflow/delegations - Hand your review work to a colleague while away
+ * Request body: { delegateId, startsAt?, endsAt?, note?, userId? (ADMIN only) }
+ * The delegate needs the delegator's role (or ADMIN) to decide the steps routed to them.
+ */
+router.post("/delegations", async (req, res) => {
+  try {
+    const { delegateId, note } = req.body;
+    const userId = req.user.role === "ADMIN" && req.body.userId ? req.body.userId : req.user.id;
+    const startsAt = req.body.startsAt ? new Date(req.body.startsAt) : new Date();
+    const endsAt = req.body.endsAt ? new Date(req.body.endsAt) : null;
+
+    if (!delegateId || delegateId === userId) {
+      return res.status(400).json({ error: "delegateId must be another user" });
+    }
+    if (isNaN(startsAt.getTime()) || (endsAt && isNaN(endsAt.getTime()))) {
+      return res.status(400).json({ error: "startsAt and endsAt must be dates" });
+    }
+    if (endsAt && endsAt <= startsAt) {
+      return res.status(400).json({ error: "endsAt must be after startsAt" });
+    }
+
+    const delegator =
+      userId === req.user.id ? req.user : await prisma.user.findUnique({ where: { id: userId } });
+    if (!delegator) {
+      return res.status(404).json({ error: "User not found" });
+    }
+    const delegate = await prisma.user.findUnique({ where: { id: delegateId } });
+    if (!delegate || !delegate.isActive) {
+      return res.status(404).json({ error: "Delegate not found" });
+    }
+    // The delegate has to be able to decide the steps that will be routed to them
+    if (delegate.role !== delegator.role && delegate.role !== "ADMIN") {
+      return res.status(400).json({
+        error: "Delegate does not have the required role",
+        message: `${delegate.name} cannot review ${delegator.role} steps`,
+        required: delegator.role,
+      });
+    }
+
+    // One delegate at a time
+    const overlapping = await prisma.delegation.findFirst({
+      where: {
+        userId,
+        OR: [{ endsAt: null }, { endsAt: { gt: startsAt } }],
+        ...(endsAt && { startsAt: { lt: endsAt } }),
+      },
+    });
+    if (overlapping) {
+      return res.status(409).json({
+        error: "Overlaps an existing delegation",
+        delegation: overlapping,
+      });
+    }
+
+    const delegation = await prisma.delegation.create({
+      data: { userId, delegateId, startsAt, endsAt, note: note || null },
+      include: {
+        user: { select: PUBLIC_USER_SELECT },
+        delegate: { select: PUBLIC_USER_SELECT },
+      },
+    });
+
+    console.log(`🏖️ [workflow/delegations] ${delegation.user.name} → ${delegate.name}`);
+    res.status(201).json({ delegation });
+  } catch (error) {
+    console.error("❌ [workflow/delegations] Error:", error);
+    res.status(500).json({ error: "Failed to create delegation" });
+  }
+});
+
+/**
+ * DELETE /api/workflow/delegations/:id - End a delegation (its owner or ADMIN)
+ */
+router.delete("/delegations/:id", async (req, res) => {
+  try {
+    const delegation = await prisma.delegation.findUnique({ where: { id: req.params.id } });
+    if (!delegation) {
+      return res.status(404).json({ error: "Delegation not found" });
+    }
+    if (delegation.userId !== req.user.id && req.user.role !== "ADMIN") {
+      return res.status(403).json({ error: "Only the delegating user can remove this delegation" });
+    }
+
+    await prisma.delegation.delete({ where: { id: delegation.id } });
+    res.json({ message: "Delegation removed" });
+  } catch (error) {
+    if (error.code === "P2025") {
+      return res.status(404).json({ error: "Delegation not found" });
+    }
+    console.error("❌ [workflow/delegations] Error:", error);
+    res.status(500).json({ error: "Failed to remove delegation" });
+  }
+});
+
 // ============================================
 // CONTENT ROUTES (WITH COMPLIANCE)
 // ============================================
@@ -98,16 +375,17 @@ router.get("/users/:id", async (req, res) => {
  */
 router.post("/content", async (req, res) => {
   try {
-    const { title, text, description, creatorId } = req.body;
+    const { title, text, description, category } = req.body;
+    const creatorId = req.user.id;
 
-    if (!title || !text || !creatorId) {
-      return res.status(400).json({ error: "Title, text, and creatorId are required" });
+    if (!title || !text) {
+      return res.status(400).json({ error: "Title and text are required" });
     }
 
     // Run compliance check
     let complianceResult = null;
     try {
-      complianceResult = await checkCompliance(text);
+      complianceResult = await checkCompliance(text, { user: req.user, source: "workflow" });
     } catch (err) {
       console.warn("⚠️ Compliance check failed:", err.message);
     }
@@ -117,15 +395,19 @@ router.post("/content", async (req, res) => {
         title,
         text,
         description,
+        category: category || null,
         creatorId,
         status: "DRAFT",
         complianceResult: complianceResult || null,
       },
       include: {
-        creator: true,
+        creator: { select: PUBLIC_USER_SELECT },
+        versions: LATEST_RENDITION_INCLUDE,
       },
     });
 
+    await recordVersion(content, { userId: creatorId });
+
     res.status(201).json({ 
       content,
       complianceResult,
@@ -138,24 +420,32 @@ router.post("/content", async (req, res) => {
 
 /**
  * GET /api/workflow/content - List all content
+ * Filters: ?status=, ?creatorId=, ?overdue=true (an open step is past its SLA due date)
  */
 router.get("/content", async (req, res) => {
   try {
-    const { status, creatorId } = req.query;
+    const { status, creatorId, overdue } = req.query;
     
     const where = {};
     if (status) where.status = status;
     if (creatorId) where.creatorId = creatorId;
+    if (overdue === "true") {
+      where.workflow = {
+        status: "ACTIVE",
+        steps: { some: { status: "IN_PROGRESS", dueAt: { lte: new Date() } } },
+      };
+    }
 
     const content = await prisma.content.findMany({
       where,
       include: {
-        creator: true,
+        creator: { select: PUBLIC_USER_SELECT },
+        versions: LATEST_RENDITION_INCLUDE,
         workflow: {
           include: {
             steps: {
               orderBy: { stepNumber: "asc" },
-              include: { assignee: true },
+              include: { assignee: { select: PUBLIC_USER_SELECT } },
             },
           },
         },
@@ -166,7 +456,7 @@ router.get("/content", async (req, res) => {
     // Parse compliance results
     const contentWithParsedCompliance = content.map(item => ({
       ...item,
-      complianceResult: item.complianceResult ? JSON.parse(item.complianceResult) : null,
+      complianceResult: parseComplianceResult(item.complianceResult),
     }));
 
     res.json({ content: contentWithParsedCompliance });
@@ -176,6 +466,113 @@ router.get("/content", async (req, res) => {
   }
 });
 
+/**
+ * GET /api/workflow/inbox - Reviewer inbox
+ * Content whose active workflow has an IN_PROGRESS step for the signed-in user's role or assigned
+ * to them (ADMIN sees every open step, or one role's with ?role=LEGAL), oldest first, with the
+ * full step history and comments
+ */
+router.get("/inbox", async (req, res) => {
+  try {
+    // Only admins may look at another role's inbox
+    const role = req.user.role === "ADMIN" && req.query.role ? req.query.role : req.user.role;
+
+    if (!ROLES.includes(role)) {
+      return res.status(400).json({ error: `role must be one of: ${ROLES.join(", ")}` });
+    }
+
+    const openStep = {
+      status: "IN_PROGRESS",
+      ...(role !== "ADMIN" && { OR: [{ requiredRole: role }, { assigneeId: req.user.id }] }),
+    };
+
+    const content = await prisma.content.findMany({
+      where: {
+        workflow: { status: "ACTIVE", steps: { some: openStep } },
+      },
+      include: {
+        creator: { select: PUBLIC_USER_SELECT },
+        versions: LATEST_RENDITION_INCLUDE,
+        workflow: {
+          include: { steps: STEP_HISTORY_INCLUDE },
+        },
+      },
+      orderBy: { updatedAt: "asc" },
+    });
+
+    res.json({
+      count: content.length,
+      content: content.map(item => ({
+        ...item,
+        complianceResult: parseComplianceResult(item.complianceResult),
+      })),
+    });
+  } catch (error) {
+    console.error("❌ [workflow/inbox] Error:", error);
+    res.status(500).json({ error: "Failed to load inbox" });
+  }
+});
+
+/**
+ * GET /api/workflow/queue - The signed-in reviewer's queue
+ * Open steps assigned to them or to users delegating to them (?pool=true adds unassigned
+ * steps for their role), soonest due first
+ */
+router.get("/queue", async (req, res) => {
+  try {
+    const delegators = await delegatorIds(req.user.id);
+    const ownerIds = [req.user.id, ...delegators];
+    const mine = [{ assigneeId: { in: ownerIds } }];
+    if (req.query.pool === "true") {
+      mine.push({
+        assigneeId: null,
+        ...(req.user.role !== "ADMIN" && { requiredRole: req.user.role }),
+      });
+    }
+
+    const content = await prisma.content.findMany({
+      where: {
+        creatorId: { not: req.user.id },
+        workflow: { status: "ACTIVE", steps: { some: { status: "IN_PROGRESS", OR: mine } } },
+      },
+      include: {
+        creator: { select: PUBLIC_USER_SELECT },
+        versions: LATEST_RENDITION_INCLUDE,
+        workflow: {
+          include: { steps: STEP_HISTORY_INCLUDE },
+        },
+      },
+      orderBy: { updatedAt: "asc" },
+    });
+
+    // The step waiting on this reviewer, and when it is due
+    const open = (s) => s.status === "IN_PROGRESS";
+    const inPool = (s) => !s.assigneeId && (req.user.role === "ADMIN" || s.requiredRole === req.user.role);
+    const items = content.map((item) => {
+      const step =
+        item.workflow.steps.find((s) => open(s) && ownerIds.includes(s.assigneeId)) ||
+        item.workflow.steps.find((s) => open(s) && inPool(s));
+      return {
+        ...item,
+        complianceResult: parseComplianceResult(item.complianceResult),
+        queueStep: {
+          id: step.id,
+          stepName: step.stepName,
+          dueAt: step.dueAt,
+          delegatedFrom: delegators.includes(step.assigneeId) ? step.assignee : null,
+        },
+      };
+    });
+    const dueTime = (item) => (item.queueStep.dueAt ? item.queueStep.dueAt.getTime() : Infinity);
+    items.sort((a, b) => dueTime(a) - dueTime(b));
+
+    res.json({ count: items.length, content: items });
+  } catch (error) {
+    console.error("❌ [workflow/queue] Error:", error);
+    res.status(500).json({ error: "Failed to load queue" });
+  }
+});
+
 /**
  * GET /api/workflow/content/:id - Get content with full workflow details
  */
@@ -184,20 +581,9 @@ router.get("/content/:id", async (req, res) => {
     const content = await prisma.content.findUnique({
       where: { id: req.params.id },
       include: {
-        creator: true,
+        creator: { select: PUBLIC_USER_SELECT },
         workflow: {
-          include: {
-            steps: {
-              orderBy: { stepNumber: "asc" },
-              include: {
-                assignee: true,
-                comments: {
-                  include: { author: true },
-                  orderBy: { createdAt: "asc" },
-                },
-              },
-            },
-          },
+          include: { steps: STEP_HISTORY_INCLUDE },
         },
       },
     });
@@ -209,7 +595,7 @@ router.get("/content/:id", async (req, res) => {
     // Parse compliance result
     const parsedContent = {
       ...content,
-      complianceResult: content.complianceResult ? JSON.parse(content.complianceResult) : null,
+      complianceResult: parseComplianceResult(content.complianceResult),
     };
 
     res.json({ content: parsedContent });
@@ -224,7 +610,7 @@ router.get("/content/:id", async (req, res) => {
  */
 router.put("/content/:id", async (req, res) => {
   try {
-    const { text, title, description } = req.body;
+    const { text, title, description, category } = req.body;
 
     const content = await prisma.content.findUnique({
       where: { id: req.params.id },
@@ -234,6 +620,10 @@ router.put("/content/:id", async (req, res) => {
       return res.status(404).json({ error: "Content not found" });
     }
 
+    if (!canEditContent(req.user, content)) {
+      return res.status(403).json({ error: "Only the creator can edit this content" });
+    }
+
     // Only allow edits on DRAFT or CHANGES_REQUESTED status
     if (!["DRAFT", "CHANGES_REQUESTED"].includes(content.status)) {
       return res.status(400).json({ 
@@ -247,12 +637,16 @@ router.put("/content/:id", async (req, res) => {
     const newText = text || content.text;
     if (text && text !== content.text) {
       try {
-        complianceResult = await checkCompliance(newText);
+        complianceResult = await checkCompliance(newText, {
+          user: req.user,
+          contentId: content.id,
+          source: "workflow",
+        });
       } catch (err) {
         console.warn("⚠️ Compliance check failed:", err.message);
       }
-    } else if (content.complianceResult) {
-      complianceResult = JSON.parse(content.complianceResult);
+    } else {
+      complianceResult = parseComplianceResult(content.complianceResult);
     }
 
     const updated = await prisma.content.update({
@@ -261,12 +655,16 @@ router.put("/content/:id", async (req, res) => {
         text: newText,
         title: title || content.title,
         description: description !== undefined ? description : content.description,
+        category: category !== undefined ? category || null : content.category,
         version: content.version + 1,
-        complianceResult: complianceResult ? JSON.stringify(complianceResult) : content.complianceResult,
+        complianceResult: complianceResult || content.complianceResult,
       },
-      include: { creator: true },
+      include: { creator: { select: PUBLIC_USER_SELECT } },
     });
 
+    await recordVersion(updated, { userId: req.user.id });
+    await logContentEvent(updated.id, "UPDATED", { actorId: req.user.id });
+
     res.json({ 
       content: updated,
       complianceResult,
@@ -277,9 +675,190 @@ router.put("/content/:id", async (req, res) => {
   }
 });
 
+/**
+ * POST /api/workflow/content/:id/rendition - Attach a design rendition to the current version
+ * multipart/form-data with a `file` field (PNG, JPEG, or WebP)
+ *
+ * A version that was already reviewed keeps its rendition; the upload starts a new version.
+ */
+router.post("/content/:id/rendition", (req, res, next) => {
+  renditionUpload.single("file")(req, res, (err) => {
+    if (err) {
+      return res.status(400).json({ error: "Invalid rendition", message: err.message });
+    }
+    next();
+  });
+}, async (req, res) => {
+  try {
+    if (!req.file) {
+      return res.status(400).json({ error: "No file uploaded" });
+    }
+
+    const content = await prisma.content.findUnique({
+      where: { id: req.params.id },
+    });
+
+    if (!content) {
+      return res.status(404).json({ error: "Content not found" });
+    }
+
+    if (!canEditContent(req.user, content)) {
+      return res.status(403).json({ error: "Only the creator can attach renditions" });
+    }
+
+    // The version under review is frozen
+    if (!["DRAFT", "CHANGES_REQUESTED"].includes(content.status)) {
+      return res.status(400).json({
+        error: "Cannot change the rendition in current status",
+        status: content.status,
+      });
+    }
+
+    let current = await prisma.contentVersion.findUnique({
+      where: { contentId_version: { contentId: content.id, version: content.version } },
+    });
+
+    if (!current) {
+      return res.status(404).json({ error: "Version not found" });
+    }
+
+    // A reviewed version keeps the rendition it was reviewed with
+    const targetVersion = current.workflowOutcome ? content.version + 1 : content.version;
+
+    let saved;
+    try {
+      saved = await saveRendition(content.id, targetVersion, req.file.buffer, req.file.mimetype);
+    } catch (err) {
+      return res.status(400).json({ error: "Invalid rendition", message: err.message });
+    }
+
+    if (targetVersion !== content.version) {
+      const bumped = await prisma.content.update({
+        where: { id: content.id },
+        data: { version: targetVersion },
+      });
+      current = await recordVersion(bumped, { userId: req.user.id });
+      await logContentEvent(bumped.id, "UPDATED", { actorId: req.user.id });
+    }
+
+    const version = await prisma.contentVersion.update({
+      where: { id: current.id },
+      data: { rendition: saved.url, renditionThumbnail: saved.thumbnailUrl },
+    });
+
+    // Replaced files may still be referenced by earlier versions (carried forward)
+    if (current.rendition) {
+      const stillUsed = await prisma.contentVersion.count({
+        where: { rendition: current.rendition },
+      });
+      if (stillUsed === 0) {
+        await deleteRenditionFiles(current.rendition, current.renditionThumbnail);
+      }
+    }
+
+    console.log(`🖼️ [workflow/rendition] Stored ${saved.width}x${saved.height} rendition for ${content.id} v${version.version}`);
+
+    res.status(201).json({
+      message: "Rendition uploaded",
+      version: version.version,
+      rendition: version.rendition,
+      renditionThumbnail: version.renditionThumbnail,
+    });
+  } catch (error) {
+    console.error("❌ [workflow/content/rendition] Error:", error);
+    res.status(500).json({ error: "Failed to upload rendition" });
+  }
+});
+
+/**
+ * GET /api/workflow/content/:id/versions - Version history (newest first)
+ */
+router.get("/content/:id/versions", async (req, res) => {
+  try {
+    const versions = await prisma.contentVersion.findMany({
+      where: { contentId: req.params.id },
+      orderBy: { version: "desc" },
+    });
+
+    if (versions.length === 0) {
+      return res.status(404).json({ error: "Content not found" });
+    }
+
+    res.json({
+      count: versions.length,
+      versions: versions.map(({ text, workflowSnapshot, complianceResult, ...version }) => {
+        const compliance = parseComplianceResult(complianceResult);
+        return {
+          ...version,
+          issueCount: compliance?.issues?.length ?? null,
+        };
+      }),
+    });
+  } catch (error) {
+    console.error("❌ [workflow/content/versions] Error:", error);
+    res.status(500).json({ error: "Failed to list versions" });
+  }
+});
+
+/**
+ * GET /api/workflow/content/:id/versions/:version - Full snapshot of one version
+ */
+router.get("/content/:id/versions/:version", async (req, res) => {
+  try {
+    const version = await prisma.contentVersion.findUnique({
+      where: {
+        contentId_version: {
+          contentId: req.params.id,
+          version: parseInt(req.params.version, 10) || 0,
+        },
+      },
+    });
+
+    if (!version) {
+      return res.status(404).json({ error: "Version not found" });
+    }
+
+    res.json({
+      version: {
+        ...version,
+        complianceResult: parseComplianceResult(version.complianceResult),
+      },
+    });
+  } catch (error) {
+    console.error("❌ [workflow/content/versions] Error:", error);
+    res.status(500).json({ error: "Failed to get version" });
+  }
+});
+
+/**
+ * GET /api/workflow/content/:id/diff?from=1&to=3 - Word-level diff between two versions
+ * Without `from`, diffs against the last version that had changes requested
+ * ("what changed since you requested changes"); without `to`, uses the latest version.
+ */
+router.get("/content/:id/diff", async (req, res) => {
+  try {
+    const from = req.query.from ? parseInt(req.query.from, 10) : null;
+    const to = req.query.to ? parseInt(req.query.to, 10) : null;
+
+    const diff = await diffContentVersions(req.params.id, from, to);
+    if (!diff) {
+      return res.status(404).json({ error: "Versions not found" });
+    }
+
+    res.json(diff);
+  } catch (error) {
+    console.error("❌ [workflow/content/diff] Error:", error);
+    res.status(500).json({ error: "Failed to diff versions" });
+  }
+});
+
 /**
  * POST /api/workflow/content/:id/submit - Submit content for review
  * BLOCKS submission if HIGH severity compliance issues exist
+ *
+ * Steps come from the workflow template for the content's category
+ * (or body.templateId), falling back to the default template.
+ * Conditional stages are not skipped unless the compliance check was a full review.
  */
 router.post("/content/:id/submit", async (req, res) => {
   try {
@@ -292,57 +871,86 @@ router.post("/content/:id/submit", async (req, res) => {
       return res.status(404).json({ error: "Content not found" });
     }
 
+    if (!canEditContent(req.user, content)) {
+      return res.status(403).json({ error: "Only the creator can submit this content" });
+    }
+
+    // Content under review or already approved has nothing to submit
+    if (!["DRAFT", "CHANGES_REQUESTED"].includes(content.status)) {
+      return res.status(400).json({
+        error: "Cannot submit content in current status",
+        status: content.status,
+      });
+    }
+
     // Check for HIGH severity compliance issues
-    if (content.complianceResult) {
-      try {
-        const compliance = JSON.parse(content.complianceResult);
-        const highIssues = compliance.issues?.filter(i => i.severity === "high") || [];
-        
-        if (highIssues.length > 0) {
-          return res.status(400).json({
-            error: "Cannot submit content with HIGH severity compliance issues",
-            complianceIssues: highIssues,
-            message: "Please fix all HIGH severity issues before submitting",
-          });
-        }
-      } catch (err) {
-        console.warn("⚠️ Could not parse compliance result:", err);
-      }
+    const compliance = parseComplianceResult(content.complianceResult);
+    const highIssues = compliance?.issues?.filter(i => i.severity === "high") || [];
+
+    if (highIssues.length > 0) {
+      return res.status(400).json({
+        error: "Cannot submit content with HIGH severity compliance issues",
+        complianceIssues: highIssues,
+        message: "Please fix all HIGH severity issues before submitting",
+      });
+    }
+
+    let template;
+    try {
+      template = await selectTemplate(content.category, req.body?.templateId);
+    } catch (err) {
+      return res.status(err.status || 500).json({ error: err.message });
     }
+    const { steps, currentStep } = buildSteps(template, compliance);
+    const allSkipped = currentStep === null;
 
-    // If workflow already exists, reset it
+    // If workflow already exists, archive its history onto the reviewed version and reset it
     if (content.workflow) {
+      await archiveWorkflow(content.workflow.id);
       await prisma.workflow.delete({ where: { id: content.workflow.id } });
     }
 
-    // Create workflow with steps
-    const workflow = await prisma.workflow.create({
+    // Create workflow with steps, then assign the open stage
+    const created = await prisma.workflow.create({
       data: {
         contentId: content.id,
-        currentStep: 1,
-        status: "ACTIVE",
-        steps: {
-          create: DEFAULT_WORKFLOW_STEPS.map(step => ({
-            stepNumber: step.stepNumber,
-            stepName: step.stepName,
-            requiredRole: step.requiredRole,
-            status: step.stepNumber === 1 ? "IN_PROGRESS" : "PENDING",
-          })),
-        },
+        contentVersion: content.version,
+        templateId: template.id,
+        currentStep: currentStep || 0,
+        status: allSkipped ? "COMPLETED" : "ACTIVE",
+        steps: { create: steps },
       },
+    });
+    if (!allSkipped) await assignOpenSteps(created.id);
+    const workflow = await prisma.workflow.findUnique({
+      where: { id: created.id },
       include: {
-        steps: { orderBy: { stepNumber: "asc" } },
+        steps: {
+          orderBy: { stepNumber: "asc" },
+          include: { assignee: { select: PUBLIC_USER_SELECT } },
+        },
       },
     });
 
-    // Update content status
+    // Update content status (no applicable steps means nothing to review)
     await prisma.content.update({
       where: { id: content.id },
-      data: { status: "PENDING_REVIEW" },
+      data: { status: allSkipped ? "APPROVED" : "PENDING_REVIEW" },
+    });
+    if (allSkipped) await archiveWorkflow(workflow.id);
+    await logContentEvent(content.id, "SUBMITTED", { actorId: req.user.id });
+    if (allSkipped) await logContentEvent(content.id, "APPROVED", { feedback: "No review steps apply" });
+    await eventBus.publish("content.submitted", {
+      contentId: content.id,
+      actor: req.user,
+      version: content.version,
     });
 
     res.json({ 
-      message: "Content submitted for review",
+      message: allSkipped
+        ? "No review steps apply - content approved"
+        : "Content submitted for review",
+      template: { id: template.id, name: template.name },
       workflow,
     });
   } catch (error) {
@@ -356,21 +964,14 @@ router.post("/content/:id/submit", async (req, res) => {
 // ============================================
 
 /**
- * POST /api/workflow/steps/:id/approve - Approve a step
+ * POST /api/workflow/steps/:id/approve - Approve a step as the signed-in user
  */
 router.post("/steps/:id/approve", async (req, res) => {
   try {
-    const { userId } = req.body;
-
     const step = await prisma.approvalStep.findUnique({
       where: { id: req.params.id },
       include: {
-        workflow: {
-          include: {
-            content: true,
-            steps: { orderBy: { stepNumber: "asc" } },
-          },
-        },
+        workflow: { include: { content: true } },
       },
     });
 
@@ -378,20 +979,10 @@ router.post("/steps/:id/approve", async (req, res) => {
       return res.status(404).json({ error: "Step not found" });
     }
 
-    if (step.status !== "IN_PROGRESS") {
-      return res.status(400).json({ error: "Step is not in progress" });
-    }
-
-    // Verify user has correct role
-    if (userId) {
-      const user = await prisma.user.findUnique({ where: { id: userId } });
-      if (!user || user.role !== step.requiredRole) {
-        return res.status(403).json({ 
-          error: "User does not have required role",
-          required: step.requiredRole,
-          userRole: user?.role,
-        });
-      }
+    // Verify role, no self-approval
+    const denied = await checkStepDecision(req.user, step);
+    if (denied) {
+      return res.status(denied.status).json(denied.body);
     }
 
     // Update step to approved
@@ -399,58 +990,49 @@ router.post("/steps/:id/approve", async (req, res) => {
       where: { id: step.id },
       data: {
         status: "APPROVED",
-        assigneeId: userId,
+        assigneeId: req.user.id,
         decidedAt: new Date(),
       },
     });
 
-    // Check if this was the last step
-    const nextStep = step.workflow.steps.find(s => s.stepNumber === step.stepNumber + 1);
-
-    if (nextStep) {
-      // Move to next step
-      await prisma.approvalStep.update({
-        where: { id: nextStep.id },
-        data: { status: "IN_PROGRESS" },
-      });
-      await prisma.workflow.update({
-        where: { id: step.workflowId },
-        data: { currentStep: nextStep.stepNumber },
-      });
-      await prisma.content.update({
-        where: { id: step.workflow.contentId },
-        data: { status: "IN_REVIEW" },
-      });
-    } else {
-      // All steps complete - mark as approved
-      await prisma.workflow.update({
-        where: { id: step.workflowId },
-        data: { status: "COMPLETED" },
-      });
-      await prisma.content.update({
-        where: { id: step.workflow.contentId },
-        data: { status: "APPROVED" },
-      });
-    }
+    // Move to the next stage once this one has enough approvals
+    const { outcome } = await advanceWorkflow(step.workflowId);
+    await logContentEvent(step.workflow.contentId, outcome === "COMPLETED" ? "APPROVED" : "STEP_APPROVED", {
+      actorId: req.user.id,
+      stepName: step.stepName,
+    });
+    await eventBus.publish("step.approved", {
+      contentId: step.workflow.contentId,
+      actor: req.user,
+      stepName: step.stepName,
+      outcome,
+    });
 
     // Fetch updated content
     const updatedContent = await prisma.content.findUnique({
       where: { id: step.workflow.contentId },
       include: {
-        creator: true,
+        creator: { select: PUBLIC_USER_SELECT },
         workflow: {
           include: {
             steps: {
               orderBy: { stepNumber: "asc" },
-              include: { assignee: true },
+              include: { assignee: { select: PUBLIC_USER_SELECT } },
             },
           },
         },
       },
     });
 
+    const messages = {
+      WAITING: "Step approved, waiting for other approvals",
+      ADVANCED: "Step approved, moved to next step",
+      COMPLETED: "All steps approved!",
+    };
+
     res.json({ 
-      message: nextStep ? "Step approved, moved to next step" : "All steps approved!",
+      message: messages[outcome],
+      outcome,
       content: updatedContent,
     });
   } catch (error) {
@@ -460,11 +1042,11 @@ router.post("/steps/:id/approve", async (req, res) => {
 });
 
 /**
- * POST /api/workflow/steps/:id/reject - Reject a step
+ * POST /api/workflow/steps/:id/reject - Reject a step as the signed-in user
  */
 router.post("/steps/:id/reject", async (req, res) => {
   try {
-    const { userId, feedback } = req.body;
+    const { feedback } = req.body;
 
     if (!feedback) {
       return res.status(400).json({ error: "Feedback is required when rejecting" });
@@ -481,8 +1063,10 @@ router.post("/steps/:id/reject", async (req, res) => {
       return res.status(404).json({ error: "Step not found" });
     }
 
-    if (step.status !== "IN_PROGRESS") {
-      return res.status(400).json({ error: "Step is not in progress" });
+    // Verify role, no self-review
+    const denied = await checkStepDecision(req.user, step);
+    if (denied) {
+      return res.status(denied.status).json(denied.body);
     }
 
     // Update step to rejected
@@ -490,28 +1074,37 @@ router.post("/steps/:id/reject", async (req, res) => {
       where: { id: step.id },
       data: {
         status: "REJECTED",
-        assigneeId: userId,
+        assigneeId: req.user.id,
         feedback,
         decidedAt: new Date(),
       },
     });
 
-    // Update content status to request changes
-    await prisma.content.update({
-      where: { id: step.workflow.contentId },
-      data: { status: "CHANGES_REQUESTED" },
+    // Request changes unless other parallel reviewers can still approve the stage
+    const { outcome } = await advanceWorkflow(step.workflowId);
+    await logContentEvent(
+      step.workflow.contentId,
+      outcome === "CHANGES_REQUESTED" ? "REJECTED" : "STEP_REJECTED",
+      { actorId: req.user.id, feedback, stepName: step.stepName }
+    );
+    await eventBus.publish("step.rejected", {
+      contentId: step.workflow.contentId,
+      actor: req.user,
+      stepName: step.stepName,
+      outcome,
+      feedback,
     });
 
     // Fetch updated content
     const updatedContent = await prisma.content.findUnique({
       where: { id: step.workflow.contentId },
       include: {
-        creator: true,
+        creator: { select: PUBLIC_USER_SELECT },
         workflow: {
           include: {
             steps: {
               orderBy: { stepNumber: "asc" },
-              include: { assignee: true },
+              include: { assignee: { select: PUBLIC_USER_SELECT } },
             },
           },
         },
@@ -519,7 +1112,10 @@ router.post("/steps/:id/reject", async (req, res) => {
     });
 
     res.json({ 
-      message: "Step rejected, changes requested",
+      message: outcome === "CHANGES_REQUESTED"
+        ? "Step rejected, changes requested"
+        : "Step rejected, waiting for other approvals",
+      outcome,
       content: updatedContent,
     });
   } catch (error) {
@@ -528,19 +1124,160 @@ router.post("/steps/:id/reject", async (req, res) => {
   }
 });
 
+/**
+ * POST /api/workflow/steps/:id/claim - Take an unassigned open step for yourself
+ */
+router.post("/steps/:id/claim", async (req, res) => {
+  try {
+    const step = await prisma.approvalStep.findUnique({
+      where: { id: req.params.id },
+      include: {
+        workflow: { include: { content: true } },
+      },
+    });
+
+    if (!step) {
+      return res.status(404).json({ error: "Step not found" });
+    }
+
+    const denied = await checkStepDecision(req.user, step);
+    if (denied) {
+      return res.status(denied.status).json(denied.body);
+    }
+    if (step.assigneeId && step.assigneeId !== req.user.id) {
+      return res.status(409).json({ error: "Step is assigned to another reviewer, reassign it instead" });
+    }
+
+    // Only an unassigned step can be claimed, so two reviewers can't both take it
+    const { count } = await prisma.approvalStep.updateMany({
+      where: { id: step.id, status: "IN_PROGRESS", assigneeId: null },
+      data: { assigneeId: req.user.id, assignedAt: new Date() },
+    });
+    if (count === 0 && step.assigneeId !== req.user.id) {
+      return res.status(409).json({ error: "Step was just claimed by someone else" });
+    }
+    if (count > 0) {
+      await logContentEvent(step.workflow.contentId, "CLAIMED", {
+        actorId: req.user.id,
+        stepName: step.stepName,
+      });
+    }
+
+    const updated = await prisma.approvalStep.findUnique({
+      where: { id: step.id },
+      include: { assignee: { select: PUBLIC_USER_SELECT } },
+    });
+    res.json({ message: "Step claimed", step: updated });
+  } catch (error) {
+    console.error("❌ [workflow/steps/claim] Error:", error);
+    res.status(500).json({ error: "Failed to claim step" });
+  }
+});
+
+/**
+ * POST /api/workflow/steps/:id/reassign - Hand an open step to a colleague, or back to the pool
+ * Request body: { assigneeId: string|null, note? }
+ * Allowed for the step's assignee (or their delegate), reviewers of an unassigned step, and ADMIN.
+ * A colleague who is away gets it through their delegation.
+ */
+router.post("/steps/:id/reassign", async (req, res) => {
+  try {
+    const { assigneeId = null, note } = req.body;
+
+    const step = await prisma.approvalStep.findUnique({
+      where: { id: req.params.id },
+      include: {
+        workflow: { include: { content: true } },
+      },
+    });
+
+    if (!step) {
+      return res.status(404).json({ error: "Step not found" });
+    }
+
+    const denied = await checkStepDecision(req.user, step);
+    if (denied) {
+      return res.status(denied.status).json(denied.body);
+    }
+
+    let assignee = null;
+    if (assigneeId) {
+      const requested = await prisma.user.findUnique({ where: { id: assigneeId } });
+      if (!requested || !requested.isActive) {
+        return res.status(404).json({ error: "Assignee not found" });
+      }
+      if (requested.role !== step.requiredRole && requested.role !== "ADMIN") {
+        return res.status(400).json({
+          error: "Assignee does not have the required role",
+          required: step.requiredRole,
+        });
+      }
+      assignee = await prisma.user.findUnique({
+        where: { id: await resolveDelegate(requested.id) },
+        select: PUBLIC_USER_SELECT,
+      });
+      // A delegation may hand the step to someone who cannot decide it
+      if (assignee.role !== step.requiredRole && assignee.role !== "ADMIN") {
+        return res.status(400).json({
+          error: "Assignee does not have the required role",
+          message: `${requested.name} is away and their delegate ${assignee.name} cannot review this step`,
+          required: step.requiredRole,
+        });
+      }
+      if (assignee.id === step.workflow.content.creatorId) {
+        return res.status(400).json({ error: "Content cannot be assigned to its creator" });
+      }
+    }
+
+    const updated = await prisma.approvalStep.update({
+      where: { id: step.id },
+      data: { assigneeId: assignee?.id ?? null, assignedAt: assignee ? new Date() : null },
+      include: { assignee: { select: PUBLIC_USER_SELECT } },
+    });
+
+    await logContentEvent(step.workflow.contentId, "REASSIGNED", {
+      actorId: req.user.id,
+      stepName: step.stepName,
+      feedback: (assignee ? `Assigned to ${assignee.name}` : "Returned to the review pool") + (note ? `: ${note}` : ""),
+    });
+    if (assignee && assignee.id !== req.user.id) {
+      await eventBus.publish("step.assigned", {
+        contentId: step.workflow.contentId,
+        actor: req.user,
+        recipientIds: [assignee.id],
+        stepName: step.stepName,
+        ...(note && { note }),
+      });
+    }
+
+    let message = "Step returned to the review pool";
+    if (assignee) {
+      message = assignee.id === assigneeId
+        ? `Step assigned to ${assignee.name}`
+        : `Step assigned to ${assignee.name} (delegate while the requested reviewer is away)`;
+    }
+    res.json({ message, step: updated });
+  } catch (error) {
+    console.error("❌ [workflow/steps/reassign] Error:", error);
+    res.status(500).json({ error: "Failed to reassign step" });
+  }
+});
+
 /**
  * POST /api/workflow/steps/:id/comment - Add comment to step
  */
 router.post("/steps/:id/comment", async (req, res) => {
   try {
-    const { authorId, text } = req.body;
+    const { text } = req.body;
+    const authorId = req.user.id;
 
-    if (!authorId || !text) {
-      return res.status(400).json({ error: "Author and text are required" });
+    if (!text) {
+      return res.status(400).json({ error: "Text is required" });
     }
 
     const step = await prisma.approvalStep.findUnique({
       where: { id: req.params.id },
+      include: { workflow: { select: { contentId: true } } },
     });
 
     if (!step) {
@@ -553,7 +1290,18 @@ router.post("/steps/:id/comment", async (req, res) => {
         authorId,
         text,
       },
-      include: { author: true },
+      include: { author: { select: PUBLIC_USER_SELECT } },
+    });
+    await logContentEvent(step.workflow.contentId, "COMMENTED", {
+      actorId: authorId,
+      feedback: text,
+      stepName: step.stepName,
+    });
+    await eventBus.publish("comment.added", {
+      contentId: step.workflow.contentId,
+      actor: req.user,
+      stepName: step.stepName,
+      text,
     });
 
     res.status(201).json({ comment });
@@ -565,6 +1313,7 @@ router.post("/steps/:id/comment", async (req, res) => {
 
 /**
  * POST /api/workflow/content/:id/publish - Publish approved content
+ * Allowed for the creator, MANAGER and ADMIN
  */
 router.post("/content/:id/publish", async (req, res) => {
   try {
@@ -576,6 +1325,10 @@ router.post("/content/:id/publish", async (req, res) => {
       return res.status(404).json({ error: "Content not found" });
     }
 
+    if (!canEditContent(req.user, content) && req.user.role !== "MANAGER") {
+      return res.status(403).json({ error: "Only the creator, a manager or an admin can publish" });
+    }
+
     if (content.status !== "APPROVED") {
       return res.status(400).json({ 
         error: "Only approved content can be published",
@@ -587,18 +1340,21 @@ router.post("/content/:id/publish", async (req, res) => {
       where: { id: req.params.id },
       data: { status: "PUBLISHED" },
       include: {
-        creator: true,
+        creator: { select: PUBLIC_USER_SELECT },
         workflow: {
           include: {
             steps: {
               orderBy: { stepNumber: "asc" },
-              include: { assignee: true },
+              include: { assignee: { select: PUBLIC_USER_SELECT } },
             },
           },
         },
       },
     });
 
+    await logContentEvent(updated.id, "PUBLISHED", { actorId: req.user.id });
+    await eventBus.publish("content.published", { contentId: updated.id, actor: req.user });
+
     res.json({ 
       message: "Content published successfully! 🚀",
       content: updated,
@@ -0,0 +1,163 @@
+/**
+ * Analysis Response Contract
+ *
+ * The JSON the model must return for a compliance analysis. The schema is sent
+ * to providers that support structured output (Gemini responseSchema, OpenAI
+ * response_format), and every response is validated here regardless, since
+ * not every self-hosted model honours it:
+ *
+ *   { isCompliant: boolean, issues: [{ text, severity, category, reason, suggestion, sources }] }
+ *
+ * validateAnalysis also checks that each issue's `text` really occurs in the
+ * checked copy, so invented quotes are caught before they reach a designer.
+ * A missing or unknown category is not an error; it is read as "general".
+ */
+
+const SEVERITIES = ["high", "medium", "low"];
+// Same vocabulary as PolicyRule.category, so rule hits and AI issues group together
+const ISSUE_CATEGORIES = ["legal", "brand", "safety", "privacy", "general"];
+
+const ANALYSIS_SCHEMA = {
+  type: "object",
+  properties: {
+    isCompliant: { type: "boolean" },
+    issues: {
+      type: "array",
+      items: {
+        type: "object",
+        properties: {
+          text: { type: "string", description: "Exact quote of the problematic text" },
+          severity: { type: "string", enum: SEVERITIES },
+          category: { type: "string", enum: ISSUE_CATEGORIES },
+          reason: { type: "string" },
+          suggestion: { type: "string" },
+          sources: {
+            type: "array",
+            items: {
+              type: "object",
+              properties: {
+                ref: { type: "integer" },
+                quote: { type: "string" },
+              },
+              required: ["ref"],
+            },
+          },
+        },
+        required: ["text", "severity", "category", "reason", "suggestion", "sources"],
+      },
+    },
+  },
+  required: ["isCompliant", "issues"],
+};
+
+/**
+ * Parse the model's response text as JSON
+ *
+ * Markdown fences are tolerated (some models add them even in JSON mode), but
+ * nothing else is guessed at: prose around the object is a validation error.
+ *
+ * @returns {{value: any, error: string|null}}
+ */
+function parseResponse(responseText) {
+  const jsonText = responseText
+    .trim()
+    .replace(/^```(?:json)?\s*/i, "")
+    .replace(/\s*```$/, "");
+
+  try {
+    return { value: JSON.parse(jsonText), error: null };
+  } catch (error) {
+    return { value: null, error: `Response is not valid JSON (${error.message})` };
+  }
+}
+
+function isObject(value) {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function collapse(value) {
+  return value.replace(/\s+/g, " ").trim().toLowerCase();
+}
+
+/**
+ * Structural errors for one issue (empty when it is well formed)
+ *
+ * @param {any} issue
+ * @param {string} path - e.g. "issues[2]", used in error messages
+ * @returns {string[]}
+ */
+function validateIssue(issue, path) {
+  if (!isObject(issue)) return [`${path} must be an object`];
+
+  const errors = [];
+  for (const field of ["text", "reason"]) {
+    if (typeof issue[field] !== "string" || !issue[field].trim()) {
+      errors.push(`${path}.${field} must be a non-empty string`);
+    }
+  }
+  if (typeof issue.suggestion !== "string") {
+    errors.push(`${path}.suggestion must be a string`);
+  }
+  if (!SEVERITIES.includes(issue.severity)) {
+    errors.push(`${path}.severity must be one of ${SEVERITIES.join(", ")}`);
+  }
+  if (!Array.isArray(issue.sources)) {
+    errors.push(`${path}.sources must be an array (empty when no source applies)`);
+  } else {
+    issue.sources.forEach((source, idx) => {
+      if (!isObject(source) || !Number.isInteger(source.ref)) {
+        errors.push(`${path}.sources[${idx}].ref must be an integer`);
+      }
+    });
+  }
+  return errors;
+}
+
+/**
+ * Does the quoted text occur in the input? (case and whitespace insensitive)
+ */
+function isGrounded(issue, text) {
+  return collapse(text).includes(collapse(issue.text));
+}
+
+/**
+ * Validate a parsed response against the contract and the checked text
+ *
+ * @param {any} value - Parsed response
+ * @param {string} text - The copy that was checked
+ * @returns {{errors: string[], ungrounded: number[]}} Structural errors, and the
+ *   indexes of well-formed issues whose text is not in the input
+ */
+function validateAnalysis(value, text) {
+  if (!isObject(value)) return { errors: ["Response must be a JSON object"], ungrounded: [] };
+
+  const errors = [];
+  const ungrounded = [];
+  if (typeof value.isCompliant !== "boolean") {
+    errors.push("isCompliant must be a boolean");
+  }
+  if (!Array.isArray(value.issues)) {
+    errors.push("issues must be an array");
+    return { errors, ungrounded };
+  }
+
+  value.issues.forEach((issue, idx) => {
+    const issueErrors = validateIssue(issue, `issues[${idx}]`);
+    if (issueErrors.length > 0) {
+      errors.push(...issueErrors);
+    } else if (!isGrounded(issue, text)) {
+      ungrounded.push(idx);
+    }
+  });
+
+  return { errors, ungrounded };
+}
+
+module.exports = {
+  ISSUE_CATEGORIES,
+  ANALYSIS_SCHEMA,
+  parseResponse,
+  validateIssue,
+  isGrounded,
+  validateAnalysis,
+};
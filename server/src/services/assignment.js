@@ -0,0 +1,170 @@
+/**
+ * Assignment Service
+ *
+ * Picks who an approval step is assigned to when it opens, following the
+ * template's `assignment` (see workflowEngine.js):
+ *
+ *   pool         - no assignee; anyone with the step's role can claim or decide it (default)
+ *   round_robin  - the reviewer with the role who was assigned a step least recently
+ *   explicit     - `userId`
+ *   team         - `teams[<creator's team>]`, else round-robin among the role's reviewers in
+ *                  the creator's team, else the pool
+ *
+ * Out-of-office delegations: round-robin skips users who are away, and work
+ * assigned to someone away goes to their delegate (following chains). While a
+ * delegation is active the delegate can also act on steps already assigned to
+ * the user, and sees them in their queue. Nobody is assigned their own content,
+ * and only users with the step's role (or ADMINs) are assigned it.
+ */
+
+const prisma = require("../lib/prisma");
+
+const MAX_DELEGATION_DEPTH = 5;
+
+/**
+ * Prisma filter for delegations in effect at `at`
+ */
+function activeAt(at) {
+  return { startsAt: { lte: at }, OR: [{ endsAt: null }, { endsAt: { gt: at } }] };
+}
+
+/**
+ * Who gets a user's work right now: the user, or the end of their delegation chain
+ */
+async function resolveDelegate(userId, at = new Date()) {
+  const seen = new Set([userId]);
+  let current = userId;
+
+  for (let depth = 0; depth < MAX_DELEGATION_DEPTH; depth++) {
+    const delegation = await prisma.delegation.findFirst({
+      where: { userId: current, ...activeAt(at), delegate: { isActive: true } },
+      orderBy: { startsAt: "desc" },
+    });
+    if (!delegation || seen.has(delegation.delegateId)) break;
+    current = delegation.delegateId;
+    seen.add(current);
+  }
+  return current;
+}
+
+/**
+ * Users whose work currently goes to `userId`, directly or through a chain
+ */
+async function delegatorIds(userId, at = new Date()) {
+  const found = new Set();
+  let frontier = [userId];
+
+  for (let depth = 0; depth < MAX_DELEGATION_DEPTH && frontier.length > 0; depth++) {
+    const rows = await prisma.delegation.findMany({
+      where: { delegateId: { in: frontier }, ...activeAt(at) },
+      select: { userId: true },
+    });
+    frontier = rows.map((row) => row.userId).filter((id) => id !== userId && !found.has(id));
+    frontier.forEach((id) => found.add(id));
+  }
+  return [...found];
+}
+
+/**
+ * Reviewer with the role whose last assignment is oldest (never assigned first)
+ */
+async function pickRoundRobin(role, { team, exclude, at }) {
+  const where = { role, isActive: true, id: { notIn: exclude }, ...(team && { team }) };
+  let candidates = await prisma.user.findMany({
+    where: { ...where, delegations: { none: activeAt(at) } },
+    select: { id: true },
+    orderBy: { createdAt: "asc" },
+  });
+  // Everyone is away: pick among them anyway, the delegation forwards the work
+  if (candidates.length === 0) {
+    candidates = await prisma.user.findMany({ where, select: { id: true }, orderBy: { createdAt: "asc" } });
+  }
+  if (candidates.length === 0) return null;
+
+  const latest = await prisma.approvalStep.groupBy({
+    by: ["assigneeId"],
+    where: { assigneeId: { in: candidates.map((user) => user.id) }, assignedAt: { not: null } },
+    _max: { assignedAt: true },
+  });
+  const lastAssigned = new Map(latest.map((row) => [row.assigneeId, row._max.assignedAt.getTime()]));
+
+  let best = candidates[0];
+  for (const candidate of candidates) {
+    if ((lastAssigned.get(candidate.id) ?? 0) < (lastAssigned.get(best.id) ?? 0)) best = candidate;
+  }
+  return best.id;
+}
+
+/**
+ * Assignee for an opening step, or null to leave it in the role pool
+ *
+ * @param {{requiredRole: string, assignment?: object|null}} step
+ * @param {{creatorId: string, creator?: {team?: string|null}}} content
+ * @param {string[]} [exclude] - Users already assigned in the same stage
+ */
+async function pickAssignee(step, content, exclude = []) {
+  const { strategy = "pool", userId, teams } = step.assignment || {};
+  const at = new Date();
+  const skip = [content.creatorId, ...exclude];
+  const team = content.creator?.team;
+
+  let picked = null;
+  if (strategy === "explicit") {
+    picked = userId;
+  } else if (strategy === "round_robin") {
+    picked = await pickRoundRobin(step.requiredRole, { exclude: skip, at });
+  } else if (strategy === "team" && team) {
+    picked = teams?.[team] || (await pickRoundRobin(step.requiredRole, { team, exclude: skip, at }));
+  }
+  if (!picked) return null;
+
+  const assigneeId = await resolveDelegate(picked, at);
+  if (skip.includes(assigneeId)) return null;
+  const assignee = await prisma.user.findFirst({
+    where: { id: assigneeId, isActive: true, role: { in: [step.requiredRole, "ADMIN"] } },
+    select: { id: true },
+  });
+  return assignee?.id || null;
+}
+
+/**
+ * Assign a workflow's open steps that have an assignment strategy and no assignee yet
+ *
+ * @returns {Promise<Array<{stepId: string, stepName: string, assigneeId: string}>>}
+ */
+async function assignOpenSteps(workflowId) {
+  const workflow = await prisma.workflow.findUnique({
+    where: { id: workflowId },
+    include: {
+      content: { select: { creatorId: true, creator: { select: { team: true } } } },
+      steps: { where: { status: "IN_PROGRESS" }, orderBy: { createdAt: "asc" } },
+    },
+  });
+  if (!workflow) return [];
+
+  // N-of-M stages need different people
+  const taken = workflow.steps.map((step) => step.assigneeId).filter(Boolean);
+  const assigned = [];
+
+  for (const step of workflow.steps) {
+    if (step.assigneeId || !step.assignment || step.assignment.strategy === "pool") continue;
+
+    const assigneeId = await pickAssignee(step, workflow.content, taken);
+    if (!assigneeId) continue;
+
+    await prisma.approvalStep.update({
+      where: { id: step.id },
+      data: { assigneeId, assignedAt: new Date() },
+    });
+    taken.push(assigneeId);
+    assigned.push({ stepId: step.id, stepName: step.stepName, assigneeId });
+  }
+  return assigned;
+}
+
+module.exports = {
+  resolveDelegate,
+  delegatorIds,
+  pickAssignee,
+  assignOpenSteps,
+};
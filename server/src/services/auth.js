@@ -0,0 +1,172 @@
+/**
+ * Auth Service
+ *
+ * - Passwords: scrypt with a per-user salt, stored as `scrypt$<salt>$<hash>`
+ * - Sessions: signed JWTs (JWT_SECRET, JWT_EXPIRES_IN)
+ * - API tokens: random `cb_...` strings for scripts/integrations; only a sha256 is stored
+ * - Upload URLs: `/uploads/...?expires=<unix s>&signature=<hmac>`, so <img>/<a> links work
+ *   without an Authorization header (UPLOAD_URL_TTL_SECONDS, default 1h)
+ */
+
+const crypto = require("crypto");
+const { promisify } = require("util");
+const jwt = require("jsonwebtoken");
+const prisma = require("../lib/prisma");
+
+const scrypt = promisify(crypto.scrypt);
+const KEY_LENGTH = 64;
+const API_TOKEN_PREFIX = "cb_";
+const MIN_PASSWORD_LENGTH = 8;
+
+let jwtSecret = process.env.JWT_SECRET;
+if (!jwtSecret) {
+  jwtSecret = crypto.randomBytes(32).toString("hex");
+  console.warn("⚠️ [Auth] JWT_SECRET not set - using a random secret, sessions end on restart");
+}
+const jwtExpiresIn = process.env.JWT_EXPIRES_IN || "12h";
+const uploadUrlTtl = Number(process.env.UPLOAD_URL_TTL_SECONDS || 3600);
+
+/**
+ * @param {string} password
+ * @returns {Promise<string>}
+ */
+async function hashPassword(password) {
+  const salt = crypto.randomBytes(16).toString("hex");
+  const hash = await scrypt(password, salt, KEY_LENGTH);
+  return `scrypt$${salt}$${hash.toString("hex")}`;
+}
+
+/**
+ * @param {string} password
+ * @param {string|null} stored
+ * @returns {Promise<boolean>}
+ */
+async function verifyPassword(password, stored) {
+  if (!stored) return false;
+  const [scheme, salt, hashHex] = stored.split("$");
+  if (scheme !== "scrypt" || !salt || !hashHex) return false;
+
+  const expected = Buffer.from(hashHex, "hex");
+  const actual = await scrypt(password, salt, expected.length);
+  return crypto.timingSafeEqual(expected, actual);
+}
+
+function signSession(user) {
+  return jwt.sign({ sub: user.id, role: user.role }, jwtSecret, { expiresIn: jwtExpiresIn });
+}
+
+function hashToken(token) {
+  return crypto.createHash("sha256").update(token).digest("hex");
+}
+
+/**
+ * Create an API token. The plain token is only returned here.
+ *
+ * @returns {Promise<{token: string, apiToken: object}>}
+ */
+async function createApiToken(userId, name, expiresAt = null) {
+  const token = `${API_TOKEN_PREFIX}${crypto.randomBytes(24).toString("base64url")}`;
+  const apiToken = await prisma.apiToken.create({
+    data: {
+      userId,
+      name,
+      prefix: token.slice(0, 10),
+      tokenHash: hashToken(token),
+      expiresAt,
+    },
+  });
+  return { token, apiToken };
+}
+
+/**
+ * Resolve a bearer token (JWT or API token) to an active user
+ *
+ * @param {string} token
+ * @returns {Promise<object|null>} User, or null if the token is invalid
+ */
+async function resolveToken(token) {
+  if (token.startsWith(API_TOKEN_PREFIX)) {
+    const apiToken = await prisma.apiToken.findUnique({
+      where: { tokenHash: hashToken(token) },
+      include: { user: true },
+    });
+    if (!apiToken || apiToken.revokedAt) return null;
+    if (apiToken.expiresAt && apiToken.expiresAt < new Date()) return null;
+
+    prisma.apiToken
+      .update({ where: { id: apiToken.id }, data: { lastUsedAt: new Date() } })
+      .catch(() => {});
+    return apiToken.user.isActive ? apiToken.user : null;
+  }
+
+  let payload;
+  try {
+    payload = jwt.verify(token, jwtSecret);
+  } catch {
+    return null;
+  }
+  const user = await prisma.user.findUnique({ where: { id: payload.sub } });
+  return user && user.isActive ? user : null;
+}
+
+function uploadSignature(pathname, expires) {
+  return crypto.createHmac("sha256", jwtSecret).update(`${pathname}:${expires}`).digest("base64url");
+}
+
+/**
+ * Add an expiring signature to an `/uploads/...` URL
+ *
+ * Expiry is rounded to the TTL window (valid for 1-2 TTLs), so the same file keeps the same
+ * URL between polls and browsers can cache it.
+ *
+ * @param {string} url - e.g. `/uploads/renditions/x.png` or `/uploads/policy.pdf#page=3`
+ */
+function signUploadUrl(url, now = Date.now()) {
+  const [pathname, fragment] = url.split("#");
+  const expires = (Math.floor(now / 1000 / uploadUrlTtl) + 2) * uploadUrlTtl;
+  const query = `expires=${expires}&signature=${uploadSignature(pathname, expires)}`;
+  return `${pathname}?${query}${fragment !== undefined ? `#${fragment}` : ""}`;
+}
+
+/**
+ * @returns {boolean} Whether a signed upload URL is genuine and not expired
+ */
+function verifyUploadUrl(pathname, expires, signature) {
+  if (!/^\d+$/.test(expires || "") || typeof signature !== "string") return false;
+  if (Number(expires) * 1000 < Date.now()) return false;
+  const expected = Buffer.from(uploadSignature(pathname, expires));
+  const given = Buffer.from(signature);
+  return given.length === expected.length && crypto.timingSafeEqual(given, expected);
+}
+
+// Use in Prisma includes so nested users never carry password hashes
+const PUBLIC_USER_SELECT = {
+  id: true,
+  name: true,
+  email: true,
+  role: true,
+  team: true,
+  avatar: true,
+};
+
+/**
+ * Strip secrets before returning a user from the API
+ */
+function publicUser(user) {
+  if (!user) return user;
+  const { passwordHash, ...rest } = user;
+  return rest;
+}
+
+module.exports = {
+  PUBLIC_USER_SELECT,
+  MIN_PASSWORD_LENGTH,
+  hashPassword,
+  verifyPassword,
+  signSession,
+  createApiToken,
+  resolveToken,
+  publicUser,
+  signUploadUrl,
+  verifyUploadUrl,
+};
@@ -0,0 +1,349 @@
+/**
+ * Batch Queue Service
+ *
+ * Campaign scans: POST /api/compliance/batch stores a ComplianceBatch with one
+ * item per asset, and a background worker in the server process checks them:
+ *
+ *   QUEUED → RUNNING → COMPLETED
+ *
+ * Items of a batch run BATCH_CONCURRENCY at a time, and no more than
+ * BATCH_RATE_PER_MINUTE checks are started per minute, so one large campaign
+ * cannot use up the LLM quota. Each item's result is saved as soon as it is
+ * ready, so GET /api/compliance/batch/:id returns partial results while running.
+ */
+
+const prisma = require("../lib/prisma");
+const { withRetry, sleep } = require("../lib/retry");
+const { checkCompliance } = require("./complianceChecker");
+
+const MAX_ITEMS = Number(process.env.BATCH_MAX_ITEMS || 500);
+const MAX_TEXT_LENGTH = 20000;
+const CONCURRENCY = Math.max(1, Number(process.env.BATCH_CONCURRENCY || 3));
+const RATE_PER_MINUTE = Number(process.env.BATCH_RATE_PER_MINUTE || 60);
+
+const SEVERITY_WEIGHT = { high: 3, medium: 2, low: 1 };
+const WORST_OFFENDERS = 5;
+
+/**
+ * Check a batch request's items
+ *
+ * @param {any} items - Request body `items`
+ * @returns {string|null} What is wrong, or null if the items can be queued
+ */
+function validateItems(items) {
+  if (!Array.isArray(items) || items.length === 0) {
+    return "'items' must be a non-empty array";
+  }
+  if (items.length > MAX_ITEMS) {
+    return `A batch can hold at most ${MAX_ITEMS} items`;
+  }
+
+  const ids = new Set();
+  for (const [index, item] of items.entries()) {
+    const label = `items[${index}]`;
+    if (typeof item !== "object" || item === null) return `${label} must be an object`;
+    if (typeof item.id !== "string" || !item.id.trim()) return `${label}.id must be a non-empty string`;
+    if (ids.has(item.id)) return `Duplicate item id "${item.id}"`;
+    ids.add(item.id);
+    if (typeof item.text !== "string" || !item.text.trim()) return `${label}.text must be a non-empty string`;
+    if (item.text.length > MAX_TEXT_LENGTH) return `${label}.text is longer than ${MAX_TEXT_LENGTH} characters`;
+    for (const field of ["title", "locale", "category"]) {
+      if (item[field] != null && typeof item[field] !== "string") return `${label}.${field} must be a string`;
+    }
+  }
+  return null;
+}
+
+/**
+ * Aggregate report over the items checked so far
+ *
+ * Issues without a category of their own count under their item's category.
+ *
+ * @param {Array} items - ComplianceBatchItem rows
+ * @returns {{itemsChecked, compliantItems, degradedItems, failedItems, totalIssues, bySeverity, byCategory, byLocale, worstOffenders}}
+ */
+function buildReport(items) {
+  const bySeverity = { high: 0, medium: 0, low: 0 };
+  const byCategory = {};
+  const byLocale = {};
+  const offenders = [];
+  let itemsChecked = 0;
+  let compliantItems = 0;
+  let degradedItems = 0;
+  let totalIssues = 0;
+
+  for (const item of items) {
+    if (item.status !== "DONE" || !item.result) continue;
+    const { issues = [], isCompliant, status } = item.result;
+    itemsChecked++;
+    if (isCompliant) compliantItems++;
+    if (status === "degraded") degradedItems++;
+
+    const counts = { high: 0, medium: 0, low: 0 };
+    let score = 0;
+    for (const issue of issues) {
+      const category = issue.category || item.category || "uncategorized";
+      counts[issue.severity] = (counts[issue.severity] || 0) + 1;
+      bySeverity[issue.severity] = (bySeverity[issue.severity] || 0) + 1;
+      byCategory[category] = (byCategory[category] || 0) + 1;
+      score += SEVERITY_WEIGHT[issue.severity] || 0;
+    }
+    totalIssues += issues.length;
+    if (item.locale) byLocale[item.locale] = (byLocale[item.locale] || 0) + issues.length;
+
+    if (issues.length > 0) {
+      offenders.push({
+        id: item.itemId,
+        title: item.title,
+        category: item.category,
+        locale: item.locale,
+        score,
+        issueCount: issues.length,
+        bySeverity: counts,
+      });
+    }
+  }
+
+  return {
+    itemsChecked,
+    compliantItems,
+    degradedItems,
+    failedItems: items.filter((item) => item.status === "FAILED").length,
+    totalIssues,
+    bySeverity,
+    byCategory,
+    byLocale,
+    worstOffenders: offenders
+      .sort((a, b) => b.score - a.score || b.issueCount - a.issueCount)
+      .slice(0, WORST_OFFENDERS),
+  };
+}
+
+class BatchQueue {
+  constructor() {
+    this.timer = null;
+    this.running = false;
+    this.pollIntervalMs = Number(process.env.BATCH_POLL_MS || 2000);
+    this.nextSlotAt = 0; // Earliest start time of the next check (rate limit)
+  }
+
+  /**
+   * @returns {string|null} Why the items cannot be queued, or null
+   */
+  validateItems(items) {
+    return validateItems(items);
+  }
+
+  /**
+   * Store a batch and its items for the worker
+   *
+   * @param {{name?: string, items: Array<{id, title?, text, locale?, category?}>, createdById?: string}} batch
+   */
+  async enqueue({ name, items, createdById }) {
+    const batch = await prisma.complianceBatch.create({
+      data: {
+        name: name || null,
+        totalItems: items.length,
+        createdById: createdById || null,
+        items: {
+          create: items.map((item, position) => ({
+            position,
+            itemId: item.id,
+            title: item.title || null,
+            text: item.text,
+            locale: item.locale || null,
+            category: item.category || null,
+          })),
+        },
+      },
+    });
+    console.log(`📬 [BatchQueue] Queued batch ${batch.id} (${items.length} item(s))`);
+    this.poke();
+    return batch;
+  }
+
+  /**
+   * Start the worker loop. Batches interrupted by a restart resume where they stopped.
+   */
+  async start() {
+    if (this.timer) return;
+
+    try {
+      await prisma.complianceBatchItem.updateMany({
+        where: { status: "RUNNING" },
+        data: { status: "PENDING" },
+      });
+      const { count } = await prisma.complianceBatch.updateMany({
+        where: { status: "RUNNING" },
+        data: { status: "QUEUED" },
+      });
+      if (count > 0) {
+        console.log(`♻️ [BatchQueue] Resuming ${count} interrupted batch(es)`);
+      }
+    } catch (error) {
+      console.warn("⚠️ [BatchQueue] Could not recover batches:", error.message);
+    }
+
+    this.schedule();
+    console.log("👷 [BatchQueue] Worker started");
+  }
+
+  stop() {
+    clearTimeout(this.timer);
+    this.timer = null;
+  }
+
+  schedule(delay = this.pollIntervalMs) {
+    clearTimeout(this.timer);
+    this.timer = setTimeout(() => this.tick(), delay);
+  }
+
+  /**
+   * Run the next tick right away (used after enqueue)
+   */
+  poke() {
+    if (this.timer && !this.running) this.schedule(0);
+  }
+
+  async tick() {
+    if (this.running) return;
+    this.running = true;
+    try {
+      while (await this.processNext()) {}
+    } catch (error) {
+      console.error("❌ [BatchQueue] Worker error:", error.message);
+    } finally {
+      this.running = false;
+      if (this.timer) this.schedule();
+    }
+  }
+
+  /**
+   * Claim and process the oldest queued batch
+   *
+   * @returns {Promise<boolean>} true if a batch was processed
+   */
+  async processNext() {
+    const next = await prisma.complianceBatch.findFirst({
+      where: { status: "QUEUED" },
+      orderBy: { createdAt: "asc" },
+      include: { createdBy: { select: { id: true, team: true } } },
+    });
+    if (!next) return false;
+
+    const { count } = await prisma.complianceBatch.updateMany({
+      where: { id: next.id, status: "QUEUED" },
+      data: { status: "RUNNING", startedAt: next.startedAt || new Date() },
+    });
+    if (count === 0) return true;
+
+    await this.processBatch(next.id, next.createdBy);
+    return true;
+  }
+
+  async processBatch(batchId, user) {
+    const items = await prisma.complianceBatchItem.findMany({
+      where: { batchId, status: "PENDING" },
+      orderBy: { position: "asc" },
+      select: { id: true, itemId: true, text: true },
+    });
+
+    // CONCURRENCY workers pulling from the same list
+    let next = 0;
+    const worker = async () => {
+      while (next < items.length) {
+        await this.processItem(batchId, items[next++], user);
+      }
+    };
+    await Promise.all(Array.from({ length: Math.min(CONCURRENCY, items.length) }, worker));
+
+    await prisma.complianceBatch.update({
+      where: { id: batchId },
+      data: { status: "COMPLETED", finishedAt: new Date() },
+    });
+    console.log(`✅ [BatchQueue] Batch ${batchId} completed`);
+  }
+
+  /**
+   * Wait for the next free slot under BATCH_RATE_PER_MINUTE
+   */
+  async acquireSlot() {
+    if (RATE_PER_MINUTE <= 0) return;
+    const now = Date.now();
+    const startAt = Math.max(now, this.nextSlotAt);
+    this.nextSlotAt = startAt + 60000 / RATE_PER_MINUTE;
+    if (startAt > now) await sleep(startAt - now);
+  }
+
+  async processItem(batchId, item, user) {
+    await this.acquireSlot();
+    await prisma.complianceBatchItem.update({
+      where: { id: item.id },
+      data: { status: "RUNNING", startedAt: new Date() },
+    });
+
+    try {
+      const result = await withRetry(() => checkCompliance(item.text, { user, source: "batch" }), {
+        retries: 2,
+        baseDelayMs: 2000,
+        onRetry: (error, attempt, delayMs) =>
+          console.warn(
+            `⚠️ [BatchQueue] Item "${item.itemId}" failed (${error.message}), retry ${attempt} in ${delayMs}ms`
+          ),
+      });
+
+      await prisma.$transaction([
+        prisma.complianceBatchItem.update({
+          where: { id: item.id },
+          data: { status: "DONE", result, error: null, finishedAt: new Date() },
+        }),
+        prisma.complianceBatch.update({
+          where: { id: batchId },
+          data: { processedItems: { increment: 1 } },
+        }),
+      ]);
+    } catch (error) {
+      console.error(`❌ [BatchQueue] Item "${item.itemId}" of batch ${batchId} failed:`, error.message);
+      await prisma.$transaction([
+        prisma.complianceBatchItem.update({
+          where: { id: item.id },
+          data: { status: "FAILED", error: error.message, finishedAt: new Date() },
+        }),
+        prisma.complianceBatch.update({
+          where: { id: batchId },
+          data: { processedItems: { increment: 1 }, failedItems: { increment: 1 } },
+        }),
+      ]);
+    }
+  }
+
+  /**
+   * A batch with its items (in request order) and the report so far
+   */
+  async getBatch(batchId) {
+    const batch = await prisma.complianceBatch.findUnique({
+      where: { id: batchId },
+      include: { items: { orderBy: { position: "asc" } } },
+    });
+    if (!batch) return null;
+
+    const { items, ...rest } = batch;
+    return {
+      ...rest,
+      progress: batch.totalItems ? Math.round((batch.processedItems / batch.totalItems) * 100) : 100,
+      report: buildReport(items),
+      items: items.map((item) => ({
+        id: item.itemId,
+        title: item.title,
+        locale: item.locale,
+        category: item.category,
+        status: item.status,
+        result: item.result,
+        error: item.error,
+        finishedAt: item.finishedAt,
+      })),
+    };
+  }
+}
+
+module.exports = new BatchQueue();
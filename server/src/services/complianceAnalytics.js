@@ -0,0 +1,252 @@
+/**
+ * Compliance Analytics Service
+ *
+ * Aggregates the ComplianceCheck log for the manager dashboard:
+ *   - trends: checks, pass rate and issues per day or week
+ *   - phrases: the copy that is flagged most often
+ *   - policies: the documents cited and rules hit most
+ *   - teams: pass rate per team
+ *
+ * Pass rates only count checks whose AI review completed (status "ok");
+ * degraded and rule-only checks are counted separately as `degraded`. Live
+ * (watch mode) checks re-run on every edit and are left out.
+ */
+
+const prisma = require("../lib/prisma");
+
+const MAX_DAYS = 365;
+const DAY_MS = 24 * 60 * 60 * 1000;
+const SEVERITY_RANK = { low: 1, medium: 2, high: 3 };
+
+/**
+ * Midnight (UTC) of the first day in a window of `days` days ending today
+ */
+function windowStart(days) {
+  const span = Math.min(Math.max(Math.floor(days) || 30, 1), MAX_DAYS);
+  const start = new Date(Date.now() - (span - 1) * DAY_MS);
+  start.setUTCHours(0, 0, 0, 0);
+  return start;
+}
+
+/**
+ * @param {{days?: number, team?: string}} filters
+ */
+async function loadChecks({ days, team }) {
+  return prisma.complianceCheck.findMany({
+    where: {
+      createdAt: { gte: windowStart(days) },
+      source: { not: "live" },
+      ...(team && { team }),
+    },
+    select: {
+      createdAt: true,
+      isCompliant: true,
+      status: true,
+      issues: true,
+      team: true,
+      userId: true,
+    },
+    orderBy: { createdAt: "asc" },
+  });
+}
+
+function passRate(passed, reviewed) {
+  return reviewed > 0 ? Math.round((passed / reviewed) * 1000) / 10 : null;
+}
+
+/**
+ * Running totals for a group of checks
+ */
+function tally() {
+  return { checks: 0, reviewed: 0, passed: 0, degraded: 0, issues: 0, high: 0, medium: 0, low: 0 };
+}
+
+function addCheck(totals, check) {
+  const issues = Array.isArray(check.issues) ? check.issues : [];
+  totals.checks++;
+  if (check.status === "ok") {
+    totals.reviewed++;
+    if (check.isCompliant) totals.passed++;
+  } else {
+    totals.degraded++;
+  }
+  totals.issues += issues.length;
+  for (const issue of issues) {
+    if (issue.severity in SEVERITY_RANK) totals[issue.severity]++;
+  }
+}
+
+function summarize(totals) {
+  const { reviewed, ...rest } = totals;
+  return { ...rest, passRate: passRate(totals.passed, reviewed) };
+}
+
+/**
+ * Start of the UTC day (or Monday-based week) containing a date, as YYYY-MM-DD
+ */
+function bucketKey(date, interval) {
+  const day = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+  if (interval === "week") {
+    day.setUTCDate(day.getUTCDate() - ((day.getUTCDay() + 6) % 7));
+  }
+  return day.toISOString().slice(0, 10);
+}
+
+/**
+ * Checks, pass rate and issues per day or week (empty periods included)
+ *
+ * @param {{days?: number, team?: string, interval?: "day"|"week"}} filters
+ * @returns {Promise<Array<{date, checks, passed, degraded, issues, high, medium, low, passRate}>>}
+ */
+async function getTrends({ days = 30, team, interval = "day" } = {}) {
+  const checks = await loadChecks({ days, team });
+
+  const buckets = new Map();
+  for (let time = windowStart(days).getTime(); time <= Date.now(); time += DAY_MS) {
+    const key = bucketKey(new Date(time), interval);
+    if (!buckets.has(key)) buckets.set(key, tally());
+  }
+  for (const check of checks) {
+    const key = bucketKey(check.createdAt, interval);
+    if (!buckets.has(key)) buckets.set(key, tally());
+    addCheck(buckets.get(key), check);
+  }
+
+  return Array.from(buckets, ([date, totals]) => ({ date, ...summarize(totals) }));
+}
+
+/**
+ * Flagged copy, grouped case- and whitespace-insensitively
+ *
+ * @param {{days?: number, team?: string, limit?: number}} filters
+ * @returns {Promise<Array<{phrase, count, checks, severity, categories, sources, lastSeen}>>}
+ */
+async function getTopPhrases({ days = 30, team, limit = 10 } = {}) {
+  const checks = await loadChecks({ days, team });
+  const phrases = new Map();
+
+  checks.forEach((check, checkIndex) => {
+    for (const issue of Array.isArray(check.issues) ? check.issues : []) {
+      // Visual issues quote whole OCR lines, not claims
+      if (!issue.text || issue.source === "visual") continue;
+      const key = issue.text.replace(/\s+/g, " ").trim().toLowerCase();
+      if (!key) continue;
+
+      const entry = phrases.get(key) || {
+        phrase: issue.text.replace(/\s+/g, " ").trim(),
+        count: 0,
+        checkIndexes: new Set(),
+        severity: issue.severity,
+        categories: new Set(),
+        sources: new Set(),
+        lastSeen: check.createdAt,
+      };
+      entry.count++;
+      entry.checkIndexes.add(checkIndex);
+      if ((SEVERITY_RANK[issue.severity] || 0) > (SEVERITY_RANK[entry.severity] || 0)) {
+        entry.severity = issue.severity;
+      }
+      if (issue.category) entry.categories.add(issue.category);
+      if (issue.source) entry.sources.add(issue.source);
+      entry.lastSeen = check.createdAt;
+      phrases.set(key, entry);
+    }
+  });
+
+  return Array.from(phrases.values())
+    .sort((a, b) => b.count - a.count || (SEVERITY_RANK[b.severity] || 0) - (SEVERITY_RANK[a.severity] || 0))
+    .slice(0, limit)
+    .map(({ checkIndexes, categories, sources, ...entry }) => ({
+      ...entry,
+      checks: checkIndexes.size,
+      categories: [...categories],
+      sources: [...sources],
+    }));
+}
+
+/**
+ * Policy documents cited by AI issues and rules hit, most frequent first
+ *
+ * @param {{days?: number, team?: string, limit?: number}} filters
+ * @returns {Promise<{documents: Array<{documentId, originalName, citations, pages}>, rules: Array<{ruleId, pattern, category, severity, hits}>}>}
+ */
+async function getTopPolicies({ days = 30, team, limit = 10 } = {}) {
+  const checks = await loadChecks({ days, team });
+  const documents = new Map();
+  const ruleHits = new Map();
+
+  for (const check of checks) {
+    for (const issue of Array.isArray(check.issues) ? check.issues : []) {
+      if (issue.ruleId) ruleHits.set(issue.ruleId, (ruleHits.get(issue.ruleId) || 0) + 1);
+
+      for (const citation of issue.citations || []) {
+        if (!citation.documentId) continue;
+        const entry = documents.get(citation.documentId) || {
+          documentId: citation.documentId,
+          originalName: citation.originalName,
+          citations: 0,
+          pages: new Set(),
+        };
+        entry.citations++;
+        if (citation.page) entry.pages.add(citation.page);
+        documents.set(citation.documentId, entry);
+      }
+    }
+  }
+
+  const topRules = Array.from(ruleHits, ([ruleId, hits]) => ({ ruleId, hits }))
+    .sort((a, b) => b.hits - a.hits)
+    .slice(0, limit);
+  const rules = await prisma.policyRule.findMany({
+    where: { id: { in: topRules.map((rule) => rule.ruleId) } },
+    select: { id: true, pattern: true, category: true, severity: true },
+  });
+  const rulesById = new Map(rules.map((rule) => [rule.id, rule]));
+
+  return {
+    documents: Array.from(documents.values())
+      .sort((a, b) => b.citations - a.citations)
+      .slice(0, limit)
+      .map((entry) => ({ ...entry, pages: [...entry.pages].sort((a, b) => a - b) })),
+    rules: topRules.map(({ ruleId, hits }) => ({
+      ruleId,
+      // Deleted rules keep their hits but lose their details
+      pattern: rulesById.get(ruleId)?.pattern ?? null,
+      category: rulesById.get(ruleId)?.category ?? null,
+      severity: rulesById.get(ruleId)?.severity ?? null,
+      hits,
+    })),
+  };
+}
+
+/**
+ * Pass rate per team (checks without a team are grouped as null)
+ *
+ * @param {{days?: number}} filters
+ * @returns {Promise<Array<{team, users, checks, passed, degraded, issues, high, medium, low, passRate}>>}
+ */
+async function getTeamStats({ days = 30 } = {}) {
+  const checks = await loadChecks({ days });
+  const teams = new Map();
+
+  for (const check of checks) {
+    const entry = teams.get(check.team) || { totals: tally(), users: new Set() };
+    addCheck(entry.totals, check);
+    if (check.userId) entry.users.add(check.userId);
+    teams.set(check.team, entry);
+  }
+
+  return Array.from(teams, ([team, { totals, users }]) => ({
+    team,
+    users: users.size,
+    ...summarize(totals),
+  })).sort((a, b) => (a.passRate ?? 101) - (b.passRate ?? 101));
+}
+
+module.exports = {
+  MAX_DAYS,
+  getTrends,
+  getTopPhrases,
+  getTopPolicies,
+  getTeamStats,
+};
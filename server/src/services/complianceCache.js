@@ -0,0 +1,211 @@
+/**
+ * Compliance Cache Service
+ *
+ * In-process LRU (with TTL) of compliance results, so identical copy does not
+ * cost another embedding + generation request. Keys combine:
+ *
+ *   normalized text (whitespace collapsed) + policy version
+ *
+ * The policy version is read from the database on every lookup (rule set, indexed
+ * documents, LLM provider), so adding a rule or finishing an ingestion changes
+ * the key and old entries are never served again, whichever process made the change.
+ *
+ * Identical checks that arrive while one is running share its result (unless that
+ * check is aborted, in which case each waiting caller runs its own).
+ * Degraded results (AI step failed) are shared but never stored.
+ */
+
+const crypto = require("crypto");
+const prisma = require("../lib/prisma");
+const { getLLMProvider } = require("./providers");
+
+const CACHE_SIZE = Number(process.env.COMPLIANCE_CACHE_SIZE ?? 500);
+const CACHE_TTL_MS = Number(process.env.COMPLIANCE_CACHE_TTL_MS || 10 * 60 * 1000);
+
+/**
+ * Collapse whitespace runs to one space and trim, keeping maps between
+ * original and normalized offsets so cached issues can be re-anchored
+ */
+function normalizeText(text) {
+  const toOriginal = []; // normalized index → original index
+  const toNormalized = new Array(text.length); // original index → normalized index
+  let normalized = "";
+  let pendingSpace = false;
+
+  for (let i = 0; i < text.length; i++) {
+    if (/\s/.test(text[i])) {
+      pendingSpace = normalized.length > 0;
+      toNormalized[i] = normalized.length;
+      continue;
+    }
+    if (pendingSpace) {
+      toOriginal.push(i - 1);
+      normalized += " ";
+      pendingSpace = false;
+    }
+    toNormalized[i] = normalized.length;
+    toOriginal.push(i);
+    normalized += text[i];
+  }
+
+  return { text: normalized, toOriginal, toNormalized };
+}
+
+/**
+ * Move issue offsets from one text's coordinates to another's
+ *
+ * @param {Array} issues
+ * @param {(start: number, end: number) => [number, number]|null} mapRange
+ * @param {string} [text] - When given, issue.text is re-read from the mapped range
+ */
+function remapIssues(issues, mapRange, text) {
+  return issues.map((issue) => {
+    if (!Number.isInteger(issue.start) || !Number.isInteger(issue.end) || issue.end <= issue.start) {
+      return issue;
+    }
+    const range = mapRange(issue.start, issue.end);
+    if (!range) return { ...issue, start: null, end: null };
+    const [start, end] = range;
+    return { ...issue, start, end, ...(text !== undefined && { text: text.slice(start, end) }) };
+  });
+}
+
+class ComplianceCache {
+  constructor() {
+    this.entries = new Map(); // key → { result, expiresAt }, least recently used first
+    this.inflight = new Map(); // key → Promise<result>
+    this.hits = 0;
+    this.misses = 0;
+  }
+
+  get enabled() {
+    return CACHE_SIZE > 0;
+  }
+
+  /**
+   * Everything besides the text that changes a check's outcome
+   */
+  async policyVersion() {
+    const [rules, indexed] = await Promise.all([
+      prisma.policyRule.aggregate({ _count: { _all: true }, _max: { updatedAt: true } }),
+      prisma.ingestionJob.aggregate({
+        where: { status: "INDEXED" },
+        _count: { _all: true },
+        _max: { finishedAt: true },
+      }),
+    ]);
+    const llm = getLLMProvider();
+
+    return [
+      `rules:${rules._count._all}:${rules._max.updatedAt?.getTime() || 0}`,
+      `corpus:${indexed._count._all}:${indexed._max.finishedAt?.getTime() || 0}`,
+      `llm:${llm.name}:${llm.model || ""}`,
+    ].join("|");
+  }
+
+  get(key) {
+    const entry = this.entries.get(key);
+    if (!entry) return null;
+    this.entries.delete(key);
+    if (entry.expiresAt <= Date.now()) return null;
+    this.entries.set(key, entry);
+    return entry.result;
+  }
+
+  set(key, result) {
+    this.entries.delete(key);
+    this.entries.set(key, { result, expiresAt: Date.now() + CACHE_TTL_MS });
+    while (this.entries.size > CACHE_SIZE) {
+      this.entries.delete(this.entries.keys().next().value);
+    }
+  }
+
+  /**
+   * Run `check(text)` through the cache
+   *
+   * @param {string} text
+   * @param {(text: string) => Promise<object>} check - Uncached compliance check
+   * @returns {Promise<object>} The check's result plus `cached`
+   */
+  async wrap(text, check) {
+    if (!this.enabled) return { ...(await check(text)), cached: false };
+
+    let version;
+    try {
+      version = await this.policyVersion();
+    } catch (error) {
+      console.warn("⚠️ [ComplianceCache] Could not read policy version, skipping cache:", error.message);
+      return { ...(await check(text)), cached: false };
+    }
+
+    const normalized = normalizeText(text);
+    const key = crypto.createHash("sha256").update(`${version}\n${normalized.text}`).digest("hex");
+
+    // Cached issues are stored against the normalized text; anchor them in this request's text
+    const respond = (result, cached) => ({
+      ...result,
+      issues: remapIssues(
+        result.issues,
+        (start, end) => {
+          const last = normalized.toOriginal[end - 1];
+          if (normalized.toOriginal[start] === undefined || last === undefined) return null;
+          return [normalized.toOriginal[start], last + 1];
+        },
+        text
+      ),
+      cached,
+    });
+
+    const hit = this.get(key);
+    if (hit) {
+      this.hits++;
+      return respond(hit, true);
+    }
+
+    const running = this.inflight.get(key);
+    if (running) {
+      const shared = await running.catch((error) => {
+        if (error?.name !== "AbortError") throw error;
+        return null;
+      });
+      if (shared) {
+        this.hits++;
+        return respond(shared, true);
+      }
+      return this.wrap(text, check);
+    }
+
+    this.misses++;
+    const pending = check(text).then((result) => {
+      const stored = {
+        ...result,
+        issues: remapIssues(result.issues, (start, end) => [
+          normalized.toNormalized[start],
+          normalized.toNormalized[end - 1] + 1,
+        ]),
+      };
+      if (result.status !== "degraded") this.set(key, stored);
+      return stored;
+    });
+    this.inflight.set(key, pending);
+
+    try {
+      return respond(await pending, false);
+    } finally {
+      this.inflight.delete(key);
+    }
+  }
+
+  getStats() {
+    return {
+      enabled: this.enabled,
+      size: this.entries.size,
+      maxSize: CACHE_SIZE,
+      ttlMs: CACHE_TTL_MS,
+      hits: this.hits,
+      misses: this.misses,
+    };
+  }
+}
+
+module.exports = new ComplianceCache();
@@ -3,82 +3,355 @@
  *
  * Uses Retrieval-Augmented Generation (RAG) to check text for compliance issues.
  * Flow:
- * 1. Generate embedding for input text
- * 2. Query Pinecone for relevant policy chunks
- * 3. Use Gemini Pro to analyze compliance with retrieved context
+ * 1. Evaluate active PolicyRules (deterministic, exact offsets)
+ * 2. Generate embedding for input text
+ * 3. Query the vector store for relevant policy chunks
+ * 4. Use the configured LLM provider to analyze compliance with retrieved context;
+ *    every AI issue cites the policy chunks (document, page, excerpt) it relied on
+ * 5. Merge rule hits with AI issues (rule hits win on overlap)
+ *
+ * With LLM_PROVIDER=local, step 4 is skipped and the check runs rule-only
+ * (`status: "rules_only"`, never compliant on its own).
+ * If the model fails or keeps returning responses that break the contract in
+ * analysisSchema.js, the result has `status: "degraded"` and only rule hits.
+ * Results are cached per text + policy version (see complianceCache.js).
+ *
+ * checkComplianceStream reports each step as it completes (rule hits, retrieved
+ * context, every AI issue as soon as the model has written it, then the summary).
  */
 
 require("dotenv").config();
-const { GoogleGenerativeAI } = require("@google/generative-ai");
 const vectorStore = require("./vectorStore");
+const { loadActiveRules, evaluateRules, mergeIssues } = require("./ruleEngine");
+const { getLLMProvider } = require("./providers");
 const prisma = require("../lib/prisma");
+const complianceCache = require("./complianceCache");
+const IssueStreamParser = require("./issueStreamParser");
+const {
+  ISSUE_CATEGORIES,
+  ANALYSIS_SCHEMA,
+  parseResponse,
+  validateIssue,
+  isGrounded,
+  validateAnalysis,
+} = require("./analysisSchema");
 
-// Initialize Google Generative AI client
-const genAI = new GoogleGenerativeAI(process.env.GOOGLE_API_KEY);
-const model = genAI.getGenerativeModel({ model: "gemini-flash-latest" });
+// Extra attempts after a response fails validation (each includes the errors)
+const REPAIR_ATTEMPTS = Number(process.env.LLM_REPAIR_ATTEMPTS ?? 1);
 
 /**
  * Check text for compliance violations using RAG
  *
  * @param {string} text - The marketing copy to check
- * @returns {Promise<{isCompliant: boolean, issues: Array<{text, severity, reason, suggestion}>}>}
+ * @param {object} [context] - Recorded with the check for analytics
+ * @param {{id: string, team?: string|null}} [context.user] - Who ran the check
+ * @param {string} [context.contentId] - Workflow content the text belongs to
+ * @param {string} [context.source] - text, stream, image, batch, workflow, live
+ * @returns {Promise<{isCompliant: boolean, status: "ok"|"degraded"|"rules_only", issues: Array<{text, severity, reason, suggestion, source, ruleId, start, end}>, cached: boolean}>}
+ */
+async function checkCompliance(text, context = {}) {
+  const startedAt = Date.now();
+  const result = await complianceCache.wrap(text, analyzeText);
+  recordCheck(text, result, { source: "text", ...context, latencyMs: Date.now() - startedAt });
+  return result;
+}
+
+/**
+ * Check text, reporting progress as it happens
+ *
+ * Events (passed to onEvent(event, data)):
+ *   rules   {issues}  - rule hits, before anything slow runs
+ *   context {chunks}  - policy chunks retrieved for the AI step
+ *   issue   {issue}   - one AI issue, as soon as it is parsed and survives the merge
+ *   summary {result}  - the same result checkCompliance would return
+ *
+ * Cached (or coalesced) results replay their rules and issue events instantly.
+ *
+ * @param {string} text
+ * @param {object} options
+ * @param {(event: string, data: object) => void} options.onEvent
+ * @param {AbortSignal} [options.signal] - Stops retrieval/generation when the client goes away
+ * @param {object} [options.context] - See checkCompliance
+ * @returns {Promise<object>} checkCompliance result
+ */
+async function checkComplianceStream(text, { onEvent, signal, context = {} }) {
+  const startedAt = Date.now();
+  let streamed = false;
+  const result = await complianceCache.wrap(text, (input) => {
+    streamed = true;
+    return analyzeText(input, { onEvent, signal });
+  });
+
+  if (!streamed) {
+    onEvent("rules", { issues: result.issues.filter((issue) => issue.source === "rule") });
+    for (const issue of result.issues.filter((issue) => issue.source !== "rule")) {
+      onEvent("issue", { issue });
+    }
+  }
+
+  recordCheck(text, result, { source: "stream", ...context, latencyMs: Date.now() - startedAt });
+  onEvent("summary", { result });
+  return result;
+}
+
+/**
+ * The text with every located suggestion applied (back to front, overlaps skipped)
+ *
+ * @returns {string|null} null when no suggestion could be placed
+ */
+function applySuggestions(text, issues) {
+  const edits = issues
+    .filter((issue) => issue.suggestion && Number.isInteger(issue.start) && Number.isInteger(issue.end))
+    .sort((a, b) => b.start - a.start);
+
+  let rewrite = text;
+  let applied = 0;
+  let limit = text.length;
+  for (const issue of edits) {
+    if (issue.end > limit) continue;
+    rewrite = rewrite.slice(0, issue.start) + issue.suggestion + rewrite.slice(issue.end);
+    limit = issue.start;
+    applied++;
+  }
+  return applied > 0 ? rewrite : null;
+}
+
+/**
+ * Log every check, cached or not (non-blocking)
+ */
+function recordCheck(text, result, { user, contentId, source, latencyMs }) {
+  logComplianceCheck({
+    originalText: text,
+    isCompliant: result.isCompliant,
+    violationCount: result.issues.length,
+    suggestedRewrite: applySuggestions(text, result.issues),
+    issues: result.issues.map((issue) => ({
+      text: issue.text,
+      severity: issue.severity,
+      category: issue.category || null,
+      source: issue.source,
+      ruleId: issue.ruleId || null,
+      citations: (issue.citations || []).map((citation) => ({
+        documentId: citation.documentId,
+        originalName: citation.originalName,
+        page: citation.page,
+      })),
+    })),
+    status: result.status,
+    source,
+    provider: result.provider,
+    cached: Boolean(result.cached),
+    latencyMs,
+    userId: user?.id,
+    team: user?.team,
+    contentId,
+  }).catch(() => {});
+}
+
+/**
+ * Retrieved chunks as shown to streaming clients (no full text)
  */
-async function checkCompliance(text) {
+function summarizeChunks(chunks) {
+  return chunks.map((chunk, idx) => ({
+    ref: idx + 1,
+    documentId: chunk.docId,
+    originalName: chunk.metadata?.originalName || chunk.metadata?.filename || null,
+    page: chunk.metadata?.page ? Number(chunk.metadata.page) : null,
+    score: chunk.score ?? null,
+  }));
+}
+
+/**
+ * The uncached check
+ *
+ * @param {string} text
+ * @param {object} [options] - onEvent/signal, see checkComplianceStream
+ */
+async function analyzeText(text, { onEvent = () => {}, signal } = {}) {
   try {
-    // Ensure vector store is connected
-    if (!vectorStore.isConnected) {
-      await vectorStore.connect();
+    // Step 1: Deterministic rule hits (always run, even if RAG is unavailable)
+    let ruleIssues = [];
+    try {
+      const rules = await loadActiveRules();
+      ruleIssues = evaluateRules(text, rules);
+      console.log(
+        `📏 [ComplianceChecker] ${ruleIssues.length} rule hit(s) from ${rules.length} active rule(s)`
+      );
+    } catch (err) {
+      console.warn("⚠️ [ComplianceChecker] Could not evaluate policy rules:", err.message);
     }
+    onEvent("rules", { issues: ruleIssues });
+    signal?.throwIfAborted();
 
-    // Step 1: Query Pinecone for relevant policy chunks (top 3)
+    // Step 2: Query the vector store for relevant policy chunks (top 3)
     console.log(
       "🔍 [ComplianceChecker] Searching for relevant policy context..."
     );
-    const relevantChunks = await vectorStore.search(text, 3);
+    let relevantChunks = [];
+    try {
+      if (!vectorStore.isConnected) {
+        await vectorStore.connect();
+      }
+      relevantChunks = await vectorStore.search(text, 3);
+    } catch (err) {
+      console.warn("⚠️ [ComplianceChecker] Policy retrieval unavailable:", err.message);
+    }
+    onEvent("context", { chunks: summarizeChunks(relevantChunks) });
+    signal?.throwIfAborted();
 
-    // Step 2: Prepare context from retrieved chunks
-    const context = relevantChunks
-      .map((chunk, idx) => `[Policy Reference ${idx + 1}]\n${chunk.text}`)
-      .join("\n\n");
+    // Step 3: Use the LLM provider to analyze compliance (with citations to retrieved chunks)
+    const llm = getLLMProvider();
+    let analysis = { status: "rules_only", isCompliant: false, issues: [] };
+    if (llm.supportsGeneration) {
+      console.log(
+        `🤖 [ComplianceChecker] Analyzing compliance with ${llm.name} (${llm.model})...`
+      );
 
-    // Step 3: Use Gemini Pro to analyze compliance
-    console.log(
-      "🤖 [ComplianceChecker] Analyzing compliance with Gemini Pro..."
-    );
-    const analysis = await analyzeWithGemini(text, context);
+      // Emit each AI issue once it is known to survive the merge with rule hits
+      const streamedIssues = [];
+      const emitted = new Set();
+      const onIssue = (issue) => {
+        streamedIssues.push(issue);
+        for (const merged of mergeIssues(ruleIssues, streamedIssues, text)) {
+          const key = merged.text.trim().toLowerCase();
+          if (merged.source !== "ai" || emitted.has(key)) continue;
+          emitted.add(key);
+          onEvent("issue", { issue: merged });
+        }
+      };
+
+      analysis = await analyzeWithLLM(llm, text, relevantChunks, { onIssue, signal });
+    } else {
+      console.log("📏 [ComplianceChecker] No generation provider, running rule-only check");
+    }
 
-    // Step 4: Log the check (non-blocking)
-    logComplianceCheck({
-      originalText: text,
-      isCompliant: analysis.isCompliant,
-      violationCount: analysis.issues.length,
-    }).catch(() => {});
+    // Step 4: Merge rule hits with AI issues
+    const issues = mergeIssues(ruleIssues, analysis.issues, text);
+    // Without the AI step, no rule hits is not the same as compliant
+    const isCompliant = issues.length === 0 && analysis.status === "ok";
 
     return {
-      isCompliant: analysis.isCompliant,
-      issues: analysis.issues,
+      isCompliant,
+      status: analysis.status,
+      ...(analysis.status === "degraded" && { degradedReason: analysis.reason }),
+      issues,
+      provider: llm.name,
       checkedAt: new Date().toISOString(),
     };
   } catch (error) {
-    console.error("❌ [ComplianceChecker] Error:", error);
+    if (!signal?.aborted) console.error("❌ [ComplianceChecker] Error:", error);
     throw error;
   }
 }
 
 /**
- * Analyze compliance using Gemini Pro with retrieved context
+ * Label retrieved chunks as numbered sources the model can cite
  *
- * @param {string} text - Text to check
- * @param {string} context - Retrieved policy context
- * @returns {Promise<{isCompliant: boolean, issues: Array}>}
+ * @param {Array} chunks - Results of vectorStore.search
+ * @returns {string}
+ */
+function formatContext(chunks) {
+  return chunks
+    .map((chunk, idx) => {
+      const name = chunk.metadata?.originalName || chunk.metadata?.filename || "policy document";
+      const page = chunk.metadata?.page ? `, page ${chunk.metadata.page}` : "";
+      return `[Source ${idx + 1}] (${name}${page})\n${chunk.text}`;
+    })
+    .join("\n\n");
+}
+
+/**
+ * Turn the model's source references into citations
+ *
+ * @param {Array<{ref: number, quote?: string}|number>} sources - References returned by the model
+ * @param {Array} chunks - Retrieved chunks, in the order they were shown to the model
+ * @returns {Array<{documentId, filename, originalName, chunkIndex, page, excerpt, url}>}
+ */
+function buildCitations(sources, chunks) {
+  if (!Array.isArray(sources)) return [];
+
+  const citations = [];
+  const seen = new Set();
+
+  for (const source of sources) {
+    const ref = Number(typeof source === "object" && source !== null ? source.ref : source);
+    const chunk = chunks[ref - 1];
+    if (!chunk || seen.has(ref)) continue;
+    seen.add(ref);
+
+    // Prefer the model's quote, but only if it really is in the chunk
+    const quote = typeof source === "object" && source !== null ? (source.quote || "").trim() : "";
+    const excerpt =
+      quote && chunk.text.toLowerCase().includes(quote.toLowerCase())
+        ? quote
+        : chunk.text.length > 300
+          ? `${chunk.text.slice(0, 300).trim()}…`
+          : chunk.text;
+
+    const filename = chunk.metadata?.filename || null;
+    const page = chunk.metadata?.page ? Number(chunk.metadata.page) : null;
+
+    citations.push({
+      documentId: chunk.docId,
+      filename,
+      originalName: chunk.metadata?.originalName || filename,
+      chunkIndex: chunk.metadata?.chunkIndex ?? null,
+      page,
+      excerpt,
+      url: filename ? `/uploads/${filename}${page ? `#page=${page}` : ""}` : null,
+    });
+  }
+
+  return citations;
+}
+
+/**
+ * Shape one validated issue from the model's response
  */
-async function analyzeWithGemini(text, context) {
-  const prompt = `You are a compliance expert analyzing marketing copy against corporate policy documents.
+function normalizeIssue(issue, chunks) {
+  return {
+    text: issue.text,
+    severity: issue.severity,
+    category: ISSUE_CATEGORIES.includes(issue.category) ? issue.category : "general",
+    reason: issue.reason,
+    suggestion: issue.suggestion,
+    citations: buildCitations(issue.sources, chunks),
+  };
+}
+
+/**
+ * Generate the response, handing each issue to onIssue as soon as it is complete
+ * when the provider can stream
+ */
+async function generateResponse(llm, prompt, { onIssue, signal }) {
+  const options = { signal, schema: ANALYSIS_SCHEMA };
+  if (!onIssue || typeof llm.generateStream !== "function") {
+    return llm.generate(prompt, options);
+  }
+
+  const parser = new IssueStreamParser();
+  let responseText = "";
+  for await (const chunk of llm.generateStream(prompt, options)) {
+    responseText += chunk;
+    for (const issue of parser.push(chunk)) {
+      onIssue(issue);
+    }
+  }
+  return responseText;
+}
+
+/**
+ * Prompt for the first attempt
+ */
+function buildPrompt(text, chunks) {
+  const context = formatContext(chunks);
+  return `You are a compliance expert analyzing marketing copy against corporate policy documents.
 
 Your task is to:
 1. Analyze the provided text for compliance issues based on the policy context
 2. Identify any violations, concerns, or potential issues
 3. Provide specific, actionable feedback
+4. Cite the numbered policy sources each issue is based on, quoting the relevant sentence exactly
 
 Policy Context:
 ${
@@ -94,73 +367,117 @@ Analyze this text for compliance issues and return ONLY a valid JSON object with
   "isCompliant": boolean,
   "issues": [
     {
-      "text": "the specific problematic text",
+      "text": "the specific problematic text, copied exactly from the text to check",
       "severity": "high" | "medium" | "low",
+      "category": ${ISSUE_CATEGORIES.map((category) => `"${category}"`).join(" | ")},
       "reason": "why this is a compliance issue",
-      "suggestion": "suggested compliant alternative"
+      "suggestion": "suggested compliant alternative",
+      "sources": [{ "ref": 1, "quote": "exact sentence copied from [Source 1]" }]
     }
   ]
 }
 
+Use an empty "sources" array when an issue is not based on any of the numbered sources.
+Pick the category that fits best: legal (claims, disclaimers, regulated terms), brand (tone, naming,
+trademarks), safety, privacy (personal data, consent), or general.
+
 If there are no issues, return {"isCompliant": true, "issues": []}.`;
+}
 
-  try {
-    const result = await model.generateContent(prompt);
-    const response = result.response;
-    const responseText = response.text();
-
-    // Extract JSON from response (handle cases where Gemini might wrap it in markdown)
-    let jsonText = responseText.trim();
-
-    // Remove markdown code blocks if present
-    if (jsonText.startsWith("```json")) {
-      jsonText = jsonText.replace(/```json\n?/g, "").replace(/```\n?/g, "");
-    } else if (jsonText.startsWith("```")) {
-      jsonText = jsonText.replace(/```\n?/g, "");
-    }
+/**
+ * Prompt for a repair attempt: the original task, the rejected response and why
+ */
+function buildRepairPrompt(prompt, responseText, problems) {
+  return `${prompt}
+
+Your previous response was rejected:
+${responseText.slice(0, 4000)}
+
+Problems:
+${problems.map((problem) => `- ${problem}`).join("\n")}
+
+Return the corrected JSON object only.`;
+}
+
+/**
+ * Analyze compliance using an LLM provider with retrieved context
+ *
+ * Each response is validated against the analysis contract (analysisSchema.js);
+ * an invalid one is sent back with the validation errors, up to
+ * LLM_REPAIR_ATTEMPTS times. Quotes that are not in the text count as errors
+ * until the last attempt, where those issues are dropped instead.
+ *
+ * @param {object} llm - Generation provider (see ./providers)
+ * @param {string} text - Text to check
+ * @param {Array} chunks - Retrieved policy chunks (vectorStore.search results)
+ * @param {object} [options]
+ * @param {(issue: object) => void} [options.onIssue] - Called with each valid issue while streaming
+ * @param {AbortSignal} [options.signal]
+ * @returns {Promise<{status: "ok"|"degraded", reason?: string, isCompliant: boolean, issues: Array}>}
+ */
+async function analyzeWithLLM(llm, text, chunks, { onIssue, signal } = {}) {
+  const prompt = buildPrompt(text, chunks);
+  const degraded = (reason) => ({ status: "degraded", reason, isCompliant: false, issues: [] });
+
+  let attemptPrompt = prompt;
+  let problems = [];
+  for (let attempt = 0; attempt <= REPAIR_ATTEMPTS; attempt++) {
+    const isLast = attempt === REPAIR_ATTEMPTS;
 
-    // Try to parse JSON
-    let parsedResult;
+    let responseText;
     try {
-      parsedResult = JSON.parse(jsonText);
-    } catch (parseError) {
-      // If parsing fails, try to extract JSON object from the text
-      const jsonMatch = jsonText.match(/\{[\s\S]*\}/);
-      if (jsonMatch) {
-        parsedResult = JSON.parse(jsonMatch[0]);
-      } else {
-        throw new Error("Could not parse JSON from response");
-      }
+      responseText = await generateResponse(llm, attemptPrompt, {
+        // Only the first attempt streams; a repaired result arrives with the summary
+        onIssue:
+          attempt === 0 && onIssue
+            ? (issue) => {
+                if (validateIssue(issue, "issue").length === 0 && isGrounded(issue, text)) {
+                  onIssue(normalizeIssue(issue, chunks));
+                }
+              }
+            : undefined,
+        signal,
+      });
+    } catch (error) {
+      if (signal?.aborted) throw signal.reason;
+      console.error(`❌ [ComplianceChecker] ${llm.name} analysis failed:`, error);
+      return degraded("The AI review could not be completed");
     }
 
-    // Validate and normalize the response
-    return {
-      isCompliant: parsedResult.isCompliant === true,
-      issues: Array.isArray(parsedResult.issues)
-        ? parsedResult.issues.map((issue) => ({
-            text: issue.text || "",
-            severity: issue.severity || "medium",
-            reason: issue.reason || "",
-            suggestion: issue.suggestion || "",
-          }))
-        : [],
-    };
-  } catch (error) {
-    console.error("❌ [ComplianceChecker] Gemini Pro analysis failed:", error);
+    const parsed = parseResponse(responseText);
+    const { errors, ungrounded } = parsed.error
+      ? { errors: [parsed.error], ungrounded: [] }
+      : validateAnalysis(parsed.value, text);
 
-    // Fallback: return a basic response
-    return {
-      isCompliant: false,
-      issues: [
-        {
-          text: text,
-          severity: "medium",
-          reason: "Unable to analyze compliance due to API error",
-          suggestion: "Please review manually",
-        },
-      ],
-    };
+    problems = [
+      ...errors,
+      ...(isLast
+        ? []
+        : ungrounded.map(
+            (idx) =>
+              `issues[${idx}].text "${parsed.value.issues[idx].text}" does not occur in the text to check; quote it exactly or leave the issue out`
+          )),
+    ];
+
+    if (problems.length === 0) {
+      if (ungrounded.length > 0) {
+        console.warn(
+          `⚠️ [ComplianceChecker] Dropped ${ungrounded.length} issue(s) quoting text that is not in the input`
+        );
+      }
+      const issues = parsed.value.issues
+        .filter((_, idx) => !ungrounded.includes(idx))
+        .map((issue) => normalizeIssue(issue, chunks));
+      return { status: "ok", isCompliant: issues.length === 0, issues };
+    }
+
+    console.warn(
+      `⚠️ [ComplianceChecker] ${llm.name} response failed validation (attempt ${attempt + 1} of ${REPAIR_ATTEMPTS + 1}): ${problems.join("; ")}`
+    );
+    attemptPrompt = buildRepairPrompt(prompt, responseText, problems);
   }
+
+  return degraded("The AI review returned an invalid response");
 }
 
 /**
@@ -173,6 +490,16 @@ async function logComplianceCheck(result) {
         inputText: result.originalText,
         isCompliant: result.isCompliant,
         violationCount: result.violationCount || 0,
+        suggestedRewrite: result.suggestedRewrite || null,
+        issues: result.issues || undefined,
+        status: result.status || "ok",
+        source: result.source || "text",
+        provider: result.provider || null,
+        cached: Boolean(result.cached),
+        latencyMs: result.latencyMs ?? null,
+        userId: result.userId || null,
+        team: result.team || null,
+        contentId: result.contentId || null,
       },
     });
   } catch (error) {
@@ -183,5 +510,6 @@ async function logComplianceCheck(result) {
 
 module.exports = {
   checkCompliance,
+  checkComplianceStream,
   logComplianceCheck,
 };
\ No newline at end of file
@@ -0,0 +1,163 @@
+/**
+ * Content Version Service
+ *
+ * Every create/edit of a Content row writes an immutable ContentVersion. When a
+ * review ends (approved, changes requested, or replaced by a resubmission) the
+ * workflow's steps, feedback and comments are archived onto the version that was
+ * reviewed, so nothing is lost when the Workflow is recreated.
+ */
+
+const prisma = require("../lib/prisma");
+const { PUBLIC_USER_SELECT } = require("./auth");
+const { diffWords, diffStats } = require("./textDiff");
+
+/**
+ * Snapshot the current state of a content row
+ *
+ * The previous version's rendition is carried forward until a new one is uploaded.
+ *
+ * @param {object} content - Content row (after the create/update)
+ * @param {object} [options]
+ * @param {string|null} [options.userId] - Who made the change
+ */
+async function recordVersion(content, { userId = null } = {}) {
+  const previous = await prisma.contentVersion.findFirst({
+    where: { contentId: content.id, version: { lt: content.version } },
+    orderBy: { version: "desc" },
+    select: { rendition: true, renditionThumbnail: true },
+  });
+
+  return prisma.contentVersion.create({
+    data: {
+      contentId: content.id,
+      version: content.version,
+      title: content.title,
+      text: content.text,
+      rendition: previous?.rendition || null,
+      renditionThumbnail: previous?.renditionThumbnail || null,
+      complianceResult: content.complianceResult || undefined,
+      createdById: userId,
+    },
+  });
+}
+
+/**
+ * Archive a workflow's outcome and step history onto the reviewed version
+ *
+ * Outcome: COMPLETED → APPROVED, content sent back → CHANGES_REQUESTED,
+ * otherwise (still active when replaced) → SUPERSEDED.
+ */
+async function archiveWorkflow(workflowId) {
+  const workflow = await prisma.workflow.findUnique({
+    where: { id: workflowId },
+    include: {
+      content: true,
+      steps: {
+        orderBy: { stepNumber: "asc" },
+        include: {
+          assignee: { select: PUBLIC_USER_SELECT },
+          comments: {
+            include: { author: { select: PUBLIC_USER_SELECT } },
+            orderBy: { createdAt: "asc" },
+          },
+        },
+      },
+    },
+  });
+  if (!workflow) return null;
+
+  let outcome = "SUPERSEDED";
+  if (workflow.status === "COMPLETED") outcome = "APPROVED";
+  else if (workflow.content.status === "CHANGES_REQUESTED") outcome = "CHANGES_REQUESTED";
+
+  const { count } = await prisma.contentVersion.updateMany({
+    where: {
+      contentId: workflow.contentId,
+      version: workflow.contentVersion ?? workflow.content.version,
+    },
+    data: {
+      workflowOutcome: outcome,
+      workflowSnapshot: {
+        workflowId: workflow.id,
+        templateId: workflow.templateId,
+        archivedAt: new Date().toISOString(),
+        steps: workflow.steps.map((step) => ({
+          stepNumber: step.stepNumber,
+          stepName: step.stepName,
+          requiredRole: step.requiredRole,
+          requiredApprovals: step.requiredApprovals,
+          status: step.status,
+          feedback: step.feedback,
+          decidedAt: step.decidedAt,
+          assignee: step.assignee,
+          comments: step.comments.map((comment) => ({
+            text: comment.text,
+            author: comment.author,
+            createdAt: comment.createdAt,
+          })),
+        })),
+      },
+    },
+  });
+
+  if (count === 0) {
+    console.warn(`⚠️ [ContentVersions] No version row to archive workflow ${workflowId} onto`);
+  }
+  return outcome;
+}
+
+/**
+ * Word diff between two versions of a content item
+ *
+ * `from` defaults to the latest version that got CHANGES_REQUESTED (the feedback the
+ * reviewer is waiting on), else the previous version. `to` defaults to the latest version.
+ *
+ * @returns {Promise<object|null>} null if the versions do not exist
+ */
+async function diffContentVersions(contentId, from, to) {
+  const versions = await prisma.contentVersion.findMany({
+    where: { contentId },
+    orderBy: { version: "asc" },
+  });
+  if (versions.length === 0) return null;
+
+  const target = to ? versions.find((v) => v.version === to) : versions[versions.length - 1];
+  if (!target) return null;
+
+  let base;
+  if (from) {
+    base = versions.find((v) => v.version === from);
+  } else {
+    const earlier = versions.filter((v) => v.version < target.version);
+    base =
+      [...earlier].reverse().find((v) => v.workflowOutcome === "CHANGES_REQUESTED") ||
+      earlier[earlier.length - 1];
+  }
+  if (!base) return null;
+
+  const segments = diffWords(base.text, target.text);
+
+  // Feedback given on the base version, so reviewers can check it was addressed
+  const feedback = (base.workflowSnapshot?.steps || [])
+    .filter((step) => step.feedback || step.comments?.length)
+    .map((step) => ({
+      stepName: step.stepName,
+      status: step.status,
+      feedback: step.feedback,
+      reviewer: step.assignee?.name || null,
+      comments: step.comments || [],
+    }));
+
+  return {
+    contentId,
+    from: { version: base.version, title: base.title, workflowOutcome: base.workflowOutcome, createdAt: base.createdAt },
+    to: { version: target.version, title: target.title, workflowOutcome: target.workflowOutcome, createdAt: target.createdAt },
+    titleChanged: base.title !== target.title,
+    renditionChanged: base.rendition !== target.rendition,
+    segments,
+    stats: diffStats(segments),
+    feedback,
+  };
+}
+
+module.exports = { recordVersion, archiveWorkflow, diffContentVersions };
@@ -0,0 +1,178 @@
+/**
+ * Design Sync Service
+ *
+ * Keeps the add-on's Design/Log tracking records in step with the Content
+ * workflow. A Design is keyed by the Express document id; once it is linked to
+ * the Content it was submitted as, its status follows the content's and every
+ * workflow event on that content is appended to the design's Log timeline:
+ *
+ *   Content: DRAFT → PENDING_REVIEW/IN_REVIEW → APPROVED → PUBLISHED
+ *   Design:  DRAFT → PENDING                  → APPROVED → PUBLISHED
+ *                    ↘ CHANGES_REQUESTED (resubmitting updates the same content)
+ *
+ * A design belongs to whoever first submitted it (the content's creator once
+ * linked). Only the owner or an ADMIN may resubmit it; reviewers may view it.
+ */
+
+const prisma = require("../lib/prisma");
+
+const DESIGN_STATUS = {
+  DRAFT: "DRAFT",
+  PENDING_REVIEW: "PENDING",
+  IN_REVIEW: "PENDING",
+  CHANGES_REQUESTED: "CHANGES_REQUESTED",
+  APPROVED: "APPROVED",
+  PUBLISHED: "PUBLISHED",
+};
+
+/**
+ * Design status for a content status
+ */
+function designStatus(contentStatus) {
+  return DESIGN_STATUS[contentStatus] || "PENDING";
+}
+
+/**
+ * May the user resubmit (or link) this design? Designs without an owner predate ownership.
+ */
+function canSubmitDesign(user, design) {
+  return !design?.ownerId || design.ownerId === user.id || user.role === "ADMIN";
+}
+
+/**
+ * May the user see this design's status and timeline?
+ */
+function canViewDesign(user, design) {
+  return canSubmitDesign(user, design) || user.role !== "DESIGNER";
+}
+
+/**
+ * Link a design to the content it was submitted as
+ *
+ * A SUBMITTED entry is logged when the link is new; resubmitting the same
+ * content is logged by the workflow (see logContentEvent).
+ *
+ * @param {{adobeId: string, content: object, snapshot?: string, text?: string, complianceResult?: object}} submission
+ * @param {string|null} actorId - Who submitted
+ */
+async function linkDesign({ adobeId, content, snapshot, text, complianceResult }, actorId) {
+  const existing = await prisma.design.findUnique({ where: { adobeId } });
+
+  // A content row belongs to one design
+  await prisma.design.updateMany({
+    where: { contentId: content.id, adobeId: { not: adobeId } },
+    data: { contentId: null },
+  });
+
+  const fields = {
+    status: designStatus(content.status),
+    contentId: content.id,
+    ownerId: existing?.ownerId || content.creatorId,
+    snapshot: snapshot || undefined,
+    text: text || content.text,
+    complianceResult: complianceResult || content.complianceResult || undefined,
+  };
+  const design = await prisma.design.upsert({
+    where: { adobeId },
+    update: fields,
+    create: { adobeId, ...fields },
+  });
+
+  if (existing?.contentId !== content.id) {
+    await prisma.log.create({
+      data: { designId: design.id, action: "SUBMITTED", actorId },
+    });
+  }
+  return design;
+}
+
+/**
+ * Mirror a workflow event onto the content's design, if it has one
+ *
+ * Tracking must never fail the workflow action, so errors are only logged.
+ *
+ * @param {string} contentId
+ * @param {string} action - e.g. SUBMITTED, STEP_APPROVED, APPROVED, REJECTED, COMMENTED, PUBLISHED
+ * @param {{actorId?: string, feedback?: string, stepName?: string}} [details]
+ */
+async function logContentEvent(contentId, action, { actorId = null, feedback = null, stepName = null } = {}) {
+  try {
+    const design = await prisma.design.findUnique({
+      where: { contentId },
+      include: { content: { select: { status: true } } },
+    });
+    if (!design) return null;
+
+    await prisma.$transaction([
+      prisma.design.update({
+        where: { id: design.id },
+        data: { status: designStatus(design.content.status) },
+      }),
+      prisma.log.create({
+        data: { designId: design.id, action, feedback, stepName, actorId },
+      }),
+    ]);
+    return design;
+  } catch (error) {
+    console.warn(`⚠️ [DesignSync] Could not log ${action} for content ${contentId}:`, error.message);
+    return null;
+  }
+}
+
+/**
+ * A design's status, linked content and timeline (newest first)
+ *
+ * @returns {Promise<object|null>}
+ */
+async function getDesignStatus(adobeId) {
+  const design = await prisma.design.findUnique({
+    where: { adobeId },
+    include: {
+      logs: {
+        orderBy: { createdAt: "desc" },
+        include: { actor: { select: { name: true, role: true } } },
+      },
+      content: {
+        select: {
+          id: true,
+          title: true,
+          version: true,
+          status: true,
+          workflow: {
+            select: {
+              steps: {
+                where: { status: "IN_PROGRESS" },
+                orderBy: { stepNumber: "asc" },
+                select: { stepName: true, requiredRole: true },
+              },
+            },
+          },
+        },
+      },
+    },
+  });
+  if (!design) return null;
+
+  const { content, ...rest } = design;
+  return {
+    ...rest,
+    // The content workflow is the source of truth once linked
+    status: content ? designStatus(content.status) : design.status,
+    content: content && {
+      id: content.id,
+      title: content.title,
+      version: content.version,
+      status: content.status,
+      pendingSteps: content.workflow?.steps || [],
+    },
+  };
+}
+
+module.exports = {
+  designStatus,
+  canSubmitDesign,
+  canViewDesign,
+  linkDesign,
+  logContentEvent,
+  getDesignStatus,
+};
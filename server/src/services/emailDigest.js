@@ -0,0 +1,201 @@
+/**
+ * Email Digest Service
+ *
+ * Reviewers don't live in Adobe Express, so every EMAIL_DIGEST_INTERVAL_MS the
+ * worker emails each user one summary of their unread notifications that have
+ * not been emailed yet, plus (for reviewers) how many steps are waiting on
+ * their role. Notifications are marked `emailedAt` once sent, so each appears
+ * in one digest; a failed send is retried on the next run. When the server
+ * rejects the recipient or message outright (5xx), the error is stored in
+ * `emailError` and those notifications are not tried again. A 5xx anywhere else
+ * (sender, credentials) or a refused unencrypted login is a configuration
+ * problem: the run stops and nothing is marked.
+ *
+ * Disabled unless SMTP_HOST is set.
+ */
+
+const prisma = require("../lib/prisma");
+const { sendMail } = require("../lib/smtp");
+const { withRetry } = require("../lib/retry");
+
+const MAX_ITEMS = 20;
+// Commands whose permanent failure is about this recipient or message, not the server setup
+const PER_MESSAGE_COMMANDS = ["RCPT", "DATA", "message"];
+
+function smtpConfig() {
+  return {
+    host: process.env.SMTP_HOST,
+    port: Number(process.env.SMTP_PORT || 587),
+    secure: process.env.SMTP_SECURE === "true",
+    user: process.env.SMTP_USER || undefined,
+    pass: process.env.SMTP_PASS || undefined,
+    allowInsecureAuth: process.env.SMTP_ALLOW_INSECURE === "true",
+    from: process.env.SMTP_FROM || "Veritas <veritas@localhost>",
+  };
+}
+
+/**
+ * Subject and body of one user's digest
+ *
+ * @param {{name: string}} user
+ * @param {Array<{message, data, createdAt}>} notifications - Oldest first
+ * @param {number} waiting - Steps waiting on the user's role
+ */
+function composeDigest(user, notifications, waiting) {
+  const lines = [`Hi ${user.name},`, ""];
+
+  if (waiting > 0) {
+    lines.push(`${waiting} item(s) are waiting for your review.`, "");
+  }
+  if (notifications.length > 0) {
+    lines.push("Since your last digest:");
+    for (const notification of notifications.slice(-MAX_ITEMS)) {
+      lines.push(`  • ${notification.message} (${notification.createdAt.toUTCString()})`);
+      const detail = notification.data?.feedback || notification.data?.text;
+      if (detail) lines.push(`      "${detail}"`);
+    }
+    if (notifications.length > MAX_ITEMS) {
+      lines.push(`  ...and ${notifications.length - MAX_ITEMS} earlier update(s)`);
+    }
+    lines.push("");
+  }
+  lines.push("Open the Veritas add-on in Adobe Express to review and reply.");
+
+  return {
+    subject:
+      waiting > 0
+        ? `Veritas: ${waiting} item(s) waiting for your review`
+        : `Veritas: ${notifications.length} update(s) on your content`,
+    text: lines.join("\n"),
+  };
+}
+
+function isPermanent(error) {
+  return error.responseCode >= 500;
+}
+
+class EmailDigest {
+  constructor() {
+    this.timer = null;
+    this.running = false;
+    this.intervalMs = Number(process.env.EMAIL_DIGEST_INTERVAL_MS || 60 * 60 * 1000);
+  }
+
+  get enabled() {
+    return Boolean(process.env.SMTP_HOST);
+  }
+
+  start() {
+    if (this.timer) return;
+    if (!this.enabled) {
+      console.log("✉️ [EmailDigest] SMTP_HOST not set, email digests disabled");
+      return;
+    }
+    this.schedule();
+    console.log(`👷 [EmailDigest] Sending digests every ${Math.round(this.intervalMs / 60000)} min`);
+  }
+
+  stop() {
+    clearTimeout(this.timer);
+    this.timer = null;
+  }
+
+  schedule(delay = this.intervalMs) {
+    clearTimeout(this.timer);
+    this.timer = setTimeout(() => this.tick(), delay);
+  }
+
+  async tick() {
+    if (this.running) return;
+    this.running = true;
+    try {
+      await this.sendDigests();
+    } catch (error) {
+      console.error("❌ [EmailDigest] Run failed:", error.message);
+    } finally {
+      this.running = false;
+      if (this.timer) this.schedule();
+    }
+  }
+
+  /**
+   * Email every user with something new
+   *
+   * @returns {Promise<{sent: number, failed: number}>}
+   */
+  async sendDigests() {
+    const pending = await prisma.notification.findMany({
+      where: { readAt: null, emailedAt: null, emailError: null, user: { isActive: true } },
+      orderBy: { id: "asc" },
+      include: { user: { select: { id: true, name: true, email: true, role: true } } },
+    });
+
+    const byUser = new Map();
+    for (const notification of pending) {
+      const entry = byUser.get(notification.userId) || { user: notification.user, notifications: [] };
+      entry.notifications.push(notification);
+      byUser.set(notification.userId, entry);
+    }
+
+    let sent = 0;
+    let failed = 0;
+    for (const { user, notifications } of byUser.values()) {
+      try {
+        await this.sendDigest(user, notifications);
+        sent++;
+      } catch (error) {
+        const configProblem =
+          error.code === "SMTP_INSECURE_AUTH" ||
+          (isPermanent(error) && !PER_MESSAGE_COMMANDS.includes(error.command));
+        if (configProblem) {
+          console.error("❌ [EmailDigest] SMTP configuration problem, skipping this run:", error.message);
+          break;
+        }
+        failed++;
+        if (isPermanent(error)) {
+          await prisma.notification.updateMany({
+            where: { id: { in: notifications.map((notification) => notification.id) } },
+            data: { emailError: error.message.slice(0, 500) },
+          });
+          console.warn(`⚠️ [EmailDigest] Digest to ${user.email} rejected, not retrying:`, error.message);
+        } else {
+          console.warn(`⚠️ [EmailDigest] Digest to ${user.email} failed:`, error.message);
+        }
+      }
+    }
+
+    if (sent + failed > 0) {
+      console.log(`✉️ [EmailDigest] Sent ${sent} digest(s)${failed ? `, ${failed} failed` : ""}`);
+    }
+    return { sent, failed };
+  }
+
+  async sendDigest(user, notifications) {
+    const waiting =
+      user.role === "DESIGNER"
+        ? 0
+        : await prisma.approvalStep.count({
+            where: {
+              status: "IN_PROGRESS",
+              ...(user.role !== "ADMIN" && { requiredRole: user.role }),
+              workflow: { content: { creatorId: { not: user.id } } },
+            },
+          });
+
+    const { subject, text } = composeDigest(user, notifications, waiting);
+    const config = smtpConfig();
+    await withRetry(() => sendMail({ ...config, to: user.email, subject, text }), {
+      retries: 2,
+      baseDelayMs: 2000,
+      // Rejected addresses and bad credentials won't fix themselves
+      shouldRetry: (error) => !isPermanent(error) && error.code !== "SMTP_INSECURE_AUTH",
+    });
+
+    await prisma.notification.updateMany({
+      where: { id: { in: notifications.map((notification) => notification.id) } },
+      data: { emailedAt: new Date() },
+    });
+  }
+}
+
+module.exports = new EmailDigest();
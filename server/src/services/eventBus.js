@@ -0,0 +1,233 @@
+/**
+ * Event Bus Service
+ *
+ * Workflow routes publish events here; each event is sent to the registered
+ * webhooks (see webhooks.js), stored as one Notification per recipient and
+ * pushed to that user's open streams (GET /api/notifications/stream). Unread
+ * notifications also go out in the email digest (see emailDigest.js).
+ *
+ *   content.submitted  - reviewers of the open stage
+ *   step.approved      - the creator, and the next stage's reviewers when it advanced
+ *   step.rejected      - the creator, and reviewers still deciding the stage
+ *   comment.added      - the creator and the stage's reviewers
+ *   content.published  - the creator
+ *   step.reminder      - the step's reviewers, when its SLA deadline is near
+ *   step.overdue       - the step's reviewers and the creator
+ *   step.escalated     - the step's new reviewers and the creator
+ *   step.assigned      - the new assignee, when a step is reassigned
+ *
+ * Recipients are the content's creator plus the reviewers of each open step
+ * (its assignee, or active users with its role when it is unassigned), never
+ * the user who caused the event. The SLA events are published
+ * by the scheduler (no actor) to the recipients it picks. Notification ids increase,
+ * so a client that reconnects with the last id it saw gets what it missed - or,
+ * when it missed more than REPLAY_LIMIT, is told to reload its notifications.
+ *
+ * Live delivery is in-process: with several server processes, a client only
+ * gets live events published by the process it is connected to (the rest
+ * arrive on its next reconnect).
+ */
+
+const { EventEmitter } = require("events");
+const prisma = require("../lib/prisma");
+const webhooks = require("./webhooks");
+
+const REPLAY_LIMIT = 100;
+
+const MESSAGES = {
+  "content.submitted": ({ title }) => `"${title}" was submitted for review`,
+  "step.approved": ({ title, actor, stepName, outcome }) =>
+    outcome === "COMPLETED" ? `"${title}" was approved` : `${actor} approved ${stepName} for "${title}"`,
+  "step.rejected": ({ title, actor, stepName, outcome }) =>
+    outcome === "CHANGES_REQUESTED"
+      ? `${actor} requested changes on "${title}"`
+      : `${actor} rejected ${stepName} for "${title}"`,
+  "comment.added": ({ title, actor }) => `${actor} commented on "${title}"`,
+  "content.published": ({ title }) => `"${title}" was published`,
+  "step.reminder": ({ title, stepName, dueAt }) =>
+    `${stepName} for "${title}" is due ${new Date(dueAt).toUTCString()}`,
+  "step.overdue": ({ title, stepName }) => `${stepName} for "${title}" is overdue`,
+  "step.escalated": ({ title, stepName, escalatedTo }) =>
+    `${stepName} for "${title}" is overdue and was escalated to ${escalatedTo}`,
+  "step.assigned": ({ title, actor, stepName }) => `${actor} assigned you ${stepName} for "${title}"`,
+};
+
+class EventBus {
+  constructor() {
+    this.emitter = new EventEmitter();
+    this.emitter.setMaxListeners(0); // One listener per open stream
+  }
+
+  /**
+   * Event types that can be published (and subscribed to by webhooks)
+   */
+  get eventTypes() {
+    return Object.keys(MESSAGES);
+  }
+
+  /**
+   * Users to notify about an event on a content row
+   */
+  async recipients(content, actorId) {
+    const openSteps = content.workflow?.steps || [];
+    const assignees = openSteps.map((step) => step.assigneeId).filter(Boolean);
+    const poolRoles = [
+      ...new Set(openSteps.filter((step) => !step.assigneeId).map((step) => step.requiredRole)),
+    ];
+    const reviewers = poolRoles.length
+      ? await prisma.user.findMany({
+          where: { role: { in: poolRoles }, isActive: true },
+          select: { id: true },
+        })
+      : [];
+
+    const ids = new Set([content.creatorId, ...assignees, ...reviewers.map((user) => user.id)]);
+    ids.delete(actorId);
+    return [...ids];
+  }
+
+  /**
+   * Queue the event for webhooks
+   */
+  async sendToWebhooks(type, content, actor, details) {
+    try {
+      await webhooks.dispatch(type, {
+        event: type,
+        occurredAt: new Date().toISOString(),
+        content: {
+          id: content.id,
+          title: content.title,
+          status: content.status,
+          version: content.version,
+          category: content.category,
+        },
+        actor: actor && { id: actor.id, name: actor.name, role: actor.role },
+        data: details,
+      });
+    } catch (error) {
+      console.warn(`⚠️ [EventBus] Could not queue webhooks for ${type}:`, error.message);
+    }
+  }
+
+  /**
+   * Store and push a workflow event
+   *
+   * Notifying must never fail the workflow action, so errors are only logged.
+   *
+   * @param {string} type - One of the keys of MESSAGES
+   * @param {{contentId: string, actor: {id, name}|null, recipientIds?: string[], stepName?: string, outcome?: string, feedback?: string}} event
+   *   `recipientIds` replaces the default recipients
+   * @returns {Promise<Array>} The notifications created
+   */
+  async publish(type, { contentId, actor = null, recipientIds, ...details }) {
+    try {
+      const content = await prisma.content.findUnique({
+        where: { id: contentId },
+        select: {
+          id: true,
+          title: true,
+          status: true,
+          version: true,
+          category: true,
+          creatorId: true,
+          workflow: {
+            select: {
+              steps: { where: { status: "IN_PROGRESS" }, select: { requiredRole: true, assigneeId: true } },
+            },
+          },
+        },
+      });
+      if (!content) return [];
+      await this.sendToWebhooks(type, content, actor, details);
+
+      const userIds = recipientIds || (await this.recipients(content, actor?.id));
+      if (userIds.length === 0) return [];
+
+      const message = MESSAGES[type]({ title: content.title, actor: actor?.name, ...details });
+      const notifications = await prisma.$transaction(
+        userIds.map((userId) =>
+          prisma.notification.create({
+            data: { userId, type, message, contentId, actorId: actor?.id ?? null, data: details },
+          })
+        )
+      );
+
+      for (const notification of notifications) {
+        this.emitter.emit(notification.userId, "notification", notification);
+      }
+      console.log(`🔔 [EventBus] ${type} on ${contentId} → ${notifications.length} user(s)`);
+      return notifications;
+    } catch (error) {
+      console.warn(`⚠️ [EventBus] Could not publish ${type} for content ${contentId}:`, error.message);
+      return [];
+    }
+  }
+
+  /**
+   * Receive a user's live events
+   *
+   * @param {string} userId
+   * @param {(event: "notification"|"read", data: object) => void} listener
+   * @returns {() => void} Unsubscribe
+   */
+  subscribe(userId, listener) {
+    this.emitter.on(userId, listener);
+    return () => this.emitter.off(userId, listener);
+  }
+
+  /**
+   * Notifications created after `afterId`, oldest first
+   *
+   * More than REPLAY_LIMIT are not replayed: `truncated` is set instead, with
+   * the user's latest notification id to resume the stream from.
+   *
+   * @returns {Promise<{notifications: Array, truncated: boolean, latestId?: number}>}
+   */
+  async replay(userId, afterId) {
+    const missed = await prisma.notification.findMany({
+      where: { userId, id: { gt: afterId } },
+      orderBy: { id: "asc" },
+      take: REPLAY_LIMIT + 1,
+    });
+    if (missed.length <= REPLAY_LIMIT) return { notifications: missed, truncated: false };
+
+    const latest = await prisma.notification.findFirst({
+      where: { userId },
+      orderBy: { id: "desc" },
+      select: { id: true },
+    });
+    return { notifications: [], truncated: true, latestId: latest.id };
+  }
+
+  /**
+   * Latest notifications, newest first
+   */
+  async list(userId, { unreadOnly = false, limit = 20 } = {}) {
+    return prisma.notification.findMany({
+      where: { userId, ...(unreadOnly && { readAt: null }) },
+      orderBy: { id: "desc" },
+      take: limit,
+    });
+  }
+
+  async unreadCount(userId) {
+    return prisma.notification.count({ where: { userId, readAt: null } });
+  }
+
+  /**
+   * Mark notifications read (all of them when `ids` is omitted)
+   *
+   * The user's other open streams get a `read` event with the new unread count.
+   */
+  async markRead(userId, ids) {
+    await prisma.notification.updateMany({
+      where: { userId, readAt: null, ...(ids && { id: { in: ids } }) },
+      data: { readAt: new Date() },
+    });
+    const unreadCount = await this.unreadCount(userId);
+    this.emitter.emit(userId, "read", { ids: ids || null, unreadCount });
+    return unreadCount;
+  }
+}
+
+module.exports = new EventBus();
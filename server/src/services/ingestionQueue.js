@@ -0,0 +1,212 @@
+/**
+ * Ingestion Queue Service
+ *
+ * Uploads only enqueue a persisted IngestionJob; a background worker in the
+ * server process picks jobs up one at a time and moves them through:
+ *
+ *   QUEUED → EXTRACTING → EMBEDDING → INDEXED
+ *                 ↘            ↘
+ *                  FAILED ←──────
+ *
+ * Progress (processedChunks / totalChunks) is written to the job as batches
+ * are embedded, so clients can poll GET /api/documents/:id/status.
+ */
+
+const path = require("path");
+const prisma = require("../lib/prisma");
+const vectorStore = require("./vectorStore");
+const { extractText } = require("./textExtractor");
+
+const uploadDir = path.join(__dirname, "../../uploads");
+const ACTIVE_STATUSES = ["EXTRACTING", "EMBEDDING"];
+
+class IngestionQueue {
+  constructor() {
+    this.timer = null;
+    this.running = false;
+    this.pollIntervalMs = Number(process.env.INGESTION_POLL_MS || 2000);
+  }
+
+  /**
+   * Create a job for a document
+   */
+  async enqueue(documentId) {
+    const job = await prisma.ingestionJob.create({
+      data: { documentId, status: "QUEUED" },
+    });
+    console.log(`📬 [IngestionQueue] Queued job ${job.id} for document ${documentId}`);
+    this.poke();
+    return job;
+  }
+
+  /**
+   * Start the worker loop. Jobs interrupted by a restart are re-queued.
+   */
+  async start() {
+    if (this.timer) return;
+
+    try {
+      const { count } = await prisma.ingestionJob.updateMany({
+        where: { status: { in: ACTIVE_STATUSES } },
+        data: { status: "QUEUED" },
+      });
+      if (count > 0) {
+        console.log(`♻️ [IngestionQueue] Re-queued ${count} interrupted job(s)`);
+      }
+    } catch (error) {
+      console.warn("⚠️ [IngestionQueue] Could not recover jobs:", error.message);
+    }
+
+    this.schedule();
+    console.log("👷 [IngestionQueue] Worker started");
+  }
+
+  stop() {
+    clearTimeout(this.timer);
+    this.timer = null;
+  }
+
+  schedule(delay = this.pollIntervalMs) {
+    clearTimeout(this.timer);
+    this.timer = setTimeout(() => this.tick(), delay);
+  }
+
+  /**
+   * Run the next tick right away (used after enqueue)
+   */
+  poke() {
+    if (this.timer && !this.running) this.schedule(0);
+  }
+
+  async tick() {
+    if (this.running) return;
+    this.running = true;
+    try {
+      // Drain the queue before going back to sleep
+      while (await this.processNext()) {}
+    } catch (error) {
+      console.error("❌ [IngestionQueue] Worker error:", error.message);
+    } finally {
+      this.running = false;
+      if (this.timer) this.schedule();
+    }
+  }
+
+  /**
+   * Claim and process the oldest queued job
+   *
+   * @returns {Promise<boolean>} true if a job was processed
+   */
+  async processNext() {
+    const next = await prisma.ingestionJob.findFirst({
+      where: { status: "QUEUED" },
+      orderBy: { createdAt: "asc" },
+    });
+    if (!next) return false;
+
+    // Claim atomically so two workers never process the same job
+    const { count } = await prisma.ingestionJob.updateMany({
+      where: { id: next.id, status: "QUEUED" },
+      data: {
+        status: "EXTRACTING",
+        startedAt: new Date(),
+        attempts: { increment: 1 },
+        error: null,
+      },
+    });
+    if (count === 0) return true;
+
+    await this.processJob(next.id, next.documentId);
+    return true;
+  }
+
+  async processJob(jobId, documentId) {
+    const document = await prisma.document.findUnique({ where: { id: documentId } });
+    if (!document) {
+      await this.fail(jobId, "Document was deleted");
+      return;
+    }
+
+    // 1. Extract text
+    let extracted;
+    try {
+      extracted = await extractText(
+        path.join(uploadDir, document.filename),
+        document.mimeType,
+        document.originalName
+      );
+      if (!extracted.text) {
+        throw new Error("No text could be extracted from this file");
+      }
+      await prisma.document.update({
+        where: { id: documentId },
+        data: {
+          textContent: extracted.text,
+          pageCount: extracted.pages ? extracted.pages.length : null,
+          extractionStatus: "EXTRACTED",
+          extractionError: null,
+        },
+      });
+    } catch (error) {
+      console.error(`⚠️ [IngestionQueue] Extraction failed for ${documentId}:`, error.message);
+      await prisma.document.update({
+        where: { id: documentId },
+        data: { extractionStatus: "FAILED", extractionError: error.message },
+      });
+      await this.fail(jobId, `Extraction failed: ${error.message}`);
+      return;
+    }
+
+    // 2. Embed + index
+    try {
+      await prisma.ingestionJob.update({
+        where: { id: jobId },
+        data: { status: "EMBEDDING" },
+      });
+
+      // A reindex replaces the chunks of the earlier run instead of adding to them
+      await vectorStore.deleteDocument(documentId);
+      await vectorStore.indexDocument(
+        documentId,
+        extracted.text,
+        {
+          filename: document.filename,
+          originalName: document.originalName,
+          source: "user_upload",
+        },
+        {
+          pages: extracted.pages,
+          onProgress: (processed, total) =>
+            prisma.ingestionJob.update({
+              where: { id: jobId },
+              data: { processedChunks: processed, totalChunks: total },
+            }),
+        }
+      );
+
+      await prisma.document.update({
+        where: { id: documentId },
+        data: { vectorId: documentId },
+      });
+      await prisma.ingestionJob.update({
+        where: { id: jobId },
+        data: { status: "INDEXED", finishedAt: new Date() },
+      });
+      console.log(`✅ [IngestionQueue] Job ${jobId} indexed`);
+    } catch (error) {
+      await this.fail(jobId, `Indexing failed: ${error.message}`);
+    }
+  }
+
+  async fail(jobId, message) {
+    console.error(`❌ [IngestionQueue] Job ${jobId} failed: ${message}`);
+    await prisma.ingestionJob
+      .update({
+        where: { id: jobId },
+        data: { status: "FAILED", error: message, finishedAt: new Date() },
+      })
+      .catch(() => {});
+  }
+}
+
+module.exports = new IngestionQueue();
@@ -0,0 +1,76 @@
+/**
+ * Issue Stream Parser
+ *
+ * Pulls complete objects out of the "issues" array of a JSON response while it
+ * is still streaming in, so each issue can be shown as soon as the model has
+ * finished writing it:
+ *
+ *   const parser = new IssueStreamParser();
+ *   for await (const chunk of stream) {
+ *     for (const issue of parser.push(chunk)) { ... }
+ *   }
+ *
+ * Markdown fences or prose around the JSON are ignored.
+ */
+
+class IssueStreamParser {
+  constructor() {
+    this.buffer = "";
+    this.pos = -1; // Scan position inside the issues array (-1 until it is found)
+    this.depth = 0;
+    this.inString = false;
+    this.escaped = false;
+    this.objectStart = -1;
+    this.done = false;
+  }
+
+  /**
+   * @param {string} chunk - Next piece of the response
+   * @returns {Array<object>} Issues completed by this chunk
+   */
+  push(chunk) {
+    this.buffer += chunk;
+    const issues = [];
+    if (this.done) return issues;
+
+    if (this.pos === -1) {
+      const match = /"issues"\s*:\s*\[/.exec(this.buffer);
+      if (!match) return issues;
+      this.pos = match.index + match[0].length;
+    }
+
+    for (; this.pos < this.buffer.length; this.pos++) {
+      const char = this.buffer[this.pos];
+
+      if (this.inString) {
+        if (this.escaped) this.escaped = false;
+        else if (char === "\\") this.escaped = true;
+        else if (char === '"') this.inString = false;
+        continue;
+      }
+
+      if (char === '"') {
+        this.inString = true;
+      } else if (char === "{") {
+        if (this.depth === 0) this.objectStart = this.pos;
+        this.depth++;
+      } else if (char === "}") {
+        this.depth--;
+        if (this.depth === 0) {
+          try {
+            issues.push(JSON.parse(this.buffer.slice(this.objectStart, this.pos + 1)));
+          } catch {
+            // Malformed item: the full-response parse decides what to do with it
+          }
+        }
+      } else if (char === "]" && this.depth === 0) {
+        this.done = true;
+        break;
+      }
+    }
+
+    return issues;
+  }
+}
+
+module.exports = IssueStreamParser;
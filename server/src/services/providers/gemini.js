@@ -0,0 +1,120 @@
+/**
+ * Gemini Provider
+ *
+ * Google Generative AI for both text generation and embeddings.
+ */
+
+const { GoogleGenerativeAI } = require("@google/generative-ai");
+
+/**
+ * JSON schema → Gemini response schema (an OpenAPI subset: string enums need
+ * `format: "enum"`)
+ */
+function toResponseSchema(schema) {
+  const converted = { ...schema };
+  if (schema.enum) converted.format = "enum";
+  if (schema.items) converted.items = toResponseSchema(schema.items);
+  if (schema.properties) {
+    converted.properties = Object.fromEntries(
+      Object.entries(schema.properties).map(([key, value]) => [key, toResponseSchema(value)])
+    );
+  }
+  return converted;
+}
+
+class GeminiProvider {
+  constructor(config = {}) {
+    this.name = "gemini";
+    this.supportsGeneration = true;
+    this.apiKey = config.apiKey || process.env.GOOGLE_API_KEY;
+    this.model = config.model || process.env.GEMINI_MODEL || "gemini-flash-latest";
+    this.embeddingModelName =
+      config.embeddingModel || process.env.GEMINI_EMBEDDING_MODEL || "text-embedding-004";
+    this.genAI = null;
+  }
+
+  client() {
+    if (!this.apiKey) throw new Error("GOOGLE_API_KEY missing");
+    if (!this.genAI) {
+      this.genAI = new GoogleGenerativeAI(this.apiKey);
+    }
+    return this.genAI;
+  }
+
+  /**
+   * @param {object} [schema] - JSON schema the response must follow (JSON mode)
+   */
+  generativeModel(schema) {
+    return this.client().getGenerativeModel({
+      model: this.model,
+      ...(schema && {
+        generationConfig: {
+          responseMimeType: "application/json",
+          responseSchema: toResponseSchema(schema),
+        },
+      }),
+    });
+  }
+
+  /**
+   * Generate a completion for a single prompt
+   *
+   * @param {string} prompt
+   * @param {object} [options]
+   * @param {AbortSignal} [options.signal]
+   * @param {object} [options.schema] - JSON schema for structured output
+   * @returns {Promise<string>} Raw response text
+   */
+  async generate(prompt, { signal, schema } = {}) {
+    const model = this.generativeModel(schema);
+    const result = await model.generateContent(prompt, { signal });
+    return result.response.text();
+  }
+
+  /**
+   * Stream a completion as it is generated
+   *
+   * @param {string} prompt
+   * @param {object} [options]
+   * @param {AbortSignal} [options.signal]
+   * @param {object} [options.schema] - JSON schema for structured output
+   * @returns {AsyncGenerator<string>} Text chunks
+   */
+  async *generateStream(prompt, { signal, schema } = {}) {
+    const model = this.generativeModel(schema);
+    const result = await model.generateContentStream(prompt, { signal });
+    for await (const chunk of result.stream) {
+      yield chunk.text();
+    }
+  }
+
+  /**
+   * Generate an embedding vector for text
+   *
+   * @param {string} text
+   * @returns {Promise<number[]>}
+   */
+  async embed(text) {
+    const model = this.client().getGenerativeModel({ model: this.embeddingModelName });
+    const result = await model.embedContent(text);
+    return result.embedding?.values || result.embedding || result;
+  }
+
+  /**
+   * Embed several texts in one request
+   *
+   * @param {string[]} texts
+   * @returns {Promise<number[][]>}
+   */
+  async embedBatch(texts) {
+    const model = this.client().getGenerativeModel({ model: this.embeddingModelName });
+    const result = await model.batchEmbedContents({
+      requests: texts.map((text) => ({
+        content: { role: "user", parts: [{ text }] },
+      })),
+    });
+    return result.embeddings.map((embedding) => embedding.values);
+  }
+}
+
+module.exports = GeminiProvider;
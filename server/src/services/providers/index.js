@@ -0,0 +1,73 @@
+/**
+ * Provider Registry
+ *
+ * Picks the generation (LLM) and embedding providers from env config:
+ *
+ *   LLM_PROVIDER=gemini|openai|local
+ *   EMBEDDING_PROVIDER=gemini|openai|local
+ *
+ * Both default to "gemini" when GOOGLE_API_KEY is set, otherwise "local".
+ */
+
+require("dotenv").config();
+const GeminiProvider = require("./gemini");
+const OpenAICompatibleProvider = require("./openaiCompatible");
+const LocalProvider = require("./local");
+
+const PROVIDERS = {
+  gemini: GeminiProvider,
+  openai: OpenAICompatibleProvider,
+  local: LocalProvider,
+};
+
+let llmProvider = null;
+let embeddingProvider = null;
+
+function defaultProviderName() {
+  return process.env.GOOGLE_API_KEY ? "gemini" : "local";
+}
+
+function createProvider(name) {
+  const Provider = PROVIDERS[name];
+  if (!Provider) {
+    throw new Error(
+      `Unknown provider "${name}". Expected one of: ${Object.keys(PROVIDERS).join(", ")}`
+    );
+  }
+  return new Provider();
+}
+
+/**
+ * Provider used for compliance analysis
+ */
+function getLLMProvider() {
+  if (!llmProvider) {
+    llmProvider = createProvider(
+      (process.env.LLM_PROVIDER || defaultProviderName()).toLowerCase()
+    );
+    console.log(`🤖 [Providers] LLM provider: ${llmProvider.name} (${llmProvider.model})`);
+  }
+  return llmProvider;
+}
+
+/**
+ * Provider used for document and query embeddings
+ */
+function getEmbeddingProvider() {
+  if (!embeddingProvider) {
+    embeddingProvider = createProvider(
+      (process.env.EMBEDDING_PROVIDER || defaultProviderName()).toLowerCase()
+    );
+    console.log(
+      `🧬 [Providers] Embedding provider: ${embeddingProvider.name} (${embeddingProvider.embeddingModelName})`
+    );
+  }
+  return embeddingProvider;
+}
+
+module.exports = {
+  PROVIDERS,
+  createProvider,
+  getLLMProvider,
+  getEmbeddingProvider,
+};
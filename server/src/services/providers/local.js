@@ -0,0 +1,64 @@
+/**
+ * Local Provider (offline, deterministic)
+ *
+ * - Embeddings: feature hashing of word unigrams + bigrams into a fixed-size,
+ *   L2-normalized vector. No network, same input always gives the same vector.
+ * - Generation: not supported. The compliance checker runs in rule-only mode.
+ *
+ * Lets CI and air-gapped reviewers run the full compliance flow without cloud accounts.
+ */
+
+const crypto = require("crypto");
+
+class LocalProvider {
+  constructor(config = {}) {
+    this.name = "local";
+    this.supportsGeneration = false;
+    this.model = "rules-only";
+    this.embeddingModelName = "hashing";
+    this.dimension = Number(
+      config.dimension || process.env.LOCAL_EMBEDDING_DIMENSION || 768
+    );
+  }
+
+  async generate() {
+    throw new Error("Local provider does not support text generation");
+  }
+
+  tokenize(text) {
+    return (text.toLowerCase().match(/[\p{L}\p{N}%]+/gu) || []);
+  }
+
+  /**
+   * @param {string} text
+   * @returns {Promise<number[]>}
+   */
+  async embed(text) {
+    const vector = new Array(this.dimension).fill(0);
+    const tokens = this.tokenize(text);
+    const features = [...tokens];
+    for (let i = 0; i < tokens.length - 1; i++) {
+      features.push(`${tokens[i]} ${tokens[i + 1]}`);
+    }
+
+    for (const feature of features) {
+      const hash = crypto.createHash("md5").update(feature).digest();
+      const bucket = hash.readUInt32LE(0) % this.dimension;
+      const sign = hash[4] & 1 ? 1 : -1;
+      vector[bucket] += sign;
+    }
+
+    const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0));
+    return norm > 0 ? vector.map((v) => v / norm) : vector;
+  }
+
+  /**
+   * @param {string[]} texts
+   * @returns {Promise<number[][]>}
+   */
+  async embedBatch(texts) {
+    return Promise.all(texts.map((text) => this.embed(text)));
+  }
+}
+
+module.exports = LocalProvider;
@@ -0,0 +1,137 @@
+/**
+ * OpenAI-Compatible Provider
+ *
+ * Talks to any server implementing the OpenAI `/chat/completions` and `/embeddings`
+ * HTTP API (vLLM, Ollama, LM Studio, llama.cpp server, ...). Used for self-hosted models.
+ */
+
+class OpenAICompatibleProvider {
+  constructor(config = {}) {
+    this.name = "openai";
+    this.supportsGeneration = true;
+    this.baseUrl = (
+      config.baseUrl || process.env.OPENAI_BASE_URL || "http://localhost:11434/v1"
+    ).replace(/\/+$/, "");
+    this.apiKey = config.apiKey || process.env.OPENAI_API_KEY || "";
+    this.model = config.model || process.env.OPENAI_MODEL || "llama3.1";
+    this.embeddingModelName =
+      config.embeddingModel || process.env.OPENAI_EMBEDDING_MODEL || "nomic-embed-text";
+  }
+
+  async send(endpoint, body, signal) {
+    const headers = { "Content-Type": "application/json" };
+    if (this.apiKey) headers.Authorization = `Bearer ${this.apiKey}`;
+
+    const res = await fetch(`${this.baseUrl}${endpoint}`, {
+      method: "POST",
+      headers,
+      body: JSON.stringify(body),
+      signal,
+    });
+
+    if (!res.ok) {
+      const detail = await res.text().catch(() => "");
+      throw new Error(`${endpoint} failed with ${res.status}: ${detail.slice(0, 200)}`);
+    }
+    return res;
+  }
+
+  /**
+   * Chat completion body, asking for structured output when a schema is given
+   */
+  chatBody(prompt, schema, extra = {}) {
+    return {
+      model: this.model,
+      temperature: 0,
+      messages: [{ role: "user", content: prompt }],
+      ...(schema && {
+        response_format: {
+          type: "json_schema",
+          json_schema: { name: "response", schema },
+        },
+      }),
+      ...extra,
+    };
+  }
+
+  async request(endpoint, body, signal) {
+    const res = await this.send(endpoint, body, signal);
+    return res.json();
+  }
+
+  /**
+   * @param {string} prompt
+   * @param {object} [options]
+   * @param {AbortSignal} [options.signal]
+   * @param {object} [options.schema] - JSON schema for structured output
+   * @returns {Promise<string>} Raw response text
+   */
+  async generate(prompt, { signal, schema } = {}) {
+    const data = await this.request("/chat/completions", this.chatBody(prompt, schema), signal);
+    return data.choices?.[0]?.message?.content || "";
+  }
+
+  /**
+   * Stream a completion (server-sent `data:` lines with content deltas)
+   *
+   * @param {string} prompt
+   * @param {object} [options]
+   * @param {AbortSignal} [options.signal]
+   * @param {object} [options.schema] - JSON schema for structured output
+   * @returns {AsyncGenerator<string>} Text chunks
+   */
+  async *generateStream(prompt, { signal, schema } = {}) {
+    const res = await this.send(
+      "/chat/completions",
+      this.chatBody(prompt, schema, { stream: true }),
+      signal
+    );
+
+    const decoder = new TextDecoder();
+    let pending = "";
+    for await (const bytes of res.body) {
+      pending += decoder.decode(bytes, { stream: true });
+      const lines = pending.split("\n");
+      pending = lines.pop();
+
+      for (const line of lines) {
+        const data = line.replace(/^data:\s*/, "").trim();
+        if (!line.startsWith("data:") || !data || data === "[DONE]") continue;
+        const delta = JSON.parse(data).choices?.[0]?.delta?.content;
+        if (delta) yield delta;
+      }
+    }
+  }
+
+  /**
+   * @param {string} text
+   * @returns {Promise<number[]>}
+   */
+  async embed(text) {
+    const data = await this.request("/embeddings", {
+      model: this.embeddingModelName,
+      input: text,
+    });
+    const embedding = data.data?.[0]?.embedding;
+    if (!Array.isArray(embedding)) {
+      throw new Error("Embedding response did not contain a vector");
+    }
+    return embedding;
+  }
+
+  /**
+   * @param {string[]} texts
+   * @returns {Promise<number[][]>}
+   */
+  async embedBatch(texts) {
+    const data = await this.request("/embeddings", {
+      model: this.embeddingModelName,
+      input: texts,
+    });
+    return [...(data.data || [])]
+      .sort((a, b) => a.index - b.index)
+      .map((item) => item.embedding);
+  }
+}
+
+module.exports = OpenAICompatibleProvider;
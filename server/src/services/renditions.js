@@ -0,0 +1,75 @@
+/**
+ * Rendition Service
+ *
+ * Stores design renditions (PNG/JPEG/WebP exported by Adobe Express) under
+ * uploads/renditions and generates a small WebP thumbnail for list views.
+ */
+
+const path = require("path");
+const fs = require("fs/promises");
+const crypto = require("crypto");
+const sharp = require("sharp");
+
+const renditionDir = path.join(__dirname, "../../uploads/renditions");
+const THUMBNAIL_WIDTH = Number(process.env.RENDITION_THUMBNAIL_WIDTH || 480);
+
+const EXTENSIONS = {
+  "image/png": ".png",
+  "image/jpeg": ".jpg",
+  "image/webp": ".webp",
+};
+
+/**
+ * @param {string} mimeType
+ * @returns {boolean}
+ */
+function isSupportedImage(mimeType) {
+  return Boolean(EXTENSIONS[mimeType]);
+}
+
+/**
+ * Save a rendition and its thumbnail
+ *
+ * @param {string} contentId
+ * @param {number} version
+ * @param {Buffer} buffer - Uploaded image
+ * @param {string} mimeType
+ * @returns {Promise<{url: string, thumbnailUrl: string, width: number, height: number}>}
+ */
+async function saveRendition(contentId, version, buffer, mimeType) {
+  const image = sharp(buffer);
+  const metadata = await image.metadata(); // Throws on corrupt / non-image data
+
+  await fs.mkdir(renditionDir, { recursive: true });
+  const base = `${contentId}-v${version}-${crypto.randomBytes(6).toString("hex")}`;
+  const filename = `${base}${EXTENSIONS[mimeType]}`;
+  const thumbnailName = `${base}-thumb.webp`;
+
+  await fs.writeFile(path.join(renditionDir, filename), buffer);
+  await image
+    .resize({ width: THUMBNAIL_WIDTH, withoutEnlargement: true })
+    .webp({ quality: 80 })
+    .toFile(path.join(renditionDir, thumbnailName));
+
+  return {
+    url: `/uploads/renditions/${filename}`,
+    thumbnailUrl: `/uploads/renditions/${thumbnailName}`,
+    width: metadata.width,
+    height: metadata.height,
+  };
+}
+
+/**
+ * Remove rendition files (ignores files that are already gone)
+ *
+ * @param {...(string|null)} urls - URLs returned by saveRendition
+ */
+async function deleteRenditionFiles(...urls) {
+  await Promise.all(
+    urls
+      .filter((url) => url && url.startsWith("/uploads/renditions/"))
+      .map((url) => fs.unlink(path.join(renditionDir, path.basename(url))).catch(() => {}))
+  );
+}
+
+module.exports = { isSupportedImage, saveRendition, deleteRenditionFiles };
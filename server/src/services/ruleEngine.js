@@ -0,0 +1,222 @@
+/**
+ * Rule Engine Service - Deterministic PolicyRule matching
+ *
+ * Evaluates every active PolicyRule against the input text before the LLM step,
+ * so curated "known bad" phrases are always flagged with exact character offsets.
+ *
+ * Pattern types:
+ * - phrase: case-insensitive substring (whitespace between words is flexible)
+ * - word:   like phrase, but must not start/end inside another word
+ * - regex:  raw JavaScript regular expression (case-insensitive)
+ */
+
+const prisma = require("../lib/prisma");
+
+const PATTERN_TYPES = ["phrase", "word", "regex"];
+const SEVERITY_RANK = { low: 1, medium: 2, high: 3 };
+
+/**
+ * Escape a literal string for use inside a RegExp
+ */
+function escapeRegExp(value) {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/**
+ * Build a global, case-insensitive RegExp for a rule
+ *
+ * @param {{pattern: string, patternType?: string}} rule
+ * @returns {RegExp}
+ */
+function compileRule(rule) {
+  const patternType = rule.patternType || "phrase";
+
+  if (patternType === "regex") {
+    return new RegExp(rule.pattern, "gi");
+  }
+
+  const literal = rule.pattern
+    .trim()
+    .split(/\s+/)
+    .map(escapeRegExp)
+    .join("\\s+");
+
+  if (patternType === "word") {
+    // Lookarounds instead of \b so patterns like "100%" still work
+    return new RegExp(`(?<![\\p{L}\\p{N}_])${literal}(?![\\p{L}\\p{N}_])`, "giu");
+  }
+
+  return new RegExp(literal, "gi");
+}
+
+/**
+ * Validate a rule pattern before it is stored
+ *
+ * @returns {string|null} Error message, or null if valid
+ */
+function validatePattern(pattern, patternType = "phrase") {
+  if (!PATTERN_TYPES.includes(patternType)) {
+    return `patternType must be one of: ${PATTERN_TYPES.join(", ")}`;
+  }
+  if (!pattern || !pattern.trim()) {
+    return "pattern cannot be empty";
+  }
+  try {
+    const regex = compileRule({ pattern, patternType });
+    if (regex.test("")) {
+      return "pattern must not match empty text";
+    }
+  } catch (error) {
+    return error.message;
+  }
+  return null;
+}
+
+/**
+ * Load all active rules from the database
+ */
+async function loadActiveRules() {
+  return prisma.policyRule.findMany({
+    where: { isActive: true },
+  });
+}
+
+/**
+ * Run rules against text and return rule hits with exact offsets
+ *
+ * Overlapping hits are collapsed: the longer (more specific) span wins,
+ * ties go to the higher severity.
+ *
+ * @param {string} text - Text to check
+ * @param {Array} rules - PolicyRule records
+ * @returns {Array<{text, start, end, severity, category, reason, suggestion, source, ruleId, citations}>}
+ */
+function evaluateRules(text, rules) {
+  const hits = [];
+
+  for (const rule of rules) {
+    let regex;
+    try {
+      regex = compileRule(rule);
+    } catch (error) {
+      console.warn(`⚠️ [RuleEngine] Skipping invalid rule ${rule.id}: ${error.message}`);
+      continue;
+    }
+
+    let match;
+    while ((match = regex.exec(text)) !== null) {
+      if (match[0].length === 0) {
+        regex.lastIndex++;
+        continue;
+      }
+      hits.push({
+        text: match[0],
+        start: match.index,
+        end: match.index + match[0].length,
+        severity: rule.severity || "medium",
+        category: rule.category || "general",
+        reason: rule.reason,
+        suggestion: rule.suggestion,
+        source: "rule",
+        ruleId: rule.id,
+        citations: [],
+      });
+    }
+  }
+
+  // Prefer longer spans, then higher severity
+  hits.sort(
+    (a, b) =>
+      b.end - b.start - (a.end - a.start) ||
+      (SEVERITY_RANK[b.severity] || 0) - (SEVERITY_RANK[a.severity] || 0)
+  );
+
+  const kept = [];
+  for (const hit of hits) {
+    if (!kept.some((k) => overlaps(k, hit))) {
+      kept.push(hit);
+    }
+  }
+
+  return kept.sort((a, b) => a.start - b.start);
+}
+
+function overlaps(a, b) {
+  return a.start < b.end && b.start < a.end;
+}
+
+/**
+ * Lowercase a quote and collapse its whitespace, for comparing quotes
+ */
+function normalizeQuote(value) {
+  return (value || "").trim().replace(/\s+/g, " ").toLowerCase();
+}
+
+/**
+ * Find the offsets of an AI-quoted phrase in the original text
+ *
+ * Case-insensitive, and any run of whitespace in the quote matches any run in the text.
+ *
+ * @returns {{start: number, end: number}|null}
+ */
+function locateSpan(text, quote) {
+  const words = (quote || "").trim().split(/\s+/).filter(Boolean);
+  if (words.length === 0) return null;
+  const match = new RegExp(words.map(escapeRegExp).join("\\s+"), "i").exec(text);
+  if (!match) return null;
+  return { start: match.index, end: match.index + match[0].length };
+}
+
+/**
+ * Merge rule hits with AI issues and de-duplicate
+ *
+ * Rule hits are authoritative: an AI issue that overlaps a rule hit, or quotes the
+ * same text (ignoring case and whitespace), is dropped. Duplicate AI issues are collapsed.
+ *
+ * @param {Array} ruleIssues - Output of evaluateRules
+ * @param {Array} aiIssues - Issues returned by the LLM
+ * @param {string} text - Original input text
+ * @returns {Array} Merged issues, ordered by position
+ */
+function mergeIssues(ruleIssues, aiIssues, text) {
+  const merged = [...ruleIssues];
+  const seenQuotes = new Set(ruleIssues.map((issue) => normalizeQuote(issue.text)));
+
+  for (const issue of aiIssues) {
+    const span = locateSpan(text, issue.text);
+    const quoteKey = normalizeQuote(issue.text);
+
+    if (span && merged.some((m) => m.start !== null && overlaps(m, span))) {
+      continue;
+    }
+    if (quoteKey && seenQuotes.has(quoteKey)) {
+      continue;
+    }
+    seenQuotes.add(quoteKey);
+
+    merged.push({
+      ...issue,
+      start: span ? span.start : null,
+      end: span ? span.end : null,
+      source: "ai",
+      ruleId: null,
+    });
+  }
+
+  return merged.sort((a, b) => {
+    if (a.start === null && b.start === null) return 0;
+    if (a.start === null) return 1;
+    if (b.start === null) return -1;
+    return a.start - b.start;
+  });
+}
+
+module.exports = {
+  PATTERN_TYPES,
+  compileRule,
+  validatePattern,
+  loadActiveRules,
+  evaluateRules,
+  locateSpan,
+  mergeIssues,
+};
@@ -0,0 +1,199 @@
+/**
+ * SLA Scheduler Service
+ *
+ * Every SLA_CHECK_INTERVAL_MS the worker looks at open approval steps with an
+ * SLA (see workflowEngine.js for the template settings) and, once each:
+ *
+ *   remindAt passed   → step.reminder to the step's reviewers
+ *   dueAt passed      → flags the step overdue (overdueAt), step.overdue to reviewers and creator
+ *   escalateAt passed → hands the step to the backup reviewer (or their delegate) or moves it to
+ *                       the escalation role, restarts its SLA, step.escalated to the new reviewers
+ *
+ * Each action is claimed with a conditional update, so several server
+ * processes can run the scheduler without doubling notifications.
+ */
+
+const prisma = require("../lib/prisma");
+const eventBus = require("./eventBus");
+const { logContentEvent } = require("./designSync");
+const { slaDeadlines } = require("./workflowEngine");
+const { resolveDelegate } = require("./assignment");
+
+const OPEN_STEP = { status: "IN_PROGRESS", workflow: { status: "ACTIVE" } };
+const STEP_INCLUDE = {
+  workflow: { select: { contentId: true, content: { select: { creatorId: true } } } },
+};
+
+class SlaScheduler {
+  constructor() {
+    this.timer = null;
+    this.running = false;
+    this.intervalMs = Number(process.env.SLA_CHECK_INTERVAL_MS || 5 * 60 * 1000);
+  }
+
+  start() {
+    if (this.timer) return;
+    this.schedule(0);
+    console.log(`👷 [SLA] Checking deadlines every ${Math.round(this.intervalMs / 1000)}s`);
+  }
+
+  stop() {
+    clearTimeout(this.timer);
+    this.timer = null;
+  }
+
+  schedule(delay = this.intervalMs) {
+    clearTimeout(this.timer);
+    this.timer = setTimeout(() => this.tick(), delay);
+  }
+
+  async tick() {
+    if (this.running) return;
+    this.running = true;
+    try {
+      await this.run();
+    } catch (error) {
+      console.error("❌ [SLA] Run failed:", error.message);
+    } finally {
+      this.running = false;
+      if (this.timer) this.schedule();
+    }
+  }
+
+  /**
+   * Send due reminders, flag overdue steps and escalate
+   *
+   * @returns {Promise<{reminded: number, overdue: number, escalated: number}>}
+   */
+  async run(now = new Date()) {
+    const counts = { reminded: 0, overdue: 0, escalated: 0 };
+
+    const dueSoon = await prisma.approvalStep.findMany({
+      where: { ...OPEN_STEP, remindAt: { lte: now }, remindedAt: null, dueAt: { gt: now } },
+      include: STEP_INCLUDE,
+    });
+    for (const step of dueSoon) {
+      if (await this.claim(step.id, { remindedAt: null }, { remindedAt: now })) {
+        await this.notify("step.reminder", step, await this.reviewerIds(step));
+        counts.reminded++;
+      }
+    }
+
+    const overdue = await prisma.approvalStep.findMany({
+      where: { ...OPEN_STEP, dueAt: { lte: now }, overdueAt: null },
+      include: STEP_INCLUDE,
+    });
+    for (const step of overdue) {
+      if (await this.claim(step.id, { overdueAt: null }, { overdueAt: now })) {
+        const reviewers = await this.reviewerIds(step);
+        await this.notify("step.overdue", step, [...reviewers, step.workflow.content.creatorId]);
+        counts.overdue++;
+      }
+    }
+
+    const stale = await prisma.approvalStep.findMany({
+      where: { ...OPEN_STEP, escalateAt: { lte: now } },
+      include: STEP_INCLUDE,
+    });
+    for (const step of stale) {
+      if (await this.escalate(step, now)) counts.escalated++;
+    }
+
+    if (counts.reminded + counts.overdue + counts.escalated > 0) {
+      console.log(
+        `⏰ [SLA] ${counts.reminded} reminder(s), ${counts.overdue} overdue, ${counts.escalated} escalated`
+      );
+    }
+    return counts;
+  }
+
+  /**
+   * Mark a step as handled; false when another process got there first or it was decided meanwhile
+   */
+  async claim(stepId, unset, data) {
+    const { count } = await prisma.approvalStep.updateMany({
+      where: { id: stepId, status: "IN_PROGRESS", ...unset },
+      data,
+    });
+    return count === 1;
+  }
+
+  /**
+   * Active users who can decide the step: its assignee, else everyone with its role
+   */
+  async reviewerIds(step) {
+    const users = await prisma.user.findMany({
+      where: {
+        isActive: true,
+        ...(step.assigneeId ? { id: step.assigneeId } : { role: step.requiredRole }),
+      },
+      select: { id: true },
+    });
+    return users.map((user) => user.id);
+  }
+
+  async notify(type, step, recipientIds, details = {}) {
+    await eventBus.publish(type, {
+      contentId: step.workflow.contentId,
+      actor: null,
+      recipientIds: [...new Set(recipientIds)],
+      stepId: step.id,
+      stepName: step.stepName,
+      dueAt: step.dueAt,
+      ...details,
+    });
+  }
+
+  /**
+   * Hand an overdue step to its backup reviewer, or else its escalation role
+   *
+   * The backup (or their delegate) must hold the step's role or be an ADMIN.
+   * The SLA restarts for the new reviewer, without a second escalation.
+   */
+  async escalate(step, now) {
+    const { toUserId, toRole } = step.sla?.escalation || {};
+    const backupId = toUserId ? await resolveDelegate(toUserId, now) : null;
+    const backup = backupId
+      ? await prisma.user.findFirst({ where: { id: backupId, isActive: true } })
+      : null;
+    const backupCanReview =
+      backup && backup.id !== step.workflow.content.creatorId && [step.requiredRole, "ADMIN"].includes(backup.role);
+
+    let target = null;
+    if (backupCanReview) {
+      target = { data: { assigneeId: backup.id, assignedAt: now }, label: backup.name };
+    } else if (toRole && toRole !== step.requiredRole) {
+      target = { data: { requiredRole: toRole, assigneeId: null }, label: toRole };
+    }
+
+    const { dueAt, remindAt } = slaDeadlines(step.sla, now);
+    const claimed = await this.claim(
+      step.id,
+      { escalateAt: step.escalateAt },
+      target
+        ? { ...target.data, dueAt, remindAt, escalateAt: null, remindedAt: null, overdueAt: null, escalatedAt: now }
+        : { escalateAt: null }
+    );
+    if (!claimed) return false;
+
+    if (!target) {
+      console.warn(`⚠️ [SLA] Step ${step.id} is overdue but has no usable escalation target`);
+      return false;
+    }
+
+    const escalated = { ...step, ...target.data, dueAt };
+    await logContentEvent(step.workflow.contentId, "ESCALATED", {
+      stepName: step.stepName,
+      feedback: `Overdue, escalated to ${target.label}`,
+    });
+    await this.notify(
+      "step.escalated",
+      escalated,
+      [...(await this.reviewerIds(escalated)), step.workflow.content.creatorId],
+      { escalatedTo: target.label, previousRole: step.requiredRole }
+    );
+    return true;
+  }
+}
+
+module.exports = new SlaScheduler();
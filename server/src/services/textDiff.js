@@ -0,0 +1,142 @@
+/**
+ * Text Diff Service
+ *
+ * Word-level diff between two texts (longest common subsequence over word and
+ * whitespace tokens). Returns merged segments:
+ *
+ *   [{ type: "equal" | "insert" | "delete", text: "..." }]
+ */
+
+// Past this many LCS cells the changed middle is reported as one delete + insert
+const MAX_LCS_CELLS = 4_000_000;
+
+function tokenize(text) {
+  return (text || "").match(/\s+|[^\s]+/g) || [];
+}
+
+function pushSegment(segments, type, text) {
+  if (!text) return;
+  const last = segments[segments.length - 1];
+  if (last && last.type === type) {
+    last.text += text;
+  } else {
+    segments.push({ type, text });
+  }
+}
+
+/**
+ * Fold whitespace-only equal runs between replacements into one change, so
+ * "100% waterproof" → "water-resistant (IP67)" reads as one replacement
+ */
+function mergeChanges(segments) {
+  const merged = [];
+  let deleted = "";
+  let inserted = "";
+
+  const flush = () => {
+    pushSegment(merged, "delete", deleted);
+    pushSegment(merged, "insert", inserted);
+    deleted = "";
+    inserted = "";
+  };
+
+  segments.forEach((segment, index) => {
+    const inReplacement = deleted && inserted;
+    const next = segments[index + 1];
+    if (segment.type === "delete") {
+      deleted += segment.text;
+    } else if (segment.type === "insert") {
+      inserted += segment.text;
+    } else if (inReplacement && next && next.type !== "equal" && !segment.text.trim()) {
+      deleted += segment.text;
+      inserted += segment.text;
+    } else {
+      flush();
+      pushSegment(merged, "equal", segment.text);
+    }
+  });
+  flush();
+
+  return merged;
+}
+
+/**
+ * @param {string} before
+ * @param {string} after
+ * @returns {Array<{type: string, text: string}>}
+ */
+function diffWords(before, after) {
+  const a = tokenize(before);
+  const b = tokenize(after);
+
+  // Common prefix/suffix never need the LCS table
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) start++;
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  const segments = [];
+  pushSegment(segments, "equal", a.slice(0, start).join(""));
+
+  const midA = a.slice(start, endA);
+  const midB = b.slice(start, endB);
+  const n = midA.length;
+  const m = midB.length;
+
+  if (n * m > MAX_LCS_CELLS) {
+    pushSegment(segments, "delete", midA.join(""));
+    pushSegment(segments, "insert", midB.join(""));
+  } else {
+    // lcs[i][j] = LCS length of midA[i..] and midB[j..]
+    const width = m + 1;
+    const lcs = new Uint32Array((n + 1) * width);
+    for (let i = n - 1; i >= 0; i--) {
+      for (let j = m - 1; j >= 0; j--) {
+        lcs[i * width + j] =
+          midA[i] === midB[j]
+            ? lcs[(i + 1) * width + j + 1] + 1
+            : Math.max(lcs[(i + 1) * width + j], lcs[i * width + j + 1]);
+      }
+    }
+
+    let i = 0;
+    let j = 0;
+    while (i < n && j < m) {
+      if (midA[i] === midB[j]) {
+        pushSegment(segments, "equal", midA[i]);
+        i++;
+        j++;
+      } else if (lcs[(i + 1) * width + j] >= lcs[i * width + j + 1]) {
+        pushSegment(segments, "delete", midA[i++]);
+      } else {
+        pushSegment(segments, "insert", midB[j++]);
+      }
+    }
+    pushSegment(segments, "delete", midA.slice(i).join(""));
+    pushSegment(segments, "insert", midB.slice(j).join(""));
+  }
+
+  pushSegment(segments, "equal", a.slice(endA).join(""));
+  return mergeChanges(segments);
+}
+
+/**
+ * Count changed words (whitespace-only changes are ignored)
+ */
+function diffStats(segments) {
+  const words = (text) => (text.match(/[^\s]+/g) || []).length;
+  return segments.reduce(
+    (stats, segment) => {
+      if (segment.type === "insert") stats.wordsAdded += words(segment.text);
+      if (segment.type === "delete") stats.wordsRemoved += words(segment.text);
+      return stats;
+    },
+    { wordsAdded: 0, wordsRemoved: 0 }
+  );
+}
+
+module.exports = { diffWords, diffStats };
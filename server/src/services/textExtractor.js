@@ -0,0 +1,190 @@
+/**
+ * Text Extractor Service
+ *
+ * Shared text extraction for the upload route and the ingestion script.
+ * Supports PDF (with per-page text), DOCX, HTML, Markdown and plain text.
+ */
+
+const fs = require("fs");
+const path = require("path");
+const pdfParse = require("pdf-parse");
+const mammoth = require("mammoth");
+
+const FORMATS = {
+  pdf: { mimeTypes: ["application/pdf"], extensions: [".pdf"] },
+  docx: {
+    mimeTypes: ["application/vnd.openxmlformats-officedocument.wordprocessingml.document"],
+    extensions: [".docx"],
+  },
+  html: { mimeTypes: ["text/html"], extensions: [".html", ".htm"] },
+  markdown: { mimeTypes: ["text/markdown", "text/x-markdown"], extensions: [".md", ".markdown"] },
+  text: { mimeTypes: ["text/plain"], extensions: [".txt"] },
+};
+
+const HTML_ENTITIES = {
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  quot: '"',
+  apos: "'",
+  nbsp: " ",
+  mdash: "—",
+  ndash: "–",
+  hellip: "…",
+  rsquo: "’",
+  lsquo: "‘",
+  rdquo: "”",
+  ldquo: "“",
+  trade: "™",
+  reg: "®",
+  copy: "©",
+};
+
+/**
+ * Work out the document format from MIME type, falling back to the file extension
+ * (browsers often send .md files as application/octet-stream)
+ *
+ * @param {string} mimeType
+ * @param {string} filename
+ * @returns {string|null} Format key, or null if unsupported
+ */
+function detectFormat(mimeType, filename = "") {
+  const ext = path.extname(filename).toLowerCase();
+  for (const [format, spec] of Object.entries(FORMATS)) {
+    if (spec.mimeTypes.includes(mimeType)) return format;
+  }
+  for (const [format, spec] of Object.entries(FORMATS)) {
+    if (spec.extensions.includes(ext)) return format;
+  }
+  return null;
+}
+
+/**
+ * Extract text from a PDF, keeping the text of each page separately
+ */
+async function extractPdf(buffer) {
+  const pages = [];
+
+  const data = await pdfParse(buffer, {
+    // Same layout logic as pdf-parse's default renderer, but we keep each page
+    pagerender: async (pageData) => {
+      const content = await pageData.getTextContent({
+        normalizeWhitespace: false,
+        disableCombineTextItems: false,
+      });
+      let lastY;
+      let text = "";
+      for (const item of content.items) {
+        if (lastY === item.transform[5] || !lastY) {
+          text += item.str;
+        } else {
+          text += "\n" + item.str;
+        }
+        lastY = item.transform[5];
+      }
+      pages.push({ pageNumber: pageData.pageIndex + 1, text });
+      return text;
+    },
+  });
+
+  return {
+    text: pages.map((p) => p.text).join("\n\n").trim() || data.text.trim(),
+    pages,
+  };
+}
+
+function decodeEntities(text) {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (match, entity) => {
+    if (entity[0] === "#") {
+      const code =
+        entity[1].toLowerCase() === "x" ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10);
+      return Number.isFinite(code) ? String.fromCodePoint(code) : match;
+    }
+    return HTML_ENTITIES[entity.toLowerCase()] ?? match;
+  });
+}
+
+/**
+ * Convert HTML to readable plain text (block elements become line breaks)
+ */
+function htmlToText(html) {
+  const text = html
+    .replace(/<!--[\s\S]*?-->/g, "")
+    .replace(/<(script|style|noscript|template)[^>]*>[\s\S]*?<\/\1>/gi, "")
+    .replace(/<br\s*\/?>/gi, "\n")
+    .replace(/<li[^>]*>/gi, "\n• ")
+    .replace(/<\/(p|div|section|article|header|footer|h[1-6]|li|tr|table|ul|ol|blockquote)>/gi, "\n")
+    .replace(/<[^>]+>/g, "");
+
+  return normalizeWhitespace(decodeEntities(text));
+}
+
+/**
+ * Strip Markdown syntax, keeping the readable text
+ */
+function markdownToText(markdown) {
+  const text = markdown
+    .replace(/^```.*$/gm, "")
+    .replace(/!\[([^\]]*)\]\([^)]*\)/g, "$1")
+    .replace(/\[([^\]]+)\]\([^)]*\)/g, "$1")
+    .replace(/^\s{0,3}#{1,6}\s+/gm, "")
+    .replace(/^\s{0,3}>\s?/gm, "")
+    .replace(/^\s*([-*+]|\d+\.)\s+/gm, "• ")
+    .replace(/(\*\*|__)(.+?)\1/g, "$2")
+    .replace(/(^|\W)(\*|_)(\S(?:.*?\S)?)\2(?=\W|$)/gm, "$1$3")
+    .replace(/`([^`]+)`/g, "$1")
+    .replace(/^\s*([-*_]\s*){3,}$/gm, "");
+
+  return normalizeWhitespace(text);
+}
+
+function normalizeWhitespace(text) {
+  return text
+    .replace(/\r\n?/g, "\n")
+    .replace(/[ \t\u00a0]+/g, " ")
+    .replace(/ *\n */g, "\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+}
+
+/**
+ * Extract text from an uploaded file
+ *
+ * @param {string} filePath - Path on disk
+ * @param {string} mimeType - MIME type reported by the upload
+ * @param {string} [originalName] - Original filename (used for extension fallback)
+ * @returns {Promise<{format: string, text: string, pages: Array<{pageNumber: number, text: string}>|null}>}
+ */
+async function extractText(filePath, mimeType, originalName = filePath) {
+  const format = detectFormat(mimeType, originalName);
+  if (!format) {
+    throw new Error(`Unsupported file type: ${mimeType || path.extname(originalName)}`);
+  }
+
+  const buffer = fs.readFileSync(filePath);
+
+  switch (format) {
+    case "pdf": {
+      const { text, pages } = await extractPdf(buffer);
+      return { format, text, pages };
+    }
+    case "docx": {
+      const result = await mammoth.extractRawText({ buffer });
+      return { format, text: normalizeWhitespace(result.value), pages: null };
+    }
+    case "html":
+      return { format, text: htmlToText(buffer.toString("utf-8")), pages: null };
+    case "markdown":
+      return { format, text: markdownToText(buffer.toString("utf-8")), pages: null };
+    default:
+      return { format, text: normalizeWhitespace(buffer.toString("utf-8")), pages: null };
+  }
+}
+
+module.exports = {
+  FORMATS,
+  detectFormat,
+  extractText,
+  htmlToText,
+  markdownToText,
+};
@@ -0,0 +1,34 @@
+/**
+ * Vector Backend Registry
+ *
+ * Every backend implements the same small interface:
+ *   connect(), upsert(vectors), query(vector, topK), deleteByDocId(docId),
+ *   stats(), listAll(batchSize) (async generator of vector batches)
+ *
+ * Selected with VECTOR_STORE=pinecone|memory|pgvector (default: pinecone).
+ */
+
+const PineconeBackend = require("./pinecone");
+const MemoryBackend = require("./memory");
+const PgvectorBackend = require("./pgvector");
+
+const BACKENDS = {
+  pinecone: PineconeBackend,
+  memory: MemoryBackend,
+  pgvector: PgvectorBackend,
+};
+
+function createBackend(name) {
+  const Backend = BACKENDS[name];
+  if (!Backend) {
+    throw new Error(
+      `Unknown vector store "${name}". Expected one of: ${Object.keys(BACKENDS).join(", ")}`
+    );
+  }
+  return new Backend();
+}
+
+module.exports = {
+  BACKENDS,
+  createBackend,
+};
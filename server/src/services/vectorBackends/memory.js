@@ -0,0 +1,101 @@
+/**
+ * In-Process Vector Backend (file-backed)
+ *
+ * Keeps every vector in memory and does a brute-force cosine search.
+ * Persists to a JSON file (VECTOR_STORE_PATH) after each write, so the
+ * knowledge base survives restarts. Good for a few thousand chunks.
+ */
+
+const fs = require("fs");
+const path = require("path");
+
+function cosineSimilarity(a, b) {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  const length = Math.min(a.length, b.length);
+  for (let i = 0; i < length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  if (normA === 0 || normB === 0) return 0;
+  return dot / (Math.sqrt(normA) * Math.sqrt(normB));
+}
+
+class MemoryBackend {
+  constructor() {
+    this.name = "memory";
+    this.filePath =
+      process.env.VECTOR_STORE_PATH || path.join(__dirname, "../../../data/vectors.json");
+    this.vectors = new Map();
+  }
+
+  async connect() {
+    if (fs.existsSync(this.filePath)) {
+      const stored = JSON.parse(fs.readFileSync(this.filePath, "utf-8"));
+      for (const vector of stored.vectors || []) {
+        this.vectors.set(vector.id, vector);
+      }
+    }
+    console.log(
+      `✅ [VectorStore] Loaded ${this.vectors.size} vectors from ${this.filePath}`
+    );
+  }
+
+  persist() {
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+    const tmpPath = `${this.filePath}.tmp`;
+    fs.writeFileSync(tmpPath, JSON.stringify({ vectors: [...this.vectors.values()] }));
+    fs.renameSync(tmpPath, this.filePath);
+  }
+
+  async upsert(vectors) {
+    for (const vector of vectors) {
+      this.vectors.set(vector.id, {
+        id: vector.id,
+        values: Array.from(vector.values),
+        metadata: vector.metadata || {},
+      });
+    }
+    this.persist();
+  }
+
+  async query(vector, topK) {
+    return [...this.vectors.values()]
+      .map((stored) => ({
+        id: stored.id,
+        score: cosineSimilarity(vector, stored.values),
+        metadata: stored.metadata,
+      }))
+      .sort((a, b) => b.score - a.score)
+      .slice(0, topK);
+  }
+
+  async deleteByDocId(docId) {
+    for (const [id, stored] of this.vectors) {
+      if (stored.metadata?.docId === docId) {
+        this.vectors.delete(id);
+      }
+    }
+    this.persist();
+  }
+
+  async stats() {
+    return {
+      provider: this.name,
+      path: this.filePath,
+      totalVectors: this.vectors.size,
+    };
+  }
+
+  async *listAll(batchSize = 100) {
+    const all = [...this.vectors.values()];
+    for (let i = 0; i < all.length; i += batchSize) {
+      yield all.slice(i, i + batchSize);
+    }
+  }
+}
+
+module.exports = MemoryBackend;
+module.exports.cosineSimilarity = cosineSimilarity;
@@ -0,0 +1,99 @@
+/**
+ * PostgreSQL pgvector Backend
+ *
+ * Stores chunks in the `policy_vectors` table (PolicyVector model) next to the
+ * rest of the Prisma data. Needs the `vector` extension, created by migration.
+ */
+
+const prisma = require("../../lib/prisma");
+
+function toVectorLiteral(values) {
+  return `[${Array.from(values).map(Number).join(",")}]`;
+}
+
+function parseVectorLiteral(literal) {
+  return literal.replace(/^\[|\]$/g, "").split(",").filter(Boolean).map(Number);
+}
+
+class PgvectorBackend {
+  constructor() {
+    this.name = "pgvector";
+  }
+
+  async connect() {
+    await prisma.$queryRaw`SELECT 1`;
+    console.log("✅ [VectorStore] Connected to PostgreSQL (pgvector)");
+  }
+
+  async upsert(vectors) {
+    for (const vector of vectors) {
+      const metadata = vector.metadata || {};
+      await prisma.$executeRaw`
+        INSERT INTO "policy_vectors" ("id", "docId", "chunkIndex", "text", "metadata", "embedding", "createdAt")
+        VALUES (
+          ${vector.id},
+          ${metadata.docId || ""},
+          ${Number(metadata.chunkIndex) || 0},
+          ${metadata.text || ""},
+          ${JSON.stringify(metadata)}::jsonb,
+          ${toVectorLiteral(vector.values)}::vector,
+          NOW()
+        )
+        ON CONFLICT ("id") DO UPDATE SET
+          "docId" = EXCLUDED."docId",
+          "chunkIndex" = EXCLUDED."chunkIndex",
+          "text" = EXCLUDED."text",
+          "metadata" = EXCLUDED."metadata",
+          "embedding" = EXCLUDED."embedding"`;
+    }
+  }
+
+  async query(vector, topK) {
+    const literal = toVectorLiteral(vector);
+    const rows = await prisma.$queryRaw`
+      SELECT "id", "metadata", 1 - ("embedding" <=> ${literal}::vector) AS "score"
+      FROM "policy_vectors"
+      ORDER BY "embedding" <=> ${literal}::vector
+      LIMIT ${Number(topK)}`;
+
+    return rows.map((row) => ({
+      id: row.id,
+      score: Number(row.score),
+      metadata: row.metadata || {},
+    }));
+  }
+
+  async deleteByDocId(docId) {
+    await prisma.policyVector.deleteMany({ where: { docId } });
+  }
+
+  async stats() {
+    const totalVectors = await prisma.policyVector.count();
+    return {
+      provider: this.name,
+      table: "policy_vectors",
+      totalVectors,
+    };
+  }
+
+  async *listAll(batchSize = 100) {
+    let offset = 0;
+    while (true) {
+      const rows = await prisma.$queryRaw`
+        SELECT "id", "metadata", "embedding"::text AS "embedding"
+        FROM "policy_vectors"
+        ORDER BY "id"
+        LIMIT ${Number(batchSize)} OFFSET ${offset}`;
+      if (rows.length === 0) return;
+
+      yield rows.map((row) => ({
+        id: row.id,
+        values: parseVectorLiteral(row.embedding),
+        metadata: row.metadata || {},
+      }));
+      offset += rows.length;
+    }
+  }
+}
+
+module.exports = PgvectorBackend;
@@ -0,0 +1,91 @@
+/**
+ * Pinecone Vector Backend
+ *
+ * Managed vector index. Requires PINECONE_API_KEY and PINECONE_INDEX.
+ */
+
+const { Pinecone } = require("@pinecone-database/pinecone");
+
+class PineconeBackend {
+  constructor() {
+    this.name = "pinecone";
+    this.pinecone = null;
+    this.index = null;
+    this.indexName = process.env.PINECONE_INDEX;
+  }
+
+  async connect() {
+    if (!process.env.PINECONE_API_KEY)
+      throw new Error("PINECONE_API_KEY missing");
+
+    // CRITICAL: Ensure we use the correct index from .env
+    if (!this.indexName) throw new Error("PINECONE_INDEX is not set in .env");
+
+    this.pinecone = new Pinecone({ apiKey: process.env.PINECONE_API_KEY });
+    this.index = this.pinecone.index(this.indexName);
+    console.log(`✅ [VectorStore] Connected to Pinecone index: ${this.indexName}`);
+  }
+
+  /**
+   * @param {Array<{id, values, metadata}>} vectors
+   */
+  async upsert(vectors) {
+    const batchSize = 100;
+    for (let i = 0; i < vectors.length; i += batchSize) {
+      await this.index.upsert(vectors.slice(i, i + batchSize));
+    }
+  }
+
+  async query(vector, topK) {
+    const response = await this.index.query({
+      vector,
+      topK,
+      includeMetadata: true,
+    });
+    return response.matches.map((match) => ({
+      id: match.id,
+      score: match.score,
+      metadata: match.metadata || {},
+    }));
+  }
+
+  async deleteByDocId(docId) {
+    // Much faster: Delete by metadata filter directly
+    await this.index.deleteMany({ docId: { $eq: docId } });
+  }
+
+  async stats() {
+    // Pinecone v3 has a stats endpoint
+    const stats = await this.index.describeIndexStats();
+    return {
+      provider: this.name,
+      indexName: this.indexName,
+      totalVectors: stats.totalRecordCount,
+      namespaces: stats.namespaces,
+    };
+  }
+
+  /**
+   * Iterate every stored vector (serverless indexes only)
+   *
+   * @yields {Array<{id, values, metadata}>} Batches of vectors
+   */
+  async *listAll(batchSize = 100) {
+    let paginationToken;
+    do {
+      const page = await this.index.listPaginated({ limit: batchSize, paginationToken });
+      const ids = (page.vectors || []).map((v) => v.id);
+      if (ids.length > 0) {
+        const { records } = await this.index.fetch(ids);
+        yield Object.values(records).map((record) => ({
+          id: record.id,
+          values: record.values,
+          metadata: record.metadata || {},
+        }));
+      }
+      paginationToken = page.pagination?.next;
+    } while (paginationToken);
+  }
+}
+
+module.exports = PineconeBackend;
@@ -1,46 +1,31 @@
 /**
- * Vector Store Service - Pinecone Integration (Optimized)
- * * Handles document indexing and semantic search using Pinecone vector database.
- * Uses Google Generative AI embeddings (embedding-001) for vector generation.
+ * Vector Store Service - Pluggable backends (Optimized)
+ * * Handles document indexing and semantic search. Storage is delegated to a backend
+ * selected with VECTOR_STORE (pinecone | memory | pgvector, see ./vectorBackends).
+ * Embeddings come from the configured embedding provider (see ./providers).
  */
 
 require("dotenv").config();
-const { Pinecone } = require("@pinecone-database/pinecone");
-const { GoogleGenerativeAI } = require("@google/generative-ai");
+const { createBackend } = require("./vectorBackends");
+const { getEmbeddingProvider } = require("./providers");
+const { withRetry } = require("../lib/retry");
 
 class VectorStore {
   constructor() {
     this.isConnected = false;
-    this.provider = "pinecone";
-    this.pinecone = null;
-    this.index = null;
-    this.genAI = null;
-    this.embeddingModel = null;
+    this.provider = (process.env.VECTOR_STORE || "pinecone").toLowerCase();
+    this.backend = null;
+    this.embedder = null;
   }
 
   async connect() {
     try {
-      if (!process.env.GOOGLE_API_KEY)
-        throw new Error("GOOGLE_API_KEY missing");
-      if (!process.env.PINECONE_API_KEY)
-        throw new Error("PINECONE_API_KEY missing");
+      // Initialize embedding provider
+      this.embedder = getEmbeddingProvider();
 
-      // Initialize Gemini
-      this.genAI = new GoogleGenerativeAI(process.env.GOOGLE_API_KEY);
-      this.embeddingModel = this.genAI.getGenerativeModel({
-        model: "text-embedding-004",
-      });
-
-      // Initialize Pinecone
-      this.pinecone = new Pinecone({ apiKey: process.env.PINECONE_API_KEY });
-
-      // CRITICAL: Ensure we use the correct index from .env
-      const indexName = process.env.PINECONE_INDEX;
-      if (!indexName) throw new Error("PINECONE_INDEX is not set in .env");
-
-      this.index = this.pinecone.index(indexName);
+      this.backend = createBackend(this.provider);
+      await this.backend.connect();
       this.isConnected = true;
-      console.log(`✅ [VectorStore] Connected to Pinecone index: ${indexName}`);
       return true;
     } catch (error) {
       console.error("❌ [VectorStore] Connection failed:", error.message);
@@ -52,9 +37,7 @@ class VectorStore {
     try {
       // Clean newlines to avoid embedding issues
       const cleanText = text.replace(/\n/g, " ");
-      const result = await this.embeddingModel.embedContent(cleanText);
-      const embedding = result.embedding?.values || result.embedding || result;
-      return embedding;
+      return await this.embedder.embed(cleanText);
     } catch (error) {
       console.error(
         "❌ [VectorStore] Embedding generation failed:",
@@ -93,54 +76,96 @@ class VectorStore {
     return chunks;
   }
 
-  async indexDocument(docId, text, metadata = {}) {
+  /**
+   * Chunk per page so every chunk remembers which page it came from
+   *
+   * @param {Array<{pageNumber: number, text: string}>} pages
+   * @returns {Array<{text: string, page: number}>}
+   */
+  chunkPages(pages) {
+    return pages.flatMap((page) =>
+      this.chunkText(page.text).map((text) => ({ text, page: page.pageNumber }))
+    );
+  }
+
+  /**
+   * Split a document into chunks, keeping page numbers when available
+   *
+   * @returns {Array<{text: string, page: number|null}>}
+   */
+  buildChunks(text, pages) {
+    return pages?.length
+      ? this.chunkPages(pages)
+      : this.chunkText(text).map((chunkText) => ({ text: chunkText, page: null }));
+  }
+
+  /**
+   * Embed a batch of texts, backing off exponentially on rate limits / transient errors
+   *
+   * @param {string[]} texts
+   * @returns {Promise<number[][]>}
+   */
+  async generateEmbeddings(texts) {
+    const cleanTexts = texts.map((text) => text.replace(/\n/g, " "));
+    return withRetry(() => this.embedder.embedBatch(cleanTexts), {
+      retries: Number(process.env.EMBEDDING_MAX_RETRIES || 5),
+      baseDelayMs: Number(process.env.EMBEDDING_BACKOFF_MS || 2000),
+      onRetry: (error, attempt, delayMs) =>
+        console.log(
+          `   ⚠️ Embedding failed (${error.message}). Retry ${attempt} in ${Math.round(delayMs / 1000)}s...`
+        ),
+    });
+  }
+
+  /**
+   * @param {string} docId
+   * @param {string} text - Full document text
+   * @param {object} metadata - Extra metadata stored on every chunk
+   * @param {object} options
+   * @param {Array<{pageNumber: number, text: string}>} [options.pages] - Per-page text (PDF)
+   * @param {(processed: number, total: number) => Promise<void>|void} [options.onProgress]
+   * @returns {Promise<number>} Number of chunks indexed
+   */
+  async indexDocument(docId, text, metadata = {}, { pages, onProgress } = {}) {
     if (!this.isConnected) await this.connect();
 
     try {
       console.log(
         `📥 [VectorStore] Indexing ${docId} (${text.length} chars)...`
       );
-      const chunks = this.chunkText(text);
-
-      const vectors = [];
-      for (let i = 0; i < chunks.length; i++) {
-        const chunk = chunks[i];
-
-        // 🛑 RATE LIMIT FIX: Wait 2 seconds before each request
-        await new Promise((resolve) => setTimeout(resolve, 2000));
-
-        // Retry logic for 429 errors
-        let embedding;
-        try {
-          embedding = await this.generateEmbedding(chunk);
-        } catch (e) {
-          console.log("   ⚠️ Hit rate limit. Waiting 60 seconds...");
-          await new Promise((resolve) => setTimeout(resolve, 60000)); // Wait 1 min
-          embedding = await this.generateEmbedding(chunk); // Try once more
-        }
-
-        vectors.push({
-          id: `${docId}_chunk_${i}`,
-          values: embedding,
-          metadata: {
-            docId,
-            chunkIndex: i,
-            text: chunk,
-            ...metadata,
-          },
+      const chunks = this.buildChunks(text, pages);
+      const batchSize = Number(process.env.EMBEDDING_BATCH_SIZE || 16);
+
+      if (onProgress) await onProgress(0, chunks.length);
+
+      for (let start = 0; start < chunks.length; start += batchSize) {
+        const batch = chunks.slice(start, start + batchSize);
+        const embeddings = await this.generateEmbeddings(batch.map((chunk) => chunk.text));
+
+        const vectors = batch.map((chunk, offset) => {
+          const i = start + offset;
+          return {
+            id: `${docId}_chunk_${i}`,
+            values: embeddings[offset],
+            metadata: {
+              docId,
+              chunkIndex: i,
+              text: chunk.text,
+              ...(chunk.page && { page: chunk.page }),
+              ...metadata,
+            },
+          };
         });
-        console.log(`   Processed chunk ${i + 1}/${chunks.length}`);
-      }
 
-      // Batch Upload to Pinecone
-      const batchSize = 100;
-      for (let i = 0; i < vectors.length; i += batchSize) {
-        const batch = vectors.slice(i, i + batchSize);
-        await this.index.upsert(batch);
+        await this.backend.upsert(vectors);
+
+        const processed = start + batch.length;
+        console.log(`   Processed chunk ${processed}/${chunks.length}`);
+        if (onProgress) await onProgress(processed, chunks.length);
       }
 
-      console.log(`   ✅ Indexed ${vectors.length} chunks`);
-      return true;
+      console.log(`   ✅ Indexed ${chunks.length} chunks`);
+      return chunks.length;
     } catch (error) {
       console.error(`❌ [VectorStore] Indexing failed:`, error.message);
       throw error;
@@ -153,13 +178,9 @@ class VectorStore {
     try {
       const queryEmbedding = await this.generateEmbedding(query);
 
-      const queryResponse = await this.index.query({
-        vector: queryEmbedding,
-        topK,
-        includeMetadata: true,
-      });
+      const matches = await this.backend.query(queryEmbedding, topK);
 
-      return queryResponse.matches.map((match) => ({
+      return matches.map((match) => ({
         text: match.metadata?.text || "",
         score: match.score,
         docId: match.metadata?.docId || "",
@@ -171,17 +192,13 @@ class VectorStore {
     }
   }
 
-  /**
-   * OPTIMIZED: Uses Native "Delete by Filter"
-   */
   async deleteDocument(docId) {
     if (!this.isConnected) await this.connect();
 
     try {
       console.log(`🗑️ [VectorStore] Deleting docId: ${docId}`);
 
-      // Much faster: Delete by metadata filter directly
-      await this.index.deleteMany({ docId: { $eq: docId } });
+      await this.backend.deleteByDocId(docId);
 
       console.log(`   ✅ Deleted vectors for ${docId}`);
       return true;
@@ -194,14 +211,7 @@ class VectorStore {
   async getStats() {
     if (!this.isConnected) await this.connect();
     try {
-      // Pinecone v3 has a stats endpoint
-      const stats = await this.index.describeIndexStats();
-      return {
-        provider: "pinecone",
-        indexName: process.env.PINECONE_INDEX,
-        totalVectors: stats.totalRecordCount,
-        namespaces: stats.namespaces,
-      };
+      return await this.backend.stats();
     } catch (e) {
       return { error: e.message };
     }
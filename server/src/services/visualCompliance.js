@@ -0,0 +1,293 @@
+/**
+ * Visual Compliance Service
+ *
+ * Checks a captured design rendition rather than copied text:
+ *   1. OCR (tesseract.js, runs locally) extracts the words and their positions
+ *   2. The OCR text goes through checkCompliance like any other copy
+ *   3. Visual checks: text too small for the canvas, low-contrast small text
+ *
+ * Every issue carries a bbox normalized to the image (0..1), so clients can
+ * overlay it on a snapshot of any size:
+ *
+ *   bbox: { x, y, width, height }
+ */
+
+const sharp = require("sharp");
+const { createWorker, PSM } = require("tesseract.js");
+const { checkCompliance } = require("./complianceChecker");
+
+const OCR_LANG = process.env.OCR_LANG || "eng";
+const OCR_MAX_WIDTH = Number(process.env.OCR_MAX_WIDTH || 2400);
+const OCR_MIN_CONFIDENCE = Number(process.env.OCR_MIN_CONFIDENCE || 60);
+
+// Text height as a fraction of the canvas' shorter side
+const MIN_TEXT_RATIO = Number(process.env.VISUAL_MIN_TEXT_RATIO || 0.015);
+const SMALL_TEXT_RATIO = Number(process.env.VISUAL_SMALL_TEXT_RATIO || 0.03);
+// WCAG AA contrast for normal-size text
+const MIN_CONTRAST = Number(process.env.VISUAL_MIN_CONTRAST || 4.5);
+
+const DISCLAIMER_PATTERN =
+  /[*†‡]|\b(terms|conditions|apply|disclaimer|results may vary|not available|see .* for details|restrictions|subject to|limited time)\b/i;
+
+let workerPromise = null;
+
+/**
+ * Lazily start one OCR worker (loading the language data is the slow part)
+ *
+ * Sparse-text segmentation: designs are scattered text blocks, and the default
+ * page layout mode drops small isolated lines such as disclaimers.
+ */
+function getWorker() {
+  if (!workerPromise) {
+    console.log(`🔤 [VisualCompliance] Starting OCR worker (${OCR_LANG})...`);
+    workerPromise = createWorker(OCR_LANG, 1, {
+      ...(process.env.OCR_LANG_PATH && { langPath: process.env.OCR_LANG_PATH }),
+      ...(process.env.OCR_CACHE_PATH && { cachePath: process.env.OCR_CACHE_PATH }),
+    }).then(async (worker) => {
+      await worker.setParameters({ tessedit_pageseg_mode: PSM.SPARSE_TEXT });
+      return worker;
+    }).catch((error) => {
+      workerPromise = null; // Retry on the next request
+      throw error;
+    });
+  }
+  return workerPromise;
+}
+
+/**
+ * Tesseract bbox ({x0, y0, x1, y1} in px) → fractions of the image
+ */
+function normalizeBox(box, width, height) {
+  return {
+    x: box.x0 / width,
+    y: box.y0 / height,
+    width: (box.x1 - box.x0) / width,
+    height: (box.y1 - box.y0) / height,
+  };
+}
+
+function unionBoxes(boxes) {
+  return boxes.reduce((union, box) => ({
+    x0: Math.min(union.x0, box.x0),
+    y0: Math.min(union.y0, box.y0),
+    x1: Math.max(union.x1, box.x1),
+    y1: Math.max(union.y1, box.y1),
+  }));
+}
+
+function boxesOverlap(a, b) {
+  return a.x0 < b.x1 && b.x0 < a.x1 && a.y0 < b.y1 && b.y0 < a.y1;
+}
+
+/**
+ * OCR the image twice: as rendered, then contrast-stretched so faint text (light
+ * grey on white, the usual disclaimer style) survives binarization. Lines from
+ * the second pass are kept only where the first pass found nothing.
+ */
+async function recognizeLines(png) {
+  const worker = await getWorker();
+  const { data } = await worker.recognize(png);
+  const stretched = await sharp(png).greyscale().normalise({ lower: 1, upper: 99 }).png().toBuffer();
+  const { data: faint } = await worker.recognize(stretched);
+
+  const lines = data.lines || [];
+  const extra = (faint.lines || []).filter(
+    (line) => !lines.some((existing) => boxesOverlap(existing.bbox, line.bbox))
+  );
+  return [...lines, ...extra].sort((a, b) => a.bbox.y0 - b.bbox.y0 || a.bbox.x0 - b.bbox.x0);
+}
+
+/**
+ * Join OCR lines into one text, remembering each word's character span
+ *
+ * @returns {{text: string, lines: Array<{text, start, end, bbox, words}>, confidence: number|null}}
+ */
+function buildOcrText(ocrLines) {
+  let text = "";
+  const lines = [];
+  const confidences = [];
+
+  for (const ocrLine of ocrLines) {
+    const words = (ocrLine.words || []).filter(
+      (word) => word.text.trim() && word.confidence >= OCR_MIN_CONFIDENCE
+    );
+    if (words.length === 0) continue;
+    confidences.push(...words.map((word) => word.confidence));
+
+    if (text) text += "\n";
+    const lineStart = text.length;
+    const spans = words.map((word, index) => {
+      if (index > 0) text += " ";
+      const start = text.length;
+      text += word.text;
+      return { start, end: text.length, bbox: word.bbox };
+    });
+
+    lines.push({
+      text: text.slice(lineStart),
+      start: lineStart,
+      end: text.length,
+      bbox: unionBoxes(words.map((word) => word.bbox)),
+      words: spans,
+    });
+  }
+
+  const confidence = confidences.length
+    ? confidences.reduce((sum, value) => sum + value, 0) / confidences.length
+    : null;
+  return { text, lines, confidence };
+}
+
+/**
+ * Box covering the words an issue points at (by offset, else by quote)
+ */
+function locateIssue(issue, ocr) {
+  let { start, end } = issue;
+  if (!(Number.isInteger(start) && Number.isInteger(end) && end > start)) {
+    const index = issue.text ? ocr.text.toLowerCase().indexOf(issue.text.toLowerCase()) : -1;
+    if (index === -1) return null;
+    start = index;
+    end = index + issue.text.length;
+  }
+
+  const boxes = ocr.lines
+    .flatMap((line) => line.words)
+    .filter((word) => word.start < end && word.end > start)
+    .map((word) => word.bbox);
+
+  return boxes.length ? unionBoxes(boxes) : null;
+}
+
+/**
+ * WCAG relative luminance of an sRGB pixel
+ */
+function luminance(r, g, b) {
+  const channel = (value) => {
+    const c = value / 255;
+    return c <= 0.03928 ? c / 12.92 : ((c + 0.055) / 1.055) ** 2.4;
+  };
+  return 0.2126 * channel(r) + 0.7152 * channel(g) + 0.0722 * channel(b);
+}
+
+/**
+ * Estimate text/background contrast inside a box
+ *
+ * Text and background are taken as the 10th and 90th luminance percentiles, which
+ * ignores anti-aliased edges without knowing which side is the text.
+ */
+async function measureContrast(image, box, width, height) {
+  const left = Math.max(0, Math.min(box.x0, width - 1));
+  const top = Math.max(0, Math.min(box.y0, height - 1));
+  const { data, info } = await image
+    .clone()
+    .extract({
+      left,
+      top,
+      width: Math.max(1, Math.min(box.x1, width) - left),
+      height: Math.max(1, Math.min(box.y1, height) - top),
+    })
+    .removeAlpha()
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+
+  const values = [];
+  for (let i = 0; i + 2 < data.length; i += info.channels) {
+    values.push(luminance(data[i], data[i + 1], data[i + 2]));
+  }
+  values.sort((a, b) => a - b);
+
+  const dark = values[Math.floor(values.length * 0.1)];
+  const light = values[Math.floor(values.length * 0.9)];
+  return (light + 0.05) / (dark + 0.05);
+}
+
+/**
+ * Text-size and contrast issues for each OCR line
+ */
+async function runVisualChecks(image, ocr, width, height) {
+  const canvasSize = Math.min(width, height);
+  const issues = [];
+
+  for (const line of ocr.lines) {
+    const textRatio = (line.bbox.y1 - line.bbox.y0) / canvasSize;
+    if (textRatio >= SMALL_TEXT_RATIO) continue;
+
+    const isDisclaimer = DISCLAIMER_PATTERN.test(line.text);
+    const base = {
+      text: line.text,
+      start: line.start,
+      end: line.end,
+      category: isDisclaimer ? "disclaimer" : "legibility",
+      source: "visual",
+      ruleId: null,
+      citations: [],
+      bbox: normalizeBox(line.bbox, width, height),
+    };
+
+    if (textRatio < MIN_TEXT_RATIO) {
+      issues.push({
+        ...base,
+        severity: isDisclaimer ? "high" : "medium",
+        reason: `${isDisclaimer ? "Disclaimer" : "Text"} is ${(textRatio * 100).toFixed(1)}% of the canvas size, below the ${(MIN_TEXT_RATIO * 100).toFixed(1)}% minimum`,
+        suggestion: "Increase the font size so the text stays legible when the design is scaled down",
+        metrics: { textRatio },
+      });
+    }
+
+    const contrast = await measureContrast(image, line.bbox, width, height);
+    if (contrast < MIN_CONTRAST) {
+      issues.push({
+        ...base,
+        severity: isDisclaimer ? "high" : "medium",
+        reason: `Small text has a contrast ratio of ${contrast.toFixed(1)}:1, below the ${MIN_CONTRAST}:1 minimum`,
+        suggestion: "Darken the text or lighten the background behind it",
+        metrics: { contrast },
+      });
+    }
+  }
+
+  return issues;
+}
+
+/**
+ * Check a rendered design
+ *
+ * @param {Buffer} buffer - PNG/JPEG/WebP image
+ * @param {object} [context] - Analytics context, see checkCompliance
+ * @returns {Promise<object>} checkCompliance result plus ocr and image info
+ */
+async function checkImageCompliance(buffer, context = {}) {
+  // Work on one decoded, size-capped copy so OCR boxes and pixel reads line up
+  const { data: png, info } = await sharp(buffer)
+    .resize({ width: OCR_MAX_WIDTH, withoutEnlargement: true })
+    .png()
+    .toBuffer({ resolveWithObject: true });
+  const { width, height } = info;
+
+  const ocr = buildOcrText(await recognizeLines(png));
+  console.log(`🔤 [VisualCompliance] OCR found ${ocr.lines.length} line(s)`);
+
+  const textResult = ocr.text.trim()
+    ? await checkCompliance(ocr.text, { ...context, source: "image" })
+    : { status: "ok", issues: [], provider: null, checkedAt: new Date().toISOString() };
+
+  const textIssues = textResult.issues.map((issue) => {
+    const box = locateIssue(issue, ocr);
+    return { ...issue, bbox: box ? normalizeBox(box, width, height) : null };
+  });
+  const visualIssues = await runVisualChecks(sharp(png), ocr, width, height);
+  const issues = [...textIssues, ...visualIssues];
+
+  return {
+    isCompliant: issues.length === 0 && textResult.status === "ok",
+    status: textResult.status,
+    ...(textResult.degradedReason && { degradedReason: textResult.degradedReason }),
+    issues,
+    provider: textResult.provider,
+    checkedAt: textResult.checkedAt,
+    ocr: { text: ocr.text, confidence: ocr.confidence },
+    image: { width, height },
+  };
+}
+
+module.exports = { checkImageCompliance };
@@ -0,0 +1,231 @@
+/**
+ * Webhook Service
+ *
+ * Sends workflow events to registered endpoints. Each event becomes one
+ * WebhookDelivery per matching webhook, and a background worker in the server
+ * process POSTs them:
+ *
+ *   PENDING → SUCCEEDED
+ *      ↺ retry (network error, timeout, 408/429/5xx) with exponential backoff
+ *      ↘ FAILED (other 4xx, or WEBHOOK_MAX_ATTEMPTS used up)
+ *
+ * Requests carry the JSON payload and these headers:
+ *
+ *   X-Veritas-Event: step.approved
+ *   X-Veritas-Delivery: <delivery id> (the same on every retry)
+ *   X-Veritas-Timestamp: <unix seconds>
+ *   X-Veritas-Signature: sha256=<hex HMAC-SHA256 of "<timestamp>.<body>" with the webhook secret>
+ */
+
+const crypto = require("crypto");
+const prisma = require("../lib/prisma");
+
+const MAX_ATTEMPTS = Number(process.env.WEBHOOK_MAX_ATTEMPTS || 6);
+const BACKOFF_MS = Number(process.env.WEBHOOK_BACKOFF_MS || 30000);
+const MAX_BACKOFF_MS = 60 * 60 * 1000;
+const TIMEOUT_MS = Number(process.env.WEBHOOK_TIMEOUT_MS || 10000);
+const BATCH_SIZE = 10;
+const RETRYABLE_STATUSES = [408, 429];
+
+/**
+ * Signature header value for a payload
+ */
+function sign(secret, timestamp, body) {
+  return `sha256=${crypto.createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex")}`;
+}
+
+/**
+ * @returns {string|null} What is wrong with a webhook URL, or null
+ */
+function validateUrl(url) {
+  try {
+    const { protocol } = new URL(url);
+    return ["http:", "https:"].includes(protocol) ? null : "url must be http(s)";
+  } catch {
+    return "url must be a valid URL";
+  }
+}
+
+class WebhookDispatcher {
+  constructor() {
+    this.timer = null;
+    this.running = false;
+    this.pollIntervalMs = Number(process.env.WEBHOOK_POLL_MS || 5000);
+  }
+
+  /**
+   * @returns {string|null} What is wrong with a webhook URL, or null
+   */
+  validateUrl(url) {
+    return validateUrl(url);
+  }
+
+  /**
+   * New signing secret (returned to the admin once, when the webhook is created)
+   */
+  generateSecret() {
+    return `whsec_${crypto.randomBytes(24).toString("base64url")}`;
+  }
+
+  /**
+   * Queue an event for every active webhook subscribed to it
+   *
+   * @param {string} event - e.g. "step.approved" ("ping" only goes to `onlyWebhookId`)
+   * @param {object} payload - Sent as the request body
+   * @param {{onlyWebhookId?: string}} [options]
+   * @returns {Promise<number>} Deliveries queued
+   */
+  async dispatch(event, payload, { onlyWebhookId } = {}) {
+    const webhooks = await prisma.webhook.findMany({
+      where: onlyWebhookId
+        ? { id: onlyWebhookId }
+        : { isActive: true, OR: [{ events: { isEmpty: true } }, { events: { has: event } }] },
+      select: { id: true },
+    });
+    if (webhooks.length === 0) return 0;
+
+    await prisma.webhookDelivery.createMany({
+      data: webhooks.map((webhook) => ({ webhookId: webhook.id, event, payload })),
+    });
+    this.poke();
+    return webhooks.length;
+  }
+
+  /**
+   * Start the worker loop
+   */
+  start() {
+    if (this.timer) return;
+    this.schedule();
+    console.log("👷 [Webhooks] Worker started");
+  }
+
+  stop() {
+    clearTimeout(this.timer);
+    this.timer = null;
+  }
+
+  schedule(delay = this.pollIntervalMs) {
+    clearTimeout(this.timer);
+    this.timer = setTimeout(() => this.tick(), delay);
+  }
+
+  /**
+   * Run the next tick right away (used after dispatch)
+   */
+  poke() {
+    if (this.timer && !this.running) this.schedule(0);
+  }
+
+  async tick() {
+    if (this.running) return;
+    this.running = true;
+    try {
+      while ((await this.processDue()) === BATCH_SIZE) {}
+    } catch (error) {
+      console.error("❌ [Webhooks] Worker error:", error.message);
+    } finally {
+      this.running = false;
+      if (this.timer) this.schedule();
+    }
+  }
+
+  /**
+   * Attempt the deliveries that are due
+   *
+   * @returns {Promise<number>} Deliveries attempted
+   */
+  async processDue() {
+    const due = await prisma.webhookDelivery.findMany({
+      where: { status: "PENDING", nextAttemptAt: { lte: new Date() } },
+      orderBy: { nextAttemptAt: "asc" },
+      take: BATCH_SIZE,
+      include: { webhook: { select: { url: true, secret: true, isActive: true } } },
+    });
+    await Promise.all(due.map((delivery) => this.attempt(delivery)));
+    return due.length;
+  }
+
+  async attempt(delivery) {
+    // Claim the attempt, so another process polling the same table skips it
+    const { count } = await prisma.webhookDelivery.updateMany({
+      where: { id: delivery.id, status: "PENDING", attempts: delivery.attempts },
+      data: { attempts: { increment: 1 } },
+    });
+    if (count === 0) return;
+    const attempts = delivery.attempts + 1;
+
+    if (!delivery.webhook.isActive && delivery.event !== "ping") {
+      await prisma.webhookDelivery.update({
+        where: { id: delivery.id },
+        data: { status: "FAILED", error: "Webhook disabled" },
+      });
+      return;
+    }
+
+    const body = JSON.stringify(delivery.payload);
+    const timestamp = Math.floor(Date.now() / 1000);
+    const startedAt = Date.now();
+    let responseStatus = null;
+    let responseBody = null;
+    let error = null;
+
+    try {
+      const res = await fetch(delivery.webhook.url, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          "User-Agent": "Veritas-Webhooks/1.0",
+          "X-Veritas-Event": delivery.event,
+          "X-Veritas-Delivery": delivery.id,
+          "X-Veritas-Timestamp": String(timestamp),
+          "X-Veritas-Signature": sign(delivery.webhook.secret, timestamp, body),
+        },
+        body,
+        signal: AbortSignal.timeout(TIMEOUT_MS),
+      });
+      responseStatus = res.status;
+      responseBody = (await res.text().catch(() => "")).slice(0, 500);
+      if (!res.ok) error = `HTTP ${res.status}`;
+    } catch (err) {
+      error = err.name === "TimeoutError" ? `Timed out after ${TIMEOUT_MS}ms` : err.message;
+    }
+
+    const durationMs = Date.now() - startedAt;
+    const retryable =
+      error && (responseStatus === null || responseStatus >= 500 || RETRYABLE_STATUSES.includes(responseStatus));
+
+    let outcome;
+    if (!error) {
+      outcome = { status: "SUCCEEDED", deliveredAt: new Date() };
+    } else if (retryable && attempts < MAX_ATTEMPTS) {
+      const delayMs = Math.min(BACKOFF_MS * 2 ** (attempts - 1), MAX_BACKOFF_MS);
+      outcome = { status: "PENDING", nextAttemptAt: new Date(Date.now() + delayMs) };
+      console.warn(
+        `⚠️ [Webhooks] Delivery ${delivery.id} failed (${error}), attempt ${attempts}/${MAX_ATTEMPTS}, retry in ${delayMs}ms`
+      );
+    } else {
+      outcome = { status: "FAILED" };
+      console.error(`❌ [Webhooks] Delivery ${delivery.id} to ${delivery.webhook.url} failed: ${error}`);
+    }
+
+    await prisma.webhookDelivery.update({
+      where: { id: delivery.id },
+      data: { ...outcome, responseStatus, responseBody, error, durationMs },
+    });
+  }
+
+  /**
+   * Send a failed (or succeeded) delivery again, as a fresh series of attempts
+   */
+  async redeliver(deliveryId) {
+    const delivery = await prisma.webhookDelivery.update({
+      where: { id: deliveryId },
+      data: { status: "PENDING", attempts: 0, nextAttemptAt: new Date(), error: null },
+    });
+    this.poke();
+    return delivery;
+  }
+}
+
+module.exports = new WebhookDispatcher();
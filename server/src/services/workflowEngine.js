@@ -0,0 +1,446 @@
+/**
+ * Workflow Engine Service
+ *
+ * Builds approval steps from a WorkflowTemplate and moves a workflow forward.
+ *
+ * Template `steps` is an ordered list of stages. Each stage is either a single step
+ * or a parallel group; every stage becomes one `stepNumber`:
+ *
+ *   { "name": "Manager Review", "requiredRole": "MANAGER" }
+ *
+ *   { "name": "Legal Review", "requiredRole": "LEGAL",
+ *     "condition": { "minSeverity": "medium" } }          // only if medium/high issues
+ *
+ *   { "parallel": [ { "name": "Legal Review",  "requiredRole": "LEGAL" },
+ *                   { "name": "Brand Review",  "requiredRole": "MANAGER" },
+ *                   { "name": "Exec Sign-off", "requiredRole": "EXECUTIVE" } ],
+ *     "requiredApprovals": 2 }                           // 2-of-3
+ *
+ * Conditions (all optional, all must hold for the stage to run):
+ * - minSeverity: at least one compliance issue of this severity or worse
+ * - issueCategories: at least one compliance issue in one of these categories
+ * Stages whose condition is not met are created as SKIPPED so the history shows them.
+ * A result that is not a full review (no check, "degraded" or "rules_only") may have missed
+ * issues, so conditional stages always run for it.
+ *
+ * SLAs (optional, on a step or on a parallel group for all its members):
+ *
+ *   { "name": "Legal Review", "requiredRole": "LEGAL",
+ *     "slaHours": 48,                   // due 48h after the step opens
+ *     "remindBeforeHours": 8,           // reminder 8h before (default: a quarter of the SLA)
+ *     "escalation": { "afterHours": 24, "toUserId": "<backup reviewer>", "toRole": "EXECUTIVE" } }
+ *
+ * Once a step is `afterHours` past due (default SLA_ESCALATE_AFTER_HOURS) it is handed to the
+ * backup reviewer, or else moved to `toRole` - see services/slaScheduler.js.
+ *
+ * Assignment (optional, on a step or a parallel group) - who the step goes to when it opens:
+ *
+ *   "assignment": { "strategy": "pool" }                          // anyone with the role (default)
+ *   "assignment": { "strategy": "round_robin" }                   // rotate between the role's reviewers
+ *   "assignment": { "strategy": "explicit", "userId": "<counsel>" }
+ *   "assignment": { "strategy": "team", "teams": { "Retail": "<user id>" } }
+ *
+ * See services/assignment.js for the rules and out-of-office delegation.
+ */
+
+const prisma = require("../lib/prisma");
+const { archiveWorkflow } = require("./contentVersions");
+const { assignOpenSteps } = require("./assignment");
+
+const ROLES = ["DESIGNER", "MANAGER", "LEGAL", "EXECUTIVE", "ADMIN"];
+const SEVERITY_RANK = { low: 1, medium: 2, high: 3 };
+const ASSIGNMENT_STRATEGIES = ["pool", "round_robin", "explicit", "team"];
+const DEFAULT_ESCALATE_AFTER_HOURS = Number(process.env.SLA_ESCALATE_AFTER_HOURS || 24);
+const HOUR_MS = 60 * 60 * 1000;
+
+// Used when no template is stored in the database
+const DEFAULT_TEMPLATE = {
+  id: null,
+  name: "Default",
+  steps: [
+    { name: "Manager Review", requiredRole: "MANAGER" },
+    { name: "Legal Review", requiredRole: "LEGAL" },
+    { name: "Executive Approval", requiredRole: "EXECUTIVE" },
+  ],
+};
+
+/**
+ * Compliance results may be stored as JSON objects or (older rows) JSON strings
+ */
+function parseComplianceResult(value) {
+  if (!value) return null;
+  if (typeof value === "string") {
+    try {
+      return JSON.parse(value);
+    } catch {
+      return null;
+    }
+  }
+  return value;
+}
+
+function validateStep(step, path) {
+  if (!step || typeof step !== "object") return `${path} must be an object`;
+  if (!step.name || typeof step.name !== "string") return `${path}.name is required`;
+  if (!ROLES.includes(step.requiredRole)) {
+    return `${path}.requiredRole must be one of: ${ROLES.join(", ")}`;
+  }
+  return null;
+}
+
+/**
+ * SLA settings of a step, with the parallel group's as defaults (null = no SLA)
+ */
+function stepSla(stage, member = stage) {
+  const slaHours = member.slaHours ?? stage.slaHours;
+  if (slaHours === undefined) return null;
+  return {
+    slaHours,
+    remindBeforeHours: member.remindBeforeHours ?? stage.remindBeforeHours ?? null,
+    escalation: member.escalation ?? stage.escalation ?? null,
+  };
+}
+
+function isHours(value) {
+  return typeof value === "number" && Number.isFinite(value) && value >= 0;
+}
+
+function validateSla(stage, member, path) {
+  const sla = stepSla(stage, member);
+  if (!sla) {
+    const orphan = ["remindBeforeHours", "escalation"].find(
+      (key) => member[key] !== undefined || stage[key] !== undefined
+    );
+    return orphan ? `${path}.${orphan} needs slaHours` : null;
+  }
+
+  if (!isHours(sla.slaHours) || sla.slaHours === 0) return `${path}.slaHours must be a positive number`;
+  if (sla.remindBeforeHours !== null && (!isHours(sla.remindBeforeHours) || sla.remindBeforeHours >= sla.slaHours)) {
+    return `${path}.remindBeforeHours must be between 0 and slaHours`;
+  }
+
+  const { escalation } = sla;
+  if (escalation === null) return null;
+  if (typeof escalation !== "object") return `${path}.escalation must be an object`;
+  if (escalation.afterHours !== undefined && !isHours(escalation.afterHours)) {
+    return `${path}.escalation.afterHours must be a number of hours`;
+  }
+  if (escalation.toRole !== undefined && !ROLES.includes(escalation.toRole)) {
+    return `${path}.escalation.toRole must be one of: ${ROLES.join(", ")}`;
+  }
+  if (escalation.toUserId !== undefined && typeof escalation.toUserId !== "string") {
+    return `${path}.escalation.toUserId must be a user id`;
+  }
+  if (!escalation.toRole && !escalation.toUserId) {
+    return `${path}.escalation needs toUserId or toRole`;
+  }
+  return null;
+}
+
+function validateAssignment(stage, member, path) {
+  const assignment = member.assignment ?? stage.assignment;
+  if (assignment === undefined || assignment === null) return null;
+  if (typeof assignment !== "object") return `${path}.assignment must be an object`;
+  if (!ASSIGNMENT_STRATEGIES.includes(assignment.strategy)) {
+    return `${path}.assignment.strategy must be one of: ${ASSIGNMENT_STRATEGIES.join(", ")}`;
+  }
+  if (assignment.strategy === "explicit" && (!assignment.userId || typeof assignment.userId !== "string")) {
+    return `${path}.assignment.userId is required for explicit assignment`;
+  }
+  const { teams } = assignment;
+  if (
+    teams !== undefined &&
+    (!teams || typeof teams !== "object" || Array.isArray(teams) ||
+      Object.values(teams).some((userId) => typeof userId !== "string"))
+  ) {
+    return `${path}.assignment.teams must map team names to user ids`;
+  }
+  return null;
+}
+
+function validateCondition(condition, path) {
+  if (condition === undefined || condition === null) return null;
+  if (typeof condition !== "object") return `${path} must be an object`;
+  if (condition.minSeverity && !SEVERITY_RANK[condition.minSeverity]) {
+    return `${path}.minSeverity must be one of: low, medium, high`;
+  }
+  if (condition.issueCategories && !Array.isArray(condition.issueCategories)) {
+    return `${path}.issueCategories must be an array`;
+  }
+  return null;
+}
+
+/**
+ * Validate template stages before they are stored
+ *
+ * @param {Array} stages
+ * @returns {string|null} Error message, or null if valid
+ */
+function validateTemplateSteps(stages) {
+  if (!Array.isArray(stages) || stages.length === 0) {
+    return "steps must be a non-empty array";
+  }
+
+  for (let i = 0; i < stages.length; i++) {
+    const stage = stages[i];
+    const path = `steps[${i}]`;
+
+    const conditionError = validateCondition(stage?.condition, `${path}.condition`);
+    if (conditionError) return conditionError;
+
+    if (Array.isArray(stage?.parallel)) {
+      if (stage.parallel.length < 2) return `${path}.parallel needs at least 2 steps`;
+      for (let j = 0; j < stage.parallel.length; j++) {
+        const memberPath = `${path}.parallel[${j}]`;
+        const error =
+          validateStep(stage.parallel[j], memberPath) ||
+          validateSla(stage, stage.parallel[j], memberPath) ||
+          validateAssignment(stage, stage.parallel[j], memberPath);
+        if (error) return error;
+      }
+      const required = stage.requiredApprovals ?? stage.parallel.length;
+      if (!Number.isInteger(required) || required < 1 || required > stage.parallel.length) {
+        return `${path}.requiredApprovals must be between 1 and ${stage.parallel.length}`;
+      }
+    } else {
+      const error =
+        validateStep(stage, path) || validateSla(stage, stage, path) || validateAssignment(stage, stage, path);
+      if (error) return error;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Pick the template for a submission:
+ * explicit templateId → active template for the category → active default template → built-in default
+ */
+async function selectTemplate(category, templateId) {
+  if (templateId) {
+    const explicit = await prisma.workflowTemplate.findUnique({ where: { id: templateId } });
+    if (!explicit || !explicit.isActive) {
+      throw Object.assign(new Error("Workflow template not found or inactive"), { status: 404 });
+    }
+    return explicit;
+  }
+
+  if (category) {
+    const byCategory = await prisma.workflowTemplate.findFirst({
+      where: { category, isActive: true },
+      orderBy: { updatedAt: "desc" },
+    });
+    if (byCategory) return byCategory;
+  }
+
+  const fallback = await prisma.workflowTemplate.findFirst({
+    where: { isDefault: true, isActive: true },
+    orderBy: { updatedAt: "desc" },
+  });
+  return fallback || DEFAULT_TEMPLATE;
+}
+
+/**
+ * Did the compliance check fully review the copy?
+ * Results stored before `status` existed came from a full review.
+ */
+function isFullyReviewed(complianceResult) {
+  return Boolean(complianceResult) && (complianceResult.status ?? "ok") === "ok";
+}
+
+/**
+ * Does a stage's condition hold for this compliance result?
+ * Without a full review the issues are unknown, so the stage runs.
+ */
+function conditionMet(condition, complianceResult) {
+  if (!condition) return true;
+  if (!isFullyReviewed(complianceResult)) return true;
+  const issues = complianceResult.issues || [];
+
+  if (condition.minSeverity) {
+    const min = SEVERITY_RANK[condition.minSeverity];
+    if (!issues.some((issue) => (SEVERITY_RANK[issue.severity] || 0) >= min)) {
+      return false;
+    }
+  }
+
+  if (condition.issueCategories?.length) {
+    if (!issues.some((issue) => condition.issueCategories.includes(issue.category))) {
+      return false;
+    }
+  }
+
+  return true;
+}
+
+/**
+ * Deadlines of a step that opens at `from`
+ *
+ * @param {{slaHours: number, remindBeforeHours?: number|null, escalation?: object|null}|null} sla
+ * @returns {{dueAt: Date|null, remindAt: Date|null, escalateAt: Date|null}}
+ */
+function slaDeadlines(sla, from = new Date()) {
+  if (!sla) return { dueAt: null, remindAt: null, escalateAt: null };
+
+  const due = from.getTime() + sla.slaHours * HOUR_MS;
+  const remindBefore = sla.remindBeforeHours ?? sla.slaHours / 4;
+  const escalateAfter = sla.escalation?.afterHours ?? DEFAULT_ESCALATE_AFTER_HOURS;
+  return {
+    dueAt: new Date(due),
+    remindAt: remindBefore > 0 ? new Date(due - remindBefore * HOUR_MS) : null,
+    escalateAt: sla.escalation ? new Date(due + escalateAfter * HOUR_MS) : null,
+  };
+}
+
+/**
+ * Expand a template into ApprovalStep rows
+ *
+ * The first stage that is not skipped starts IN_PROGRESS (with its SLA deadlines).
+ * Its assignees are picked once the rows exist - call assignOpenSteps.
+ *
+ * @returns {{steps: Array, currentStep: number|null}} currentStep is null when every stage was skipped
+ */
+function buildSteps(template, complianceResult) {
+  const steps = [];
+  let currentStep = null;
+
+  template.steps.forEach((stage, index) => {
+    const stepNumber = index + 1;
+    const members = Array.isArray(stage.parallel) ? stage.parallel : [stage];
+    const requiredApprovals = Array.isArray(stage.parallel)
+      ? stage.requiredApprovals ?? members.length
+      : 1;
+    const runs = conditionMet(stage.condition, complianceResult);
+
+    let status = "SKIPPED";
+    if (runs) {
+      if (currentStep === null) currentStep = stepNumber;
+      status = currentStep === stepNumber ? "IN_PROGRESS" : "PENDING";
+    }
+
+    for (const member of members) {
+      const sla = stepSla(stage, member);
+      const assignment = member.assignment ?? stage.assignment;
+      steps.push({
+        stepNumber,
+        stepName: member.name,
+        requiredRole: member.requiredRole,
+        requiredApprovals,
+        status,
+        ...(sla && { sla }),
+        ...(assignment && { assignment }),
+        ...(status === "IN_PROGRESS" && slaDeadlines(sla)),
+      });
+    }
+  });
+
+  return { steps, currentStep };
+}
+
+/**
+ * Re-evaluate a workflow after a step decision
+ *
+ * - Enough approvals in the current stage → skip its leftover steps and open the next stage
+ *   (or complete the workflow and approve the content)
+ * - Enough rejections that the stage can no longer reach its approvals → skip the open steps
+ *   and close the workflow as CHANGES_REQUESTED (resubmitting starts a new one)
+ *
+ * @param {string} workflowId
+ * @returns {Promise<{outcome: "WAITING"|"ADVANCED"|"COMPLETED"|"CHANGES_REQUESTED", stepNumber: number|null}>}
+ */
+async function advanceWorkflow(workflowId) {
+  const workflow = await prisma.workflow.findUnique({
+    where: { id: workflowId },
+    include: { steps: { orderBy: { stepNumber: "asc" } } },
+  });
+
+  const stage = workflow.steps.filter((s) => s.stepNumber === workflow.currentStep);
+  const required = stage[0]?.requiredApprovals || 1;
+  const approved = stage.filter((s) => s.status === "APPROVED").length;
+  const open = stage.filter((s) => s.status === "IN_PROGRESS");
+
+  // Stage can no longer be approved
+  if (approved < required && approved + open.length < required) {
+    await prisma.$transaction([
+      prisma.approvalStep.updateMany({
+        where: { id: { in: open.map((s) => s.id) } },
+        data: { status: "SKIPPED" },
+      }),
+      prisma.workflow.update({
+        where: { id: workflowId },
+        data: { status: "CHANGES_REQUESTED" },
+      }),
+      prisma.content.update({
+        where: { id: workflow.contentId },
+        data: { status: "CHANGES_REQUESTED" },
+      }),
+    ]);
+    await archiveWorkflow(workflowId);
+    return { outcome: "CHANGES_REQUESTED", stepNumber: workflow.currentStep };
+  }
+
+  if (approved < required) {
+    return { outcome: "WAITING", stepNumber: workflow.currentStep };
+  }
+
+  // Stage approved: close leftover parallel steps
+  if (open.length > 0) {
+    await prisma.approvalStep.updateMany({
+      where: { id: { in: open.map((s) => s.id) } },
+      data: { status: "SKIPPED" },
+    });
+  }
+
+  const next = workflow.steps.find(
+    (s) => s.stepNumber > workflow.currentStep && s.status === "PENDING"
+  );
+
+  if (next) {
+    const opened = workflow.steps.filter(
+      (s) => s.stepNumber === next.stepNumber && s.status === "PENDING"
+    );
+    await prisma.$transaction(
+      opened.map((s) =>
+        prisma.approvalStep.update({
+          where: { id: s.id },
+          data: { status: "IN_PROGRESS", ...slaDeadlines(s.sla) },
+        })
+      )
+    );
+    await prisma.workflow.update({
+      where: { id: workflowId },
+      data: { currentStep: next.stepNumber },
+    });
+    await assignOpenSteps(workflowId);
+    await prisma.content.update({
+      where: { id: workflow.contentId },
+      data: { status: "IN_REVIEW" },
+    });
+    return { outcome: "ADVANCED", stepNumber: next.stepNumber };
+  }
+
+  // All stages complete - mark as approved
+  await prisma.workflow.update({
+    where: { id: workflowId },
+    data: { status: "COMPLETED" },
+  });
+  await prisma.content.update({
+    where: { id: workflow.contentId },
+    data: { status: "APPROVED" },
+  });
+  await archiveWorkflow(workflowId);
+  return { outcome: "COMPLETED", stepNumber: null };
+}
+
+module.exports = {
+  ROLES,
+  DEFAULT_TEMPLATE,
+  parseComplianceResult,
+  validateTemplateSteps,
+  selectTemplate,
+  conditionMet,
+  slaDeadlines,
+  buildSteps,
+  advanceWorkflow,
+  assignOpenSteps,
+};
@@ -0,0 +1,46 @@
+const { test } = require("node:test");
+const assert = require("node:assert/strict");
+const { parseResponse, validateAnalysis, isGrounded } = require("../src/services/analysisSchema");
+
+const issue = (extra = {}) => ({
+  text: "guaranteed results",
+  severity: "high",
+  reason: "Unsubstantiated claim",
+  suggestion: "proven results",
+  sources: [],
+  ...extra,
+});
+
+test("parseResponse tolerates markdown fences but not prose", () => {
+  assert.deepEqual(parseResponse('```json\n{"isCompliant": true, "issues": []}\n```').value, {
+    isCompliant: true,
+    issues: [],
+  });
+  const { value, error } = parseResponse('Here you go: {"isCompliant": true}');
+  assert.equal(value, null);
+  assert.match(error, /not valid JSON/);
+});
+
+test("validateAnalysis reports structural errors with their path", () => {
+  const { errors } = validateAnalysis(
+    { issues: [issue({ severity: "critical" }), issue({ sources: [{ quote: "x" }] })] },
+    "guaranteed results"
+  );
+  assert.deepEqual(errors, [
+    "isCompliant must be a boolean",
+    "issues[0].severity must be one of high, medium, low",
+    "issues[1].sources[0].ref must be an integer",
+  ]);
+  assert.deepEqual(validateAnalysis([], "x").errors, ["Response must be a JSON object"]);
+});
+
+test("validateAnalysis flags well-formed issues whose quote is not in the text", () => {
+  const text = "We offer GUARANTEED\n results.";
+  const { errors, ungrounded } = validateAnalysis(
+    { isCompliant: false, issues: [issue(), issue({ text: "free shipping" })] },
+    text
+  );
+  assert.deepEqual(errors, []);
+  assert.deepEqual(ungrounded, [1]);
+  assert.equal(isGrounded(issue(), text), true);
+});
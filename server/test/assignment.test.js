@@ -0,0 +1,108 @@
+const { test, beforeEach } = require("node:test");
+const assert = require("node:assert/strict");
+const { prisma, reset } = require("./helpers/prisma");
+const { resolveDelegate, pickAssignee, assignOpenSteps } = require("../src/services/assignment");
+
+/**
+ * Delegations as { userId: delegateId }, teams as { userId: team }, roles as { userId: role } (default LEGAL);
+ * every user is active
+ */
+function fakeUsers({ delegations = {}, reviewers = [], teams = {}, roles = {}, lastAssigned = {} } = {}) {
+  prisma.delegation = {
+    findFirst: async ({ where }) =>
+      delegations[where.userId] ? { userId: where.userId, delegateId: delegations[where.userId] } : null,
+  };
+  prisma.user = {
+    findMany: async ({ where }) =>
+      reviewers
+        .filter((id) => !where.id.notIn.includes(id))
+        .filter((id) => !where.team || teams[id] === where.team)
+        .filter((id) => !(where.delegations && delegations[id]))
+        .map((id) => ({ id })),
+    findFirst: async ({ where }) => (where.role.in.includes(roles[where.id] || "LEGAL") ? { id: where.id } : null),
+  };
+  prisma.approvalStep = {
+    groupBy: async ({ where }) =>
+      where.assigneeId.in
+        .filter((id) => lastAssigned[id])
+        .map((id) => ({ assigneeId: id, _max: { assignedAt: new Date(lastAssigned[id]) } })),
+  };
+}
+
+const content = { creatorId: "creator", creator: { team: null } };
+
+beforeEach(reset);
+
+test("resolveDelegate follows chains and stops at cycles", async () => {
+  fakeUsers({ delegations: { ann: "bob", bob: "cat", cat: "ann" } });
+  assert.equal(await resolveDelegate("ann"), "cat");
+  assert.equal(await resolveDelegate("dan"), "dan");
+});
+
+test("pool steps are left unassigned", async () => {
+  fakeUsers({ reviewers: ["ann"] });
+  assert.equal(await pickAssignee({ requiredRole: "LEGAL", assignment: null }, content), null);
+});
+
+test("explicit assignment goes to the user's delegate", async () => {
+  fakeUsers({ delegations: { ann: "bob" } });
+  const step = { requiredRole: "LEGAL", assignment: { strategy: "explicit", userId: "ann" } };
+  assert.equal(await pickAssignee(step, content), "bob");
+});
+
+test("a user without the step's role is not assigned it", async () => {
+  fakeUsers({ delegations: { ann: "mo" }, roles: { mo: "MANAGER", root: "ADMIN" } });
+  const step = { requiredRole: "LEGAL", assignment: { strategy: "explicit", userId: "ann" } };
+  assert.equal(await pickAssignee(step, content), null);
+  assert.equal(await pickAssignee({ ...step, assignment: { strategy: "explicit", userId: "root" } }, content), "root");
+});
+
+test("nobody is assigned their own content", async () => {
+  fakeUsers({ delegations: { ann: "creator" } });
+  const step = { requiredRole: "LEGAL", assignment: { strategy: "explicit", userId: "ann" } };
+  assert.equal(await pickAssignee(step, content), null);
+});
+
+test("round robin picks the reviewer assigned least recently, skipping those away", async () => {
+  fakeUsers({
+    reviewers: ["ann", "bob", "cat", "creator"],
+    delegations: { cat: "ann" },
+    lastAssigned: { ann: 2000, bob: 1000 },
+  });
+  const step = { requiredRole: "LEGAL", assignment: { strategy: "round_robin" } };
+  assert.equal(await pickAssignee(step, content), "bob");
+  assert.equal(await pickAssignee(step, content, ["bob"]), "ann");
+});
+
+test("team strategy uses the team's mapping, then round robin within the team", async () => {
+  fakeUsers({
+    reviewers: ["ann", "bob", "cat"],
+    teams: { ann: "emea", bob: "us", cat: "us" },
+    lastAssigned: { bob: 1000 },
+  });
+  const step = { requiredRole: "LEGAL", assignment: { strategy: "team", teams: { emea: "ann" } } };
+
+  assert.equal(await pickAssignee(step, { creatorId: "creator", creator: { team: "emea" } }), "ann");
+  assert.equal(await pickAssignee(step, { creatorId: "creator", creator: { team: "us" } }), "cat");
+  assert.equal(await pickAssignee(step, content), null);
+});
+
+test("assignOpenSteps gives the members of a parallel stage different reviewers", async () => {
+  fakeUsers({ reviewers: ["ann", "bob"], lastAssigned: { ann: 1000, bob: 2000 } });
+  const updates = [];
+  prisma.workflow = {
+    findUnique: async () => ({
+      content,
+      steps: [
+        { id: "s1", stepName: "Legal A", requiredRole: "LEGAL", assignment: { strategy: "round_robin" } },
+        { id: "s2", stepName: "Legal B", requiredRole: "LEGAL", assignment: { strategy: "round_robin" } },
+        { id: "s3", stepName: "Brand", requiredRole: "MANAGER", assignment: { strategy: "pool" } },
+      ],
+    }),
+  };
+  prisma.approvalStep.update = async ({ where, data }) => updates.push([where.id, data.assigneeId]);
+
+  const assigned = await assignOpenSteps("wf");
+  assert.deepEqual(assigned.map((row) => [row.stepId, row.assigneeId]), [["s1", "ann"], ["s2", "bob"]]);
+  assert.deepEqual(updates, [["s1", "ann"], ["s2", "bob"]]);
+});
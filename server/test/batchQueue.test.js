@@ -0,0 +1,71 @@
+const { test, beforeEach } = require("node:test");
+const assert = require("node:assert/strict");
+const { prisma, reset } = require("./helpers/prisma");
+
+process.env.LLM_PROVIDER = "local";
+const batchQueue = require("../src/services/batchQueue");
+
+const issue = (severity, category) => ({ text: "x", severity, ...(category && { category }) });
+const item = (itemId, result, extra = {}) => ({ itemId, title: itemId, status: "DONE", result, ...extra });
+
+/**
+ * getBatch with these stored items
+ */
+async function reportFor(items) {
+  prisma.complianceBatch = {
+    findUnique: async () => ({ id: "b1", totalItems: items.length, processedItems: items.length, items }),
+  };
+  return (await batchQueue.getBatch("b1")).report;
+}
+
+beforeEach(reset);
+
+test("validateItems explains what is wrong with a request", () => {
+  assert.match(batchQueue.validateItems([]), /non-empty array/);
+  assert.match(batchQueue.validateItems([{ id: "a", text: "copy" }, { id: "a", text: "more" }]), /duplicate/i);
+  assert.equal(batchQueue.validateItems([{ id: "a", text: "copy" }]), null);
+});
+
+test("the report counts issues and ranks the worst offenders", async () => {
+  const report = await reportFor([
+    item("hero", { isCompliant: false, status: "ok", issues: [issue("low", "brand"), issue("low", "brand")] }),
+    item("banner", { isCompliant: false, status: "ok", issues: [issue("high", "legal")] }),
+    item("footer", { isCompliant: true, status: "ok", issues: [] }),
+    item("email", { isCompliant: false, status: "degraded", issues: [issue("medium")] }),
+    { itemId: "broken", status: "FAILED", result: null },
+    { itemId: "later", status: "QUEUED", result: null },
+  ]);
+
+  assert.equal(report.itemsChecked, 4);
+  assert.equal(report.compliantItems, 1);
+  assert.equal(report.degradedItems, 1);
+  assert.equal(report.failedItems, 1);
+  assert.equal(report.totalIssues, 4);
+  assert.deepEqual(report.bySeverity, { high: 1, medium: 1, low: 2 });
+  assert.deepEqual(report.byCategory, { brand: 2, legal: 1, uncategorized: 1 });
+  assert.deepEqual(report.worstOffenders.map((offender) => [offender.id, offender.score]), [
+    ["banner", 3],
+    ["hero", 2],
+    ["email", 2],
+  ]);
+});
+
+test("issues without a category count under their item's category, and issues are totalled per locale", async () => {
+  const report = await reportFor([
+    item("de-hero", { issues: [issue("high"), issue("low", "brand")] }, { category: "legal", locale: "de-DE" }),
+    item("de-footer", { issues: [issue("medium")] }, { locale: "de-DE" }),
+    item("fr-hero", { issues: [] }, { category: "legal", locale: "fr-FR" }),
+  ]);
+
+  assert.deepEqual(report.byCategory, { legal: 1, brand: 1, uncategorized: 1 });
+  assert.deepEqual(report.byLocale, { "de-DE": 3, "fr-FR": 0 });
+  assert.deepEqual(report.worstOffenders[0], {
+    id: "de-hero",
+    title: "de-hero",
+    category: "legal",
+    locale: "de-DE",
+    score: 4,
+    issueCount: 2,
+    bySeverity: { high: 1, medium: 0, low: 1 },
+  });
+});
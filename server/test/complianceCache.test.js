@@ -0,0 +1,61 @@
+const { test, beforeEach } = require("node:test");
+const assert = require("node:assert/strict");
+require("./helpers/prisma");
+const cache = require("../src/services/complianceCache");
+
+beforeEach(() => {
+  cache.entries.clear();
+  cache.policyVersion = async () => "test-policy";
+});
+
+/**
+ * Fake check that flags every occurrence of `phrase` with its offsets
+ */
+function flagging(phrase) {
+  let calls = 0;
+  const check = async (text) => {
+    calls++;
+    const start = text.indexOf(phrase);
+    return {
+      status: "ok",
+      issues: [{ text: phrase, start, end: start + phrase.length }, { text: "unanchored", start: null, end: null }],
+    };
+  };
+  return { check, calls: () => calls };
+}
+
+test("a cached result is re-anchored in text with different whitespace", async () => {
+  const { check, calls } = flagging("free gift");
+  const first = await cache.wrap("Claim your free gift", check);
+  assert.equal(first.cached, false);
+
+  const text = "  Claim   your\nfree\t\tgift ";
+  const second = await cache.wrap(text, check);
+  assert.equal(second.cached, true);
+  assert.equal(calls(), 1);
+
+  const [issue, unanchored] = second.issues;
+  assert.deepEqual([issue.start, issue.end], [15, 25]);
+  assert.equal(issue.text, text.slice(15, 25));
+  assert.deepEqual([unanchored.start, unanchored.end], [null, null]);
+});
+
+test("degraded results are not stored", async () => {
+  let calls = 0;
+  const check = async () => {
+    calls++;
+    return { status: "degraded", issues: [] };
+  };
+  await cache.wrap("same copy", check);
+  await cache.wrap("same copy", check);
+  assert.equal(calls, 2);
+});
+
+test("a new policy version misses the cache", async () => {
+  const { check, calls } = flagging("copy");
+  await cache.wrap("some copy", check);
+  cache.policyVersion = async () => "changed-policy";
+  const result = await cache.wrap("some copy", check);
+  assert.equal(result.cached, false);
+  assert.equal(calls(), 2);
+});
@@ -0,0 +1,116 @@
+const { test, beforeEach } = require("node:test");
+const assert = require("node:assert/strict");
+const { prisma, reset } = require("./helpers/prisma");
+
+process.env.LLM_PROVIDER = "local";
+process.env.LLM_REPAIR_ATTEMPTS = "1";
+const { getLLMProvider } = require("../src/services/providers");
+const vectorStore = require("../src/services/vectorStore");
+const cache = require("../src/services/complianceCache");
+const { checkCompliance } = require("../src/services/complianceChecker");
+
+const TEXT = "Guaranteed results in 7 days.";
+const VALID = JSON.stringify({
+  isCompliant: false,
+  issues: [{ text: "Guaranteed results", severity: "high", reason: "Claim", suggestion: "Results", sources: [] }],
+});
+
+/**
+ * Make the (shared) provider answer each generate() call with the next response;
+ * an Error is thrown instead of returned
+ */
+function scriptModel(responses) {
+  const prompts = [];
+  Object.assign(getLLMProvider(), {
+    supportsGeneration: true,
+    generateStream: undefined,
+    generate: async (prompt) => {
+      prompts.push(prompt);
+      const next = responses.shift();
+      if (next instanceof Error) throw next;
+      return next;
+    },
+  });
+  return prompts;
+}
+
+beforeEach(() => {
+  reset();
+  prisma.policyRule = { findMany: async () => [] };
+  prisma.complianceCheck = { create: async () => ({}) };
+  vectorStore.isConnected = true;
+  vectorStore.search = async () => [];
+  cache.entries.clear();
+  cache.policyVersion = async () => "test-policy";
+});
+
+test("an invalid response is repaired with its validation errors", async () => {
+  const prompts = scriptModel(['{"isCompliant": false, "issues": [{"text": "Guaranteed results"}]}', VALID]);
+  const result = await checkCompliance(TEXT);
+
+  assert.equal(result.status, "ok");
+  assert.deepEqual(result.issues.map((found) => [found.text, found.start]), [["Guaranteed results", 0]]);
+  assert.equal(prompts.length, 2);
+  assert.match(prompts[1], /Your previous response was rejected/);
+  assert.match(prompts[1], /issues\[0\]\.severity must be one of/);
+});
+
+test("AI issues keep the model's category, missing or unknown ones read as general", async () => {
+  const issue = (text, category) => ({ text, severity: "low", category, reason: "Claim", suggestion: "", sources: [] });
+  scriptModel([
+    JSON.stringify({
+      isCompliant: false,
+      issues: [issue("Guaranteed", "legal"), issue("results", "timing"), { ...issue("7 days"), category: undefined }],
+    }),
+  ]);
+  const result = await checkCompliance(TEXT);
+
+  assert.deepEqual(result.issues.map((found) => [found.text, found.category]), [
+    ["Guaranteed", "legal"],
+    ["results", "general"],
+    ["7 days", "general"],
+  ]);
+});
+
+test("quotes still missing from the text after the repair are dropped", async () => {
+  const invented = JSON.stringify({
+    isCompliant: false,
+    issues: [{ text: "free shipping", severity: "low", reason: "Claim", suggestion: "", sources: [] }],
+  });
+  const prompts = scriptModel([invented, invented]);
+  const result = await checkCompliance(TEXT);
+
+  assert.match(prompts[1], /"free shipping" does not occur in the text/);
+  assert.equal(result.status, "ok");
+  assert.deepEqual(result.issues, []);
+});
+
+test("a model that keeps failing gives a degraded result instead of a made-up issue", async () => {
+  scriptModel(["not json", "still not json"]);
+  const result = await checkCompliance(TEXT);
+
+  assert.equal(result.status, "degraded");
+  assert.equal(result.isCompliant, false);
+  assert.deepEqual(result.issues, []);
+  assert.match(result.degradedReason, /invalid response/);
+});
+
+test("without a generation provider the check is rule-only and never compliant by itself", async () => {
+  Object.assign(getLLMProvider(), { supportsGeneration: false });
+  const result = await checkCompliance(TEXT);
+
+  assert.equal(result.status, "rules_only");
+  assert.equal(result.isCompliant, false);
+  assert.deepEqual(result.issues, []);
+});
+
+test("a provider error degrades the check but keeps rule hits", async () => {
+  prisma.policyRule.findMany = async () => [
+    { id: "r1", pattern: "guaranteed", patternType: "word", severity: "high", isActive: true },
+  ];
+  scriptModel([new Error("quota exceeded")]);
+  const result = await checkCompliance(TEXT);
+
+  assert.equal(result.status, "degraded");
+  assert.deepEqual(result.issues.map((found) => found.source), ["rule"]);
+});
@@ -0,0 +1,102 @@
+const { test, afterEach, beforeEach } = require("node:test");
+const assert = require("node:assert/strict");
+const { prisma, reset } = require("./helpers/prisma");
+const { startSmtpServer } = require("./helpers/smtpServer");
+const { sendMail } = require("../src/lib/smtp");
+const emailDigest = require("../src/services/emailDigest");
+
+let smtp;
+
+/**
+ * One unread notification for each user, and the notification updates the run makes
+ */
+function pendingFor(users) {
+  const updates = [];
+  prisma.notification = {
+    findMany: async () =>
+      users.map((user, i) => ({
+        id: i + 1,
+        userId: user.id,
+        user,
+        message: `Update for ${user.name}`,
+        data: {},
+        createdAt: new Date("2026-01-01T12:00:00Z"),
+      })),
+    updateMany: async ({ where, data }) => updates.push({ ids: where.id.in, data }),
+  };
+  prisma.approvalStep = { count: async () => 0 };
+  return updates;
+}
+
+function useServer(server) {
+  smtp = server;
+  process.env.SMTP_HOST = "127.0.0.1";
+  process.env.SMTP_PORT = String(server.port);
+}
+
+beforeEach(reset);
+
+afterEach(async () => {
+  delete process.env.SMTP_HOST;
+  delete process.env.SMTP_PORT;
+  delete process.env.SMTP_USER;
+  delete process.env.SMTP_PASS;
+  await smtp?.close();
+  smtp = null;
+});
+
+test("credentials are not sent to a server without STARTTLS", async () => {
+  useServer(await startSmtpServer({ extensions: ["AUTH PLAIN LOGIN"] }));
+
+  await assert.rejects(
+    sendMail({
+      host: "127.0.0.1",
+      port: smtp.port,
+      user: "veritas",
+      pass: "secret",
+      from: "veritas@example.com",
+      to: "reviewer@example.com",
+      subject: "Hi",
+      text: "Hello",
+    }),
+    { code: "SMTP_INSECURE_AUTH" }
+  );
+  assert.deepEqual(smtp.sessions[0].filter((line) => /^AUTH/.test(line)), []);
+});
+
+test("a refused unencrypted login stops the digest run without marking anything", async () => {
+  useServer(await startSmtpServer({ extensions: ["AUTH PLAIN"] }));
+  process.env.SMTP_USER = "veritas";
+  process.env.SMTP_PASS = "secret";
+  const updates = pendingFor([
+    { id: "u1", name: "Ann", email: "ann@example.com", role: "DESIGNER" },
+    { id: "u2", name: "Bo", email: "bo@example.com", role: "DESIGNER" },
+  ]);
+
+  assert.deepEqual(await emailDigest.sendDigests(), { sent: 0, failed: 0 });
+  assert.equal(smtp.sessions.length, 1);
+  assert.deepEqual(updates, []);
+});
+
+test("a digest the server rejects is recorded and not retried, and the others are still sent", async () => {
+  useServer(
+    await startSmtpServer({ reply: (line) => line === "RCPT TO:<gone@example.com>" && "550 5.1.1 No such user" })
+  );
+  const updates = pendingFor([
+    { id: "u1", name: "Gone", email: "gone@example.com", role: "DESIGNER" },
+    { id: "u2", name: "Bo", email: "bo@example.com", role: "DESIGNER" },
+  ]);
+
+  assert.deepEqual(await emailDigest.sendDigests(), { sent: 1, failed: 1 });
+
+  // One connection per digest: the rejected one was not tried again
+  assert.equal(smtp.sessions.length, 2);
+  assert.ok(!smtp.sessions[0].includes("<message>"));
+  assert.ok(smtp.sessions[1].includes("<message>"));
+
+  assert.equal(updates.length, 2);
+  assert.deepEqual(updates[0].ids, [1]);
+  assert.match(updates[0].data.emailError, /550 5\.1\.1 No such user/);
+  assert.deepEqual(updates[1].ids, [2]);
+  assert.ok(updates[1].data.emailedAt instanceof Date);
+});
@@ -0,0 +1,34 @@
+const { test, beforeEach } = require("node:test");
+const assert = require("node:assert/strict");
+const { prisma, reset } = require("./helpers/prisma");
+const eventBus = require("../src/services/eventBus");
+
+/**
+ * Notifications 1..count for one user, queried like the database would
+ */
+function storeNotifications(count) {
+  const rows = Array.from({ length: count }, (_, i) => ({ id: i + 1, userId: "u1" }));
+  prisma.notification = {
+    findMany: async ({ where, take }) => rows.filter((row) => row.id > where.id.gt).slice(0, take),
+    findFirst: async () => ({ id: rows[rows.length - 1].id }),
+  };
+}
+
+beforeEach(reset);
+
+test("replay returns everything missed after the last id, oldest first", async () => {
+  storeNotifications(150);
+
+  const missed = await eventBus.replay("u1", 60);
+  assert.equal(missed.truncated, false);
+  assert.equal(missed.notifications.length, 90);
+  assert.equal(missed.notifications[0].id, 61);
+  assert.equal(missed.notifications.at(-1).id, 150);
+});
+
+test("replay asks for a resync from the latest id instead of dropping what is past the limit", async () => {
+  storeNotifications(150);
+
+  const missed = await eventBus.replay("u1", 10);
+  assert.deepEqual(missed, { notifications: [], truncated: true, latestId: 150 });
+});
@@ -0,0 +1,31 @@
+/**
+ * In-memory stand-in for src/lib/prisma.js
+ *
+ * Require this before any module under test. Tests assign the model methods
+ * they need, e.g. `prisma.user = { findMany: async () => [...] }`, and call
+ * reset() between tests.
+ */
+
+const path = require("path");
+
+const prisma = {
+  async $transaction(input) {
+    return typeof input === "function" ? input(prisma) : Promise.all(input);
+  },
+};
+
+function reset() {
+  for (const key of Object.keys(prisma)) {
+    if (!key.startsWith("$")) delete prisma[key];
+  }
+}
+
+const modulePath = require.resolve(path.join(__dirname, "../../src/lib/prisma"));
+require.cache[modulePath] = {
+  id: modulePath,
+  filename: modulePath,
+  loaded: true,
+  exports: prisma,
+};
+
+module.exports = { prisma, reset };
@@ -0,0 +1,72 @@
+/**
+ * Scripted SMTP server on 127.0.0.1 for tests
+ *
+ * Answers 250 to everything (354 to DATA, 221 to QUIT) unless `reply(line)`
+ * returns a reply of its own, e.g. `(line) => line.startsWith("RCPT") && "550 No such user"`.
+ * `extensions` are the EHLO keywords offered (no STARTTLS unless listed).
+ * `sessions` holds the command lines of every connection, one array each;
+ * a message sent after DATA is recorded as "<message>".
+ */
+
+const net = require("net");
+
+async function startSmtpServer({ extensions = [], reply = () => null } = {}) {
+  const sessions = [];
+  const sockets = new Set();
+
+  const server = net.createServer((socket) => {
+    const commands = [];
+    sessions.push(commands);
+    sockets.add(socket);
+    socket.on("close", () => sockets.delete(socket));
+    socket.setEncoding("utf8");
+
+    let buffer = "";
+    let inData = false;
+    const respond = (line) => {
+      const custom = reply(line);
+      if (custom) return socket.write(`${custom}\r\n`);
+      if (/^EHLO /i.test(line)) {
+        const lines = ["stub.test", ...extensions, "OK"];
+        return socket.write(lines.map((text, i) => `250${i < lines.length - 1 ? "-" : " "}${text}\r\n`).join(""));
+      }
+      if (line === "DATA") {
+        inData = true;
+        return socket.write("354 Go ahead\r\n");
+      }
+      if (line === "QUIT") return socket.end("221 Bye\r\n");
+      return socket.write("250 OK\r\n");
+    };
+
+    socket.on("data", (chunk) => {
+      buffer += chunk;
+      let index;
+      while ((index = buffer.indexOf("\r\n")) !== -1) {
+        const line = buffer.slice(0, index);
+        buffer = buffer.slice(index + 2);
+        if (inData) {
+          if (line !== ".") continue;
+          inData = false;
+          commands.push("<message>");
+          respond("<message>");
+          continue;
+        }
+        commands.push(line);
+        respond(line);
+      }
+    });
+    socket.write("220 stub.test ESMTP\r\n");
+  });
+
+  await new Promise((resolve) => server.listen(0, "127.0.0.1", resolve));
+  return {
+    port: server.address().port,
+    sessions,
+    close() {
+      for (const socket of sockets) socket.destroy();
+      return new Promise((resolve) => server.close(resolve));
+    },
+  };
+}
+
+module.exports = { startSmtpServer };
@@ -0,0 +1,31 @@
+const { test } = require("node:test");
+const assert = require("node:assert/strict");
+const IssueStreamParser = require("../src/services/issueStreamParser");
+
+const RESPONSE =
+  '```json\n{"summary": "ok", "issues": [{"text": "a } b", "severity": "high"}, ' +
+  '{"text": "say \\"free\\"", "nested": {"x": [1]}}], "score": 40}\n```';
+
+test("issues are emitted as soon as each object is complete", () => {
+  const parser = new IssueStreamParser();
+  const seen = [];
+  for (const char of RESPONSE) {
+    for (const issue of parser.push(char)) seen.push(issue);
+  }
+  assert.deepEqual(seen, [
+    { text: "a } b", severity: "high" },
+    { text: 'say "free"', nested: { x: [1] } },
+  ]);
+});
+
+test("nothing is emitted before the issues array or after it closes", () => {
+  const parser = new IssueStreamParser();
+  assert.deepEqual(parser.push('{"summary": "{not an issue}", '), []);
+  assert.deepEqual(parser.push('"issues": [{"text": "x"}'), [{ text: "x" }]);
+  assert.deepEqual(parser.push('], "extra": [{"text": "y"}]}'), []);
+});
+
+test("malformed items are skipped", () => {
+  const parser = new IssueStreamParser();
+  assert.deepEqual(parser.push('"issues": [{"text": x}, {"text": "ok"}]'), [{ text: "ok" }]);
+});
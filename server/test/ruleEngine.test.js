@@ -0,0 +1,63 @@
+const { test } = require("node:test");
+const assert = require("node:assert/strict");
+require("./helpers/prisma");
+const { compileRule, validatePattern, evaluateRules, locateSpan, mergeIssues } = require("../src/services/ruleEngine");
+
+const rule = (pattern, extra = {}) => ({ id: pattern, pattern, severity: "medium", ...extra });
+
+test("phrase rules match case-insensitively with flexible whitespace", () => {
+  const hits = evaluateRules("Results are GUARANTEED\n  results, guaranteed.", [rule("guaranteed results")]);
+  assert.equal(hits.length, 1);
+  assert.deepEqual([hits[0].start, hits[0].end], [12, 32]);
+  assert.equal(hits[0].source, "rule");
+});
+
+test("word rules do not match inside other words", () => {
+  const regex = compileRule(rule("cure", { patternType: "word" }));
+  assert.equal(regex.test("secure checkout"), false);
+  regex.lastIndex = 0;
+  assert.equal(regex.test("a cure for everything"), true);
+});
+
+test("overlapping hits keep the longer span", () => {
+  const hits = evaluateRules("100% risk free trial", [
+    rule("risk free", { severity: "high" }),
+    rule("100% risk free", { severity: "low" }),
+  ]);
+  assert.equal(hits.length, 1);
+  assert.equal(hits[0].text, "100% risk free");
+});
+
+test("validatePattern rejects empty and empty-matching patterns", () => {
+  assert.match(validatePattern("  "), /cannot be empty/);
+  assert.match(validatePattern("a*", "regex"), /empty text/);
+  assert.match(validatePattern("x", "glob"), /patternType/);
+  assert.equal(validatePattern("free"), null);
+});
+
+test("locateSpan ignores case and whitespace differences", () => {
+  const text = "We offer guaranteed   results.";
+  assert.deepEqual(locateSpan(text, "Guaranteed results"), { start: 9, end: 29 });
+  assert.equal(locateSpan(text, "refund"), null);
+  assert.equal(locateSpan(text, "  "), null);
+});
+
+test("mergeIssues drops AI issues that repeat or overlap rule hits", () => {
+  const text = "Get guaranteed   results and a free gift. Free gift!";
+  const ruleHits = evaluateRules(text, [rule("guaranteed results")]);
+  const merged = mergeIssues(
+    ruleHits,
+    [
+      { text: "Guaranteed results", severity: "high" },
+      { text: "free gift", severity: "low" },
+      { text: "Free  gift", severity: "low" },
+      { text: "not in the text", severity: "low" },
+    ],
+    text
+  );
+
+  assert.deepEqual(
+    merged.map((issue) => [issue.source, issue.start]),
+    [["rule", 4], ["ai", 31], ["ai", null]]
+  );
+});
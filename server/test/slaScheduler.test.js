@@ -0,0 +1,103 @@
+const { test, beforeEach } = require("node:test");
+const assert = require("node:assert/strict");
+const { prisma, reset } = require("./helpers/prisma");
+const eventBus = require("../src/services/eventBus");
+const scheduler = require("../src/services/slaScheduler");
+
+const NOW = new Date("2026-01-01T12:00:00Z");
+
+/**
+ * An overdue LEGAL step; `users` are the active users by id, `delegations` as { userId: delegateId }
+ */
+function setup(escalation, users = {}, delegations = {}) {
+  const updates = [];
+  const published = [];
+  prisma.user = {
+    findFirst: async ({ where }) => users[where.id] || null,
+    findMany: async ({ where }) =>
+      Object.values(users).filter((user) => (where.id ? user.id === where.id : user.role === where.role)),
+  };
+  prisma.delegation = {
+    findFirst: async ({ where }) =>
+      delegations[where.userId] ? { userId: where.userId, delegateId: delegations[where.userId] } : null,
+  };
+  prisma.approvalStep = {
+    updateMany: async ({ data }) => {
+      updates.push(data);
+      return { count: 1 };
+    },
+  };
+  prisma.design = { findUnique: async () => null };
+  eventBus.publish = async (type, payload) => published.push({ type, ...payload });
+
+  const step = {
+    id: "step-1",
+    stepName: "Legal Review",
+    requiredRole: "LEGAL",
+    assigneeId: null,
+    escalateAt: NOW,
+    sla: { slaHours: 8, escalation },
+    workflow: { contentId: "content-1", content: { creatorId: "creator" } },
+  };
+  return { step, updates, published };
+}
+
+beforeEach(reset);
+
+test("an overdue step goes to the backup reviewer with a fresh SLA", async () => {
+  const { step, updates, published } = setup(
+    { toUserId: "bea", toRole: "EXECUTIVE" },
+    { bea: { id: "bea", name: "Bea", role: "LEGAL" } }
+  );
+
+  assert.equal(await scheduler.escalate(step, NOW), true);
+  assert.equal(updates[0].assigneeId, "bea");
+  assert.equal(updates[0].dueAt.toISOString(), "2026-01-01T20:00:00.000Z");
+  assert.equal(updates[0].escalateAt, null);
+  assert.deepEqual(published[0].recipientIds, ["bea", "creator"]);
+  assert.equal(published[0].escalatedTo, "Bea");
+});
+
+test("a backup reviewer who is away hands the step to their delegate", async () => {
+  const { step, updates } = setup(
+    { toUserId: "bea" },
+    { bea: { id: "bea", name: "Bea", role: "LEGAL" }, dan: { id: "dan", name: "Dan", role: "LEGAL" } },
+    { bea: "dan" }
+  );
+
+  assert.equal(await scheduler.escalate(step, NOW), true);
+  assert.equal(updates[0].assigneeId, "dan");
+  assert.deepEqual(updates[0].assignedAt, NOW);
+});
+
+test("without a usable backup the step moves to the escalation role", async () => {
+  const { step, updates, published } = setup(
+    { toUserId: "creator", toRole: "EXECUTIVE" },
+    { creator: { id: "creator", name: "Cy", role: "LEGAL" }, eve: { id: "eve", name: "Eve", role: "EXECUTIVE" } }
+  );
+
+  assert.equal(await scheduler.escalate(step, NOW), true);
+  assert.equal(updates[0].requiredRole, "EXECUTIVE");
+  assert.equal(updates[0].assigneeId, null);
+  assert.deepEqual(published[0].recipientIds, ["eve", "creator"]);
+});
+
+test("a backup reviewer (or delegate) without the step's role is passed over for the escalation role", async () => {
+  const { step, updates } = setup(
+    { toUserId: "bea", toRole: "EXECUTIVE" },
+    { bea: { id: "bea", name: "Bea", role: "LEGAL" }, mo: { id: "mo", name: "Mo", role: "MANAGER" } },
+    { bea: "mo" }
+  );
+
+  assert.equal(await scheduler.escalate(step, NOW), true);
+  assert.equal(updates[0].requiredRole, "EXECUTIVE");
+  assert.equal(updates[0].assigneeId, null);
+});
+
+test("a step with no escalation target only stops being escalated", async () => {
+  const { step, updates, published } = setup({ toRole: "LEGAL" });
+
+  assert.equal(await scheduler.escalate(step, NOW), false);
+  assert.deepEqual(updates, [{ escalateAt: null }]);
+  assert.deepEqual(published, []);
+});
@@ -0,0 +1,32 @@
+const { test } = require("node:test");
+const assert = require("node:assert/strict");
+const { diffWords, diffStats } = require("../src/services/textDiff");
+
+test("identical texts are one equal segment", () => {
+  assert.deepEqual(diffWords("same text", "same text"), [{ type: "equal", text: "same text" }]);
+});
+
+test("a multi-word replacement reads as one delete and one insert", () => {
+  assert.deepEqual(diffWords("It is 100% waterproof today", "It is water-resistant (IP67) today"), [
+    { type: "equal", text: "It is " },
+    { type: "delete", text: "100% waterproof" },
+    { type: "insert", text: "water-resistant (IP67)" },
+    { type: "equal", text: " today" },
+  ]);
+});
+
+test("insertions and deletions are word-level", () => {
+  const segments = diffWords("the quick fox", "the quick brown fox");
+  assert.deepEqual(segments, [
+    { type: "equal", text: "the quick " },
+    { type: "insert", text: "brown " },
+    { type: "equal", text: "fox" },
+  ]);
+  assert.deepEqual(diffStats(segments), { wordsAdded: 1, wordsRemoved: 0 });
+});
+
+test("empty inputs", () => {
+  assert.deepEqual(diffWords("", ""), []);
+  assert.deepEqual(diffWords(null, "new copy"), [{ type: "insert", text: "new copy" }]);
+  assert.deepEqual(diffStats(diffWords("old copy", "")), { wordsAdded: 0, wordsRemoved: 2 });
+});
@@ -0,0 +1,101 @@
+const { test, before, after, beforeEach } = require("node:test");
+const assert = require("node:assert/strict");
+const crypto = require("crypto");
+const http = require("http");
+const { prisma, reset } = require("./helpers/prisma");
+const webhooks = require("../src/services/webhooks");
+
+const SECRET = "whsec_test";
+const BACKOFF_MS = Number(process.env.WEBHOOK_BACKOFF_MS || 30000);
+const MAX_ATTEMPTS = Number(process.env.WEBHOOK_MAX_ATTEMPTS || 6);
+
+// Local receiver: records each request and answers with the next queued status (200 when empty)
+let server;
+let url;
+const received = [];
+const statuses = [];
+
+before(async () => {
+  server = http.createServer((req, res) => {
+    let body = "";
+    req.on("data", (chunk) => (body += chunk));
+    req.on("end", () => {
+      received.push({ headers: req.headers, body });
+      res.writeHead(statuses.shift() || 200).end("ok");
+    });
+  });
+  await new Promise((resolve) => server.listen(0, "127.0.0.1", resolve));
+  url = `http://127.0.0.1:${server.address().port}/hooks`;
+});
+
+after(() => {
+  server.closeAllConnections();
+  server.close();
+});
+
+/**
+ * Attempt one delivery against the receiver and return what was saved for it
+ */
+async function deliver({ attempts = 0, status } = {}) {
+  const updates = [];
+  prisma.webhookDelivery = {
+    updateMany: async () => ({ count: 1 }),
+    update: async ({ data }) => updates.push(data),
+  };
+  if (status) statuses.push(status);
+
+  await webhooks.attempt({
+    id: "delivery-1",
+    event: "step.approved",
+    attempts,
+    payload: { event: "step.approved", content: { id: "c1" } },
+    webhook: { url, secret: SECRET, isActive: true },
+  });
+  return updates[0];
+}
+
+beforeEach(() => {
+  reset();
+  received.length = 0;
+  statuses.length = 0;
+});
+
+test("deliveries are signed with an HMAC of the timestamp and body", async () => {
+  const saved = await deliver();
+
+  assert.equal(saved.status, "SUCCEEDED");
+  assert.equal(received.length, 1);
+  const { headers, body } = received[0];
+  const expected = crypto.createHmac("sha256", SECRET).update(`${headers["x-veritas-timestamp"]}.${body}`).digest("hex");
+  assert.equal(headers["x-veritas-signature"], `sha256=${expected}`);
+  assert.equal(headers["x-veritas-event"], "step.approved");
+  assert.equal(headers["x-veritas-delivery"], "delivery-1");
+  assert.deepEqual(JSON.parse(body), { event: "step.approved", content: { id: "c1" } });
+});
+
+test("a 5xx response is retried with exponential backoff", async () => {
+  for (const [attempts, delayMs] of [[0, BACKOFF_MS], [2, BACKOFF_MS * 4]]) {
+    const startedAt = Date.now();
+    const saved = await deliver({ attempts, status: 503 });
+
+    assert.equal(saved.status, "PENDING");
+    assert.equal(saved.responseStatus, 503);
+    assert.equal(saved.error, "HTTP 503");
+    const wait = saved.nextAttemptAt.getTime() - startedAt;
+    assert.ok(wait >= delayMs && wait < delayMs + 5000, `retry in ${wait}ms`);
+  }
+});
+
+test("a 5xx on the last attempt fails the delivery", async () => {
+  const saved = await deliver({ attempts: MAX_ATTEMPTS - 1, status: 500 });
+  assert.equal(saved.status, "FAILED");
+});
+
+test("a 4xx response fails the delivery without a retry, except 408 and 429", async () => {
+  const rejected = await deliver({ status: 400 });
+  assert.equal(rejected.status, "FAILED");
+  assert.equal(rejected.nextAttemptAt, undefined);
+
+  const throttled = await deliver({ status: 429 });
+  assert.equal(throttled.status, "PENDING");
+});
@@ -0,0 +1,165 @@
+const { test } = require("node:test");
+const assert = require("node:assert/strict");
+const { prisma, reset } = require("./helpers/prisma");
+const { validateTemplateSteps, buildSteps, slaDeadlines, advanceWorkflow } = require("../src/services/workflowEngine");
+
+test("validateTemplateSteps accepts sequential and parallel stages", () => {
+  assert.equal(
+    validateTemplateSteps([
+      { name: "Manager Review", requiredRole: "MANAGER", slaHours: 24, remindBeforeHours: 4 },
+      {
+        parallel: [
+          { name: "Legal Review", requiredRole: "LEGAL" },
+          { name: "Exec Sign-off", requiredRole: "EXECUTIVE", assignment: { strategy: "round_robin" } },
+        ],
+        requiredApprovals: 1,
+        condition: { minSeverity: "high" },
+      },
+    ]),
+    null
+  );
+});
+
+test("validateTemplateSteps reports the first problem with its path", () => {
+  assert.match(validateTemplateSteps([]), /non-empty array/);
+  assert.match(validateTemplateSteps([{ name: "X", requiredRole: "INTERN" }]), /steps\[0\]\.requiredRole/);
+  assert.match(
+    validateTemplateSteps([{ parallel: [{ name: "A", requiredRole: "LEGAL" }] }]),
+    /parallel needs at least 2/
+  );
+  assert.match(
+    validateTemplateSteps([
+      { parallel: [{ name: "A", requiredRole: "LEGAL" }, { name: "B", requiredRole: "MANAGER" }], requiredApprovals: 3 },
+    ]),
+    /requiredApprovals must be between 1 and 2/
+  );
+  assert.match(
+    validateTemplateSteps([{ name: "A", requiredRole: "LEGAL", condition: { minSeverity: "urgent" } }]),
+    /condition\.minSeverity/
+  );
+  assert.match(
+    validateTemplateSteps([{ name: "A", requiredRole: "LEGAL", remindBeforeHours: 2 }]),
+    /remindBeforeHours needs slaHours/
+  );
+  assert.match(
+    validateTemplateSteps([{ name: "A", requiredRole: "LEGAL", slaHours: 4, escalation: { afterHours: 2 } }]),
+    /escalation needs toUserId or toRole/
+  );
+  assert.match(
+    validateTemplateSteps([{ name: "A", requiredRole: "LEGAL", assignment: { strategy: "explicit" } }]),
+    /assignment\.userId is required/
+  );
+});
+
+test("buildSteps skips stages whose condition does not hold and opens the first one that does", () => {
+  const template = {
+    steps: [
+      { name: "Legal Review", requiredRole: "LEGAL", condition: { issueCategories: ["claims"] } },
+      {
+        parallel: [
+          { name: "Brand", requiredRole: "MANAGER", slaHours: 8 },
+          { name: "Exec", requiredRole: "EXECUTIVE" },
+        ],
+        requiredApprovals: 1,
+      },
+      { name: "Final", requiredRole: "ADMIN" },
+    ],
+  };
+  const { steps, currentStep } = buildSteps(template, { issues: [{ severity: "low", category: "tone" }] });
+
+  assert.equal(currentStep, 2);
+  assert.deepEqual(
+    steps.map((step) => [step.stepNumber, step.stepName, step.status, step.requiredApprovals]),
+    [
+      [1, "Legal Review", "SKIPPED", 1],
+      [2, "Brand", "IN_PROGRESS", 1],
+      [2, "Exec", "IN_PROGRESS", 1],
+      [3, "Final", "PENDING", 1],
+    ]
+  );
+  assert.ok(steps[1].dueAt instanceof Date);
+  assert.equal(steps[2].dueAt, null);
+  assert.equal(steps[3].dueAt, undefined);
+});
+
+test("buildSteps runs a conditional stage when an issue is severe enough", () => {
+  const template = {
+    steps: [
+      { name: "Manager Review", requiredRole: "MANAGER" },
+      { name: "Legal Review", requiredRole: "LEGAL", condition: { minSeverity: "medium" } },
+    ],
+  };
+  const { steps } = buildSteps(template, { issues: [{ severity: "high", category: "claims" }] });
+  assert.deepEqual(steps.map((step) => step.status), ["IN_PROGRESS", "PENDING"]);
+});
+
+test("slaDeadlines reminds a quarter of the SLA before it is due by default", () => {
+  const from = new Date("2026-01-01T00:00:00Z");
+  const { dueAt, remindAt, escalateAt } = slaDeadlines({ slaHours: 8 }, from);
+  assert.equal(dueAt.toISOString(), "2026-01-01T08:00:00.000Z");
+  assert.equal(remindAt.toISOString(), "2026-01-01T06:00:00.000Z");
+  assert.equal(escalateAt, null);
+
+  const sla = { slaHours: 8, remindBeforeHours: 0, escalation: { afterHours: 4, toRole: "EXECUTIVE" } };
+  const escalating = slaDeadlines(sla, from);
+  assert.equal(escalating.remindAt, null);
+  assert.equal(escalating.escalateAt.toISOString(), "2026-01-01T12:00:00.000Z");
+  assert.deepEqual(slaDeadlines(null, from), { dueAt: null, remindAt: null, escalateAt: null });
+});
+
+test("buildSteps returns no current step when every stage is skipped", () => {
+  const { currentStep } = buildSteps(
+    { steps: [{ name: "Legal Review", requiredRole: "LEGAL", condition: { minSeverity: "high" } }] },
+    { issues: [] }
+  );
+  assert.equal(currentStep, null);
+});
+
+test("buildSteps runs conditional stages when the compliance check was not a full review", () => {
+  const template = {
+    steps: [{ name: "Legal Review", requiredRole: "LEGAL", condition: { minSeverity: "high", issueCategories: ["claims"] } }],
+  };
+
+  for (const result of [
+    null,
+    { status: "degraded", isCompliant: false, issues: [] },
+    { status: "rules_only", isCompliant: false, issues: [{ severity: "low", category: "tone" }] },
+  ]) {
+    const { steps, currentStep } = buildSteps(template, result);
+    assert.equal(currentStep, 1);
+    assert.equal(steps[0].status, "IN_PROGRESS");
+  }
+
+  assert.equal(buildSteps(template, { status: "ok", isCompliant: true, issues: [] }).currentStep, null);
+});
+
+test("advanceWorkflow closes the workflow when a stage can no longer be approved", async () => {
+  reset();
+  const updates = [];
+  const record = (model) => async ({ where, data }) => updates.push([model, where.id, data.status]);
+  prisma.workflow = {
+    findUnique: async ({ include }) =>
+      include.content
+        ? null
+        : {
+            id: "wf",
+            contentId: "content-1",
+            currentStep: 1,
+            steps: [
+              { id: "a", stepNumber: 1, requiredApprovals: 2, status: "REJECTED" },
+              { id: "b", stepNumber: 1, requiredApprovals: 2, status: "IN_PROGRESS" },
+              { id: "c", stepNumber: 2, requiredApprovals: 1, status: "PENDING" },
+            ],
+          },
+    update: record("workflow"),
+  };
+  prisma.content = { update: record("content") };
+  prisma.approvalStep = { updateMany: async ({ where, data }) => updates.push(["steps", where.id.in, data.status]) };
+
+  assert.deepEqual(await advanceWorkflow("wf"), { outcome: "CHANGES_REQUESTED", stepNumber: 1 });
+  assert.deepEqual(updates, [
+    ["steps", ["b"], "SKIPPED"],
+    ["workflow", "wf", "CHANGES_REQUESTED"],
+    ["content", "content-1", "CHANGES_REQUESTED"],
+  ]);
+});
@@ -1,65 +1,358 @@
-import React, { useState, useEffect } from "react";
+import React, { useState, useEffect, useRef } from "react";
 import "./App.css";
+import { AppliedTextEdit, DocumentSandboxApi, DocumentTextNode, TextEdit } from "../models/DocumentSandboxApi";
 
 // ============================================
 // SDK & API CONFIGURATION
 // ============================================
 const addOnUISdk: any = (window as any).addOnUISdk;
 const API_BASE = "http://localhost:4000/api";
+const SERVER_BASE = API_BASE.replace(/\/api$/, "");
 
 // ============================================
 // TYPES
 // ============================================
-type Role = "DESIGNER" | "MANAGER";
+type Role = "DESIGNER" | "MANAGER" | "LEGAL" | "EXECUTIVE" | "ADMIN";
 type WorkflowStep = "CAPTURE" | "REVIEW" | "SUBMITTED";
 
+interface Citation {
+  documentId: string;
+  filename: string | null;
+  originalName: string | null;
+  chunkIndex: number | null;
+  page: number | null;
+  excerpt: string;
+  url: string | null;
+}
+
 interface Issue {
   text: string;
   reason: string;
   suggestion: string;
   severity: "low" | "medium" | "high";
+  category?: string | null;
+  source?: "rule" | "ai" | "visual";
+  ruleId?: string | null;
+  start?: number | null;
+  end?: number | null;
+  citations?: Citation[];
+  bbox?: BoundingBox | null; // Where the issue is on the design snapshot
+}
+
+// Fractions (0..1) of the snapshot's width/height
+interface BoundingBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
 }
 
 interface ComplianceResult {
   isCompliant: boolean;
+  status?: "ok" | "degraded" | "rules_only"; // degraded: the AI review failed; rules_only: no AI provider configured
+  degradedReason?: string;
   issues: Issue[];
   checkedAt: string;
 }
 
+// Policy chunk the AI step was given (from the streaming check)
+interface PolicyContextChunk {
+  ref: number;
+  documentId: string;
+  originalName: string | null;
+  page: number | null;
+  score: number | null;
+}
+
+// Server-sent events of POST /compliance/check/stream, in order
+type ComplianceStreamEvent =
+  | { event: "rules"; data: { issues: Issue[] } }
+  | { event: "context"; data: { chunks: PolicyContextChunk[] } }
+  | { event: "issue"; data: { issue: Issue } }
+  | { event: "summary"; data: { result: ComplianceResult } };
+
+type IngestionStatus = "QUEUED" | "EXTRACTING" | "EMBEDDING" | "INDEXED" | "FAILED" | "NOT_INDEXED";
+
+interface DocumentStatus {
+  documentId: string;
+  status: IngestionStatus;
+  totalChunks: number;
+  processedChunks: number;
+  progress: number;
+  error: string | null;
+}
+
+// Policy document as listed by GET /documents (latest ingestion job attached)
+interface PolicyDocument {
+  id: string;
+  filename: string;
+  originalName: string | null;
+  pageCount: number | null;
+  createdAt: string;
+  ingestion: {
+    status: IngestionStatus;
+    totalChunks: number;
+    processedChunks: number;
+    error: string | null;
+  } | null;
+}
+
+const ACTIVE_INGESTION: IngestionStatus[] = ["QUEUED", "EXTRACTING", "EMBEDDING"];
+
+const ROLE_LABELS: Record<Role, string> = {
+  DESIGNER: "Designer",
+  MANAGER: "Manager",
+  LEGAL: "Legal",
+  EXECUTIVE: "Executive",
+  ADMIN: "Admin",
+};
+
+type StepStatus = "PENDING" | "IN_PROGRESS" | "APPROVED" | "REJECTED" | "SKIPPED";
+
+interface StepComment {
+  id: string;
+  text: string;
+  createdAt: string;
+  author?: { name: string; role: string };
+}
+
+interface ApprovalStep {
+  id: string;
+  stepNumber: number;
+  stepName: string;
+  requiredRole: Role;
+  requiredApprovals: number;
+  status: StepStatus;
+  feedback: string | null;
+  decidedAt: string | null;
+  dueAt?: string | null; // SLA deadline while the step is open
+  escalatedAt?: string | null;
+  assigneeId?: string | null;
+  assignee?: { name: string; role: string } | null;
+  comments?: StepComment[];
+}
+
 interface CapturedDesign {
   snapshot: string; // base64 PNG
   text: string;
+  textNodes: DocumentTextNode[]; // Empty when the text was pasted
   title: string;
   capturedAt: string;
 }
 
+interface DiffSegment {
+  type: "equal" | "insert" | "delete";
+  text: string;
+}
+
+interface ContentDiff {
+  from: { version: number; workflowOutcome: string | null };
+  to: { version: number };
+  titleChanged: boolean;
+  renditionChanged: boolean;
+  segments: DiffSegment[];
+  stats: { wordsAdded: number; wordsRemoved: number };
+  feedback: {
+    stepName: string;
+    feedback: string | null;
+    reviewer: string | null;
+    comments: { text: string; author?: { name: string } }[];
+  }[];
+}
+
+interface CurrentUser {
+  id: string;
+  name: string;
+  email: string;
+  role: Role;
+  team?: string | null;
+}
+
+type DesignStatusValue = "DRAFT" | "PENDING" | "CHANGES_REQUESTED" | "APPROVED" | "PUBLISHED";
+
+interface DesignLogEntry {
+  id: number;
+  action: string; // SUBMITTED, STEP_APPROVED, APPROVED, REJECTED, COMMENTED, UPDATED, PUBLISHED...
+  feedback: string | null;
+  stepName: string | null;
+  createdAt: string;
+  actor?: { name: string; role: Role } | null;
+}
+
+// Tracking record of the open Express document (GET /api/status/:adobeId)
+interface DesignStatus {
+  status: DesignStatusValue;
+  content: {
+    id: string;
+    title: string;
+    version: number;
+    status: string;
+    pendingSteps: { stepName: string; requiredRole: Role }[];
+  } | null;
+  logs: DesignLogEntry[]; // Newest first
+}
+
+type NotificationType =
+  | "content.submitted"
+  | "step.approved"
+  | "step.rejected"
+  | "comment.added"
+  | "content.published"
+  | "step.reminder"
+  | "step.overdue"
+  | "step.escalated"
+  | "step.assigned";
+
+interface AppNotification {
+  id: number; // Increasing; the stream's replay cursor
+  type: NotificationType;
+  message: string;
+  contentId: string | null;
+  data: { stepName?: string; outcome?: string; feedback?: string; text?: string } | null;
+  readAt: string | null;
+  createdAt: string;
+}
+
+type NotificationStreamEvent =
+  | { event: "notification"; data: AppNotification }
+  | { event: "resync"; data: { latestId: number } }
+  | { event: "ready"; data: { unreadCount: number } }
+  | { event: "read"; data: { ids: number[] | null; unreadCount: number } };
+
+interface TrendPoint {
+  date: string; // YYYY-MM-DD, start of the day or week
+  checks: number;
+  passed: number;
+  degraded: number;
+  issues: number;
+  high: number;
+  medium: number;
+  low: number;
+  passRate: number | null; // Percent of completed reviews that passed
+}
+
+interface PhraseStat {
+  phrase: string;
+  count: number;
+  checks: number;
+  severity: "high" | "medium" | "low";
+  categories: string[];
+  sources: string[];
+  lastSeen: string;
+}
+
+interface PolicyStats {
+  documents: { documentId: string; originalName: string; citations: number; pages: number[] }[];
+  rules: { ruleId: string; pattern: string | null; category: string | null; severity: string | null; hits: number }[];
+}
+
+interface TeamStat {
+  team: string | null;
+  users: number;
+  checks: number;
+  issues: number;
+  passRate: number | null;
+}
+
+// ============================================
+// AUTH TOKEN
+// ============================================
+const TOKEN_STORAGE_KEY = "veritas.authToken";
+let authToken: string | null = localStorage.getItem(TOKEN_STORAGE_KEY);
+
+function setAuthToken(token: string | null) {
+  authToken = token;
+  if (token) localStorage.setItem(TOKEN_STORAGE_KEY, token);
+  else localStorage.removeItem(TOKEN_STORAGE_KEY);
+}
+
+function authHeaders(headers: Record<string, string> = {}): Record<string, string> {
+  return authToken ? { ...headers, Authorization: `Bearer ${authToken}` } : headers;
+}
+
 // ============================================
 // API SERVICE
 // ============================================
 const api = {
   async checkHealth(): Promise<boolean> {
     try {
-      const res = await fetch(`${API_BASE.replace("/api", "")}/health`);
+      const res = await fetch(`${SERVER_BASE}/health`);
       return res.ok;
     } catch {
       return false;
     }
   },
 
-  async checkCompliance(text: string): Promise<ComplianceResult> {
+  // live: watch-mode check, which the server keeps out of analytics
+  async checkCompliance(text: string, signal?: AbortSignal, live = false): Promise<ComplianceResult> {
     const res = await fetch(`${API_BASE}/compliance/check`, {
       method: "POST",
-      headers: { "Content-Type": "application/json" },
-      body: JSON.stringify({ text }),
+      headers: authHeaders({ "Content-Type": "application/json" }),
+      body: JSON.stringify({ text, live }),
+      signal,
     });
     if (!res.ok) throw new Error(`Compliance check failed: ${res.status}`);
     return res.json();
   },
 
-  async createContent(data: { title: string; text: string; creatorId: string; description?: string }): Promise<any> {
+  /**
+   * Same check as checkCompliance, reporting each stage as the server finishes it.
+   * Aborting the signal closes the stream, which cancels the check server-side.
+   */
+  async checkComplianceStream(
+    text: string,
+    { signal, onEvent }: { signal?: AbortSignal; onEvent: (event: ComplianceStreamEvent) => void }
+  ): Promise<ComplianceResult> {
+    const res = await fetch(`${API_BASE}/compliance/check/stream`, {
+      method: "POST",
+      headers: authHeaders({ "Content-Type": "application/json", Accept: "text/event-stream" }),
+      body: JSON.stringify({ text }),
+      signal,
+    });
+    if (!res.ok || !res.body) throw new Error(`Compliance check failed: ${res.status}`);
+
+    const reader = res.body.getReader();
+    const decoder = new TextDecoder();
+    let pending = "";
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      pending += decoder.decode(value, { stream: true });
+
+      // Events are separated by a blank line
+      const frames = pending.split("\n\n");
+      pending = frames.pop() || "";
+      for (const frame of frames) {
+        const event = frame.match(/^event: (.*)$/m)?.[1];
+        const data = frame.match(/^data: (.*)$/m)?.[1];
+        if (!event || !data) continue;
+
+        const payload = JSON.parse(data);
+        if (event === "error") throw new Error(payload.message || "Compliance check failed");
+        if (event === "summary") return payload.result;
+        onEvent({ event, data: payload } as ComplianceStreamEvent);
+      }
+    }
+    throw new Error("Compliance check ended without a result");
+  },
+
+  async checkImage(image: Blob): Promise<ComplianceResult> {
+    const formData = new FormData();
+    formData.append("file", image, "rendition.png");
+
+    const res = await fetch(`${API_BASE}/compliance/check-image`, {
+      method: "POST",
+      headers: authHeaders(),
+      body: formData,
+    });
+    if (!res.ok) throw new Error(`Image check failed: ${res.status}`);
+    return res.json();
+  },
+
+  async createContent(data: { title: string; text: string; description?: string; category?: string }): Promise<any> {
     const res = await fetch(`${API_BASE}/workflow/content`, {
       method: "POST",
-      headers: { "Content-Type": "application/json" },
+      headers: authHeaders({ "Content-Type": "application/json" }),
       body: JSON.stringify(data),
     });
     if (!res.ok) throw new Error(`Failed to create content: ${res.status}`);
@@ -67,61 +360,231 @@ const api = {
     return result.content;
   },
 
+  async updateContent(contentId: string, data: { title?: string; text?: string; description?: string }): Promise<any> {
+    const res = await fetch(`${API_BASE}/workflow/content/${contentId}`, {
+      method: "PUT",
+      headers: authHeaders({ "Content-Type": "application/json" }),
+      body: JSON.stringify(data),
+    });
+    if (!res.ok) throw new Error(`Failed to update content: ${res.status}`);
+    const result = await res.json();
+    return result.content;
+  },
+
   async submitForApproval(contentId: string): Promise<any> {
     const res = await fetch(`${API_BASE}/workflow/content/${contentId}/submit`, {
       method: "POST",
-      headers: { "Content-Type": "application/json" },
+      headers: authHeaders({ "Content-Type": "application/json" }),
     });
     if (!res.ok) throw new Error(`Failed to submit: ${res.status}`);
     return res.json();
   },
 
+  async getDesignStatus(adobeId: string): Promise<DesignStatus> {
+    const res = await fetch(`${API_BASE}/status/${encodeURIComponent(adobeId)}`, { headers: authHeaders() });
+    if (!res.ok) throw new Error(`Failed to load design status: ${res.status}`);
+    return res.json();
+  },
+
+  /**
+   * Key a workflow submission to the Express document, so reopening it shows the review
+   */
+  async linkDesign(data: { adobeId: string; contentId: string; text?: string; complianceResult?: ComplianceResult | null }): Promise<any> {
+    const res = await fetch(`${API_BASE}/submit`, {
+      method: "POST",
+      headers: authHeaders({ "Content-Type": "application/json" }),
+      body: JSON.stringify(data),
+    });
+    if (!res.ok) throw new Error(`Failed to link design: ${res.status}`);
+    return res.json();
+  },
+
+  async getNotifications(): Promise<{ notifications: AppNotification[]; unreadCount: number }> {
+    const res = await fetch(`${API_BASE}/notifications`, { headers: authHeaders() });
+    if (!res.ok) throw new Error(`Failed to load notifications: ${res.status}`);
+    return res.json();
+  },
+
+  async markNotificationsRead(ids?: number[]): Promise<{ unreadCount: number }> {
+    const res = await fetch(`${API_BASE}/notifications/read`, {
+      method: "POST",
+      headers: authHeaders({ "Content-Type": "application/json" }),
+      body: JSON.stringify(ids ? { ids } : {}),
+    });
+    if (!res.ok) throw new Error(`Failed to mark notifications read: ${res.status}`);
+    return res.json();
+  },
+
+  /**
+   * Follow the signed-in user's workflow events until the stream ends or the
+   * signal aborts. Notifications after `lastEventId` are replayed first.
+   */
+  async streamNotifications({
+    signal,
+    lastEventId,
+    onEvent,
+  }: {
+    signal: AbortSignal;
+    lastEventId: number;
+    onEvent: (event: NotificationStreamEvent) => void;
+  }): Promise<void> {
+    const res = await fetch(`${API_BASE}/notifications/stream`, {
+      headers: authHeaders({
+        Accept: "text/event-stream",
+        ...(lastEventId > 0 && { "Last-Event-ID": String(lastEventId) }),
+      }),
+      signal,
+    });
+    if (!res.ok || !res.body) throw new Error(`Notification stream failed: ${res.status}`);
+
+    const reader = res.body.getReader();
+    const decoder = new TextDecoder();
+    let pending = "";
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) return;
+      pending += decoder.decode(value, { stream: true });
+
+      const frames = pending.split("\n\n");
+      pending = frames.pop() || "";
+      for (const frame of frames) {
+        const event = frame.match(/^event: (.*)$/m)?.[1];
+        const data = frame.match(/^data: (.*)$/m)?.[1];
+        if (!event || !data) continue; // Heartbeat comments
+        onEvent({ event, data: JSON.parse(data) } as NotificationStreamEvent);
+      }
+    }
+  },
+
+  async getInbox(role: Role): Promise<any[]> {
+    const res = await fetch(`${API_BASE}/workflow/inbox?role=${role}`, { headers: authHeaders() });
+    if (!res.ok) throw new Error(`Failed to load inbox: ${res.status}`);
+    const result = await res.json();
+    return result.content || [];
+  },
+
+  // Steps assigned to the signed-in reviewer (or delegated to them), plus unassigned ones for their role
+  async getQueue(): Promise<any[]> {
+    const res = await fetch(`${API_BASE}/workflow/queue?pool=true`, { headers: authHeaders() });
+    if (!res.ok) throw new Error(`Failed to load queue: ${res.status}`);
+    const result = await res.json();
+    return result.content || [];
+  },
+
+  async listUsers(): Promise<CurrentUser[]> {
+    const res = await fetch(`${API_BASE}/workflow/users`, { headers: authHeaders() });
+    if (!res.ok) throw new Error(`Failed to list users: ${res.status}`);
+    const result = await res.json();
+    return result.users || [];
+  },
+
+  async claimStep(stepId: string): Promise<any> {
+    const res = await fetch(`${API_BASE}/workflow/steps/${stepId}/claim`, {
+      method: "POST",
+      headers: authHeaders({ "Content-Type": "application/json" }),
+    });
+    if (!res.ok) {
+      const body = await res.json().catch(() => null);
+      throw new Error(body?.error || `Failed to claim: ${res.status}`);
+    }
+    return res.json();
+  },
+
+  // assigneeId null returns the step to the role pool
+  async reassignStep(stepId: string, assigneeId: string | null): Promise<{ message: string }> {
+    const res = await fetch(`${API_BASE}/workflow/steps/${stepId}/reassign`, {
+      method: "POST",
+      headers: authHeaders({ "Content-Type": "application/json" }),
+      body: JSON.stringify({ assigneeId }),
+    });
+    if (!res.ok) {
+      const body = await res.json().catch(() => null);
+      throw new Error(body?.error || `Failed to reassign: ${res.status}`);
+    }
+    return res.json();
+  },
+
+  async uploadRendition(contentId: string, image: Blob): Promise<any> {
+    const formData = new FormData();
+    formData.append("file", image, "rendition.png");
+
+    const res = await fetch(`${API_BASE}/workflow/content/${contentId}/rendition`, {
+      method: "POST",
+      headers: authHeaders(),
+      body: formData,
+    });
+    if (!res.ok) {
+      const body = await res.json().catch(() => null);
+      throw new Error(body?.message || body?.error || `Rendition upload failed: ${res.status}`);
+    }
+    return res.json();
+  },
+
+  async getContentDiff(contentId: string): Promise<ContentDiff> {
+    const res = await fetch(`${API_BASE}/workflow/content/${contentId}/diff`, { headers: authHeaders() });
+    if (!res.ok) throw new Error(`Failed to load changes: ${res.status}`);
+    return res.json();
+  },
+
+  async addComment(stepId: string, text: string): Promise<any> {
+    const res = await fetch(`${API_BASE}/workflow/steps/${stepId}/comment`, {
+      method: "POST",
+      headers: authHeaders({ "Content-Type": "application/json" }),
+      body: JSON.stringify({ text }),
+    });
+    if (!res.ok) throw new Error(`Failed to comment: ${res.status}`);
+    const result = await res.json();
+    return result.comment;
+  },
+
   async listContent(status?: string): Promise<any[]> {
     const url = status ? `${API_BASE}/workflow/content?status=${status}` : `${API_BASE}/workflow/content`;
-    const res = await fetch(url);
+    const res = await fetch(url, { headers: authHeaders() });
     if (!res.ok) throw new Error(`Failed to list content: ${res.status}`);
     const result = await res.json();
     return result.content || [];
   },
 
-  async approveStep(stepId: string, userId?: string): Promise<any> {
+  async approveStep(stepId: string): Promise<any> {
     const res = await fetch(`${API_BASE}/workflow/steps/${stepId}/approve`, {
       method: "POST",
-      headers: { "Content-Type": "application/json" },
-      body: JSON.stringify({ userId }),
+      headers: authHeaders({ "Content-Type": "application/json" }),
     });
-    if (!res.ok) throw new Error(`Failed to approve: ${res.status}`);
+    if (!res.ok) {
+      const body = await res.json().catch(() => null);
+      throw new Error(body?.error || `Failed to approve: ${res.status}`);
+    }
     return res.json();
   },
 
-  async rejectStep(stepId: string, feedback: string, userId?: string): Promise<any> {
+  async rejectStep(stepId: string, feedback: string): Promise<any> {
     const res = await fetch(`${API_BASE}/workflow/steps/${stepId}/reject`, {
       method: "POST",
-      headers: { "Content-Type": "application/json" },
-      body: JSON.stringify({ userId, feedback }),
+      headers: authHeaders({ "Content-Type": "application/json" }),
+      body: JSON.stringify({ feedback }),
     });
-    if (!res.ok) throw new Error(`Failed to reject: ${res.status}`);
+    if (!res.ok) {
+      const body = await res.json().catch(() => null);
+      throw new Error(body?.error || `Failed to reject: ${res.status}`);
+    }
     return res.json();
   },
 
-  async getOrCreateUser(role: Role): Promise<{ id: string; name: string; role: string }> {
-    const res = await fetch(`${API_BASE}/workflow/users`);
-    if (res.ok) {
-      const { users } = await res.json();
-      const existingUser = users.find((u: any) => u.role === role);
-      if (existingUser) return existingUser;
-    }
-    
-    const createRes = await fetch(`${API_BASE}/workflow/users`, {
+  async login(email: string, password: string): Promise<{ token: string; user: CurrentUser }> {
+    const res = await fetch(`${API_BASE}/auth/login`, {
       method: "POST",
       headers: { "Content-Type": "application/json" },
-      body: JSON.stringify({
-        name: role === "DESIGNER" ? "Demo Designer" : "Demo Manager",
-        email: `${role.toLowerCase()}@demo.com`,
-        role: role,
-      }),
+      body: JSON.stringify({ email, password }),
     });
-    const { user } = await createRes.json();
+    const body = await res.json().catch(() => null);
+    if (!res.ok) throw new Error(body?.error || `Sign in failed: ${res.status}`);
+    return body;
+  },
+
+  async getMe(): Promise<CurrentUser> {
+    const res = await fetch(`${API_BASE}/auth/me`, { headers: authHeaders() });
+    if (!res.ok) throw new Error(`Session expired: ${res.status}`);
+    const { user } = await res.json();
     return user;
   },
 
@@ -131,127 +594,1228 @@ const api = {
 
     const res = await fetch(`${API_BASE}/documents/upload`, {
       method: "POST",
+      headers: authHeaders(),
       body: formData,
     });
-    if (!res.ok) throw new Error(`Upload failed: ${res.status}`);
+    if (!res.ok) {
+      const body = await res.json().catch(() => null);
+      throw new Error(body?.message || `Upload failed: ${res.status}`);
+    }
     return res.json();
   },
 
-  async getDocuments(): Promise<any[]> {
-    const res = await fetch(`${API_BASE}/documents`);
+  async getDocuments(): Promise<PolicyDocument[]> {
+    const res = await fetch(`${API_BASE}/documents`, { headers: authHeaders() });
     if (!res.ok) throw new Error(`Failed to fetch docs: ${res.status}`);
     const data = await res.json();
     return data.documents || [];
   },
 
-  async deleteDocument(id: string): Promise<any> {
-    const res = await fetch(`${API_BASE}/documents/${id}`, {
-      method: "DELETE",
-    });
-    if (!res.ok) throw new Error(`Delete failed: ${res.status}`);
-    return res.json();
-  }
+  async getDocumentStatus(id: string): Promise<DocumentStatus> {
+    const res = await fetch(`${API_BASE}/documents/${id}/status`, { headers: authHeaders() });
+    if (!res.ok) throw new Error(`Failed to fetch status: ${res.status}`);
+    return res.json();
+  },
+
+  async deleteDocument(id: string): Promise<any> {
+    const res = await fetch(`${API_BASE}/documents/${id}`, {
+      method: "DELETE",
+      headers: authHeaders(),
+    });
+    if (!res.ok) throw new Error(`Delete failed: ${res.status}`);
+    return res.json();
+  },
+
+  async getAnalytics(days: number): Promise<{
+    trends: TrendPoint[];
+    phrases: PhraseStat[];
+    policies: PolicyStats;
+    teams: TeamStat[];
+  }> {
+    const get = async (path: string) => {
+      const res = await fetch(`${API_BASE}/compliance/analytics/${path}`, { headers: authHeaders() });
+      if (!res.ok) throw new Error(`Failed to fetch analytics: ${res.status}`);
+      return res.json();
+    };
+    const [{ trends }, { phrases }, policies, { teams }] = await Promise.all([
+      get(`trends?days=${days}`),
+      get(`phrases?days=${days}`),
+      get(`policies?days=${days}`),
+      get(`teams?days=${days}`),
+    ]);
+    return { trends, phrases, policies, teams };
+  }
+};
+
+function errorMessage(err: unknown): string {
+  return err instanceof Error ? err.message : String(err);
+}
+
+// ============================================
+// ADOBE EXPRESS SDK HELPERS
+// ============================================
+const expressSDK = {
+  isReady: false,
+  documentApi: null as DocumentSandboxApi | null,
+
+  async initialize(): Promise<boolean> {
+    try {
+      if (addOnUISdk?.ready) {
+        await addOnUISdk.ready;
+        this.isReady = true;
+        console.log("✅ Adobe Express SDK initialized");
+        try {
+          this.documentApi = await addOnUISdk.instance.runtime.apiProxy("documentSandbox");
+        } catch (err) {
+          console.warn("⚠️ Document sandbox unavailable:", err);
+        }
+        return true;
+      }
+      console.warn("⚠️ SDK not available, running in demo mode");
+      return false;
+    } catch (err) {
+      console.error("❌ SDK init error:", err);
+      return false;
+    }
+  },
+
+  async getDocumentTitle(): Promise<string> {
+    try {
+      if (addOnUISdk?.app?.document?.title) {
+        return await addOnUISdk.app.document.title || "Untitled Design";
+      }
+    } catch {}
+    return "Marketing Design";
+  },
+
+  async getDocumentId(): Promise<string | null> {
+    try {
+      if (addOnUISdk?.app?.document?.id) {
+        return (await addOnUISdk.app.document.id()) || null;
+      }
+    } catch (err) {
+      console.warn("Document id unavailable:", err);
+    }
+    return null;
+  },
+
+  async createRendition(): Promise<string | null> {
+    if (!addOnUISdk?.app?.document?.createRenditions) {
+      console.warn("createRenditions not available");
+      return null;
+    }
+
+    try {
+      const renditions = await addOnUISdk.app.document.createRenditions({
+        range: "currentPage",
+        format: "image/png",
+      });
+
+      if (renditions?.[0]?.blob) {
+        const base64 = await blobToBase64(renditions[0].blob);
+        console.log("📸 Rendition created successfully");
+        return base64;
+      }
+    } catch (err) {
+      console.error("Rendition creation error:", err);
+    }
+    return null;
+  },
+
+  async getTextNodes(): Promise<DocumentTextNode[]> {
+    if (!this.documentApi) return [];
+    try {
+      return await this.documentApi.getTextNodes();
+    } catch (err) {
+      console.error("Text extraction error:", err);
+      return [];
+    }
+  },
+
+  async replaceText(edit: TextEdit): Promise<AppliedTextEdit> {
+    if (!this.documentApi) throw new Error("Editing needs the document sandbox");
+    return this.documentApi.replaceText(edit);
+  },
+};
+
+const NODE_SEPARATOR = "\n\n";
+
+/**
+ * One text to check for the whole design; each node is its own paragraph
+ */
+function joinTextNodes(nodes: DocumentTextNode[]): string {
+  return nodes.map((node) => node.text).join(NODE_SEPARATOR);
+}
+
+// "Guaranteed" → "Backed by a warranty", not "backed by a warranty"
+function matchCase(original: string, replacement: string): string {
+  const first = original.charAt(0);
+  if (first && first === first.toUpperCase() && first !== first.toLowerCase()) {
+    return replacement.charAt(0).toUpperCase() + replacement.slice(1);
+  }
+  return replacement;
+}
+
+/**
+ * Edit that replaces an issue's text with its suggestion in the node it came from.
+ * Offsets locate it in the joined text; issues without offsets are found by quote.
+ */
+function issueToEdit(issue: Issue, nodes: DocumentTextNode[]): TextEdit | null {
+  if (!issue.suggestion || issue.source === "visual") return null;
+  const hasOffsets = issue.start != null && issue.end != null;
+
+  let offset = 0;
+  for (const node of nodes) {
+    const nodeEnd = offset + node.text.length;
+    let start = -1;
+    let end = -1;
+    if (hasOffsets && issue.start! >= offset && issue.end! <= nodeEnd) {
+      start = issue.start! - offset;
+      end = issue.end! - offset;
+    } else if (!hasOffsets) {
+      start = node.text.toLowerCase().indexOf(issue.text.toLowerCase());
+      end = start + issue.text.length;
+    }
+
+    if (start !== -1) {
+      const expected = node.text.slice(start, end);
+      return { nodeId: node.id, start, end, expected, replacement: matchCase(expected, issue.suggestion) };
+    }
+    offset = nodeEnd + NODE_SEPARATOR.length;
+  }
+  return null;
+}
+
+/**
+ * Back to front within each node so earlier offsets stay valid; overlapping
+ * issues (e.g. a rule and the AI flagging the same phrase) are applied once
+ */
+function orderEdits(edits: TextEdit[]): TextEdit[] {
+  const sorted = [...edits].sort((a, b) => a.nodeId.localeCompare(b.nodeId) || b.start - a.start);
+  return sorted.filter((edit, index) => {
+    const previous = sorted[index - 1];
+    return !previous || previous.nodeId !== edit.nodeId || edit.end <= previous.start;
+  });
+}
+
+/**
+ * Combine copy and snapshot checks. OCR re-finds issues already flagged in the
+ * copy, so those only lend their bbox to the existing issue.
+ */
+function mergeImageIssues(textIssues: Issue[], imageIssues: Issue[]): Issue[] {
+  const merged = [...textIssues];
+  for (const issue of imageIssues) {
+    const match = issue.source !== "visual"
+      ? merged.find((existing) => !existing.bbox && existing.text.toLowerCase() === issue.text.toLowerCase())
+      : undefined;
+    if (match) {
+      match.bbox = issue.bbox;
+    } else {
+      // Offsets point into the OCR text, not the copy
+      merged.push({ ...issue, start: null, end: null });
+    }
+  }
+  return merged;
+}
+
+// Same order as the server: by position, unlocated issues last
+function byPosition(a: Issue, b: Issue): number {
+  if (a.start == null && b.start == null) return 0;
+  if (a.start == null) return 1;
+  if (b.start == null) return -1;
+  return a.start - b.start;
+}
+
+function base64ToBlob(base64: string, type = "image/png"): Blob {
+  const bytes = atob(base64);
+  const buffer = new Uint8Array(bytes.length);
+  for (let i = 0; i < bytes.length; i++) buffer[i] = bytes.charCodeAt(i);
+  return new Blob([buffer], { type });
+}
+
+function blobToBase64(blob: Blob): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onloadend = () => {
+      const result = reader.result as string;
+      resolve(result.split(",")[1] || result);
+    };
+    reader.onerror = reject;
+    reader.readAsDataURL(blob);
+  });
+}
+
+// ============================================
+// LIVE CHECKING (watch mode)
+// ============================================
+const LIVE_POLL_MS = 1500;
+const LIVE_MAX_BACKOFF_MS = 30000; // Slowest polling after repeated failures
+const LIVE_DEBOUNCE_MS = 800;
+const LIVE_CACHE_SIZE = 200;
+
+// Content hash → issues for that exact text (least recently used first)
+const liveIssueCache = new Map<string, Issue[]>();
+
+async function hashText(text: string): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(text));
+  return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, "0")).join("");
+}
+
+async function checkNodeText(text: string, signal?: AbortSignal): Promise<Issue[]> {
+  const key = await hashText(text);
+  const cached = liveIssueCache.get(key);
+  if (cached) {
+    liveIssueCache.delete(key);
+    liveIssueCache.set(key, cached);
+    return cached;
+  }
+
+  const { issues } = await api.checkCompliance(text, signal, true);
+  liveIssueCache.set(key, issues);
+  if (liveIssueCache.size > LIVE_CACHE_SIZE) {
+    liveIssueCache.delete(liveIssueCache.keys().next().value!);
+  }
+  return issues;
+}
+
+/**
+ * Poll the document's text nodes and, once edits settle, check each node on its
+ * own. Nodes whose text is unchanged come from the cache, so only edited nodes
+ * reach the server. Issue offsets are shifted into the joined design text.
+ * Requests still running when the text changes again are cancelled. While reading
+ * the document fails, polling backs off exponentially.
+ */
+function useLiveCompliance(enabled: boolean) {
+  const [issues, setIssues] = useState<Issue[]>([]);
+  const [checking, setChecking] = useState(false);
+
+  useEffect(() => {
+    setIssues([]);
+    if (!enabled) return;
+
+    let cancelled = false;
+    let failures = 0;
+    let run = 0;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    let debounce: ReturnType<typeof setTimeout> | undefined;
+    let inflight: AbortController | null = null;
+    let lastSeen = new Map<string, string>(); // node id → text
+
+    async function checkNodes(nodes: DocumentTextNode[]) {
+      const current = ++run;
+      const controller = new AbortController();
+      inflight = controller;
+      setChecking(true);
+      try {
+        const results = await Promise.all(nodes.map((node) => checkNodeText(node.text, controller.signal)));
+        if (cancelled || current !== run) return;
+
+        let offset = 0;
+        const combined: Issue[] = [];
+        nodes.forEach((node, index) => {
+          const shift = offset;
+          combined.push(
+            ...results[index].map((issue) => ({
+              ...issue,
+              start: issue.start != null ? issue.start + shift : null,
+              end: issue.end != null ? issue.end + shift : null,
+            }))
+          );
+          offset += node.text.length + NODE_SEPARATOR.length;
+        });
+        setIssues(combined);
+      } catch (err) {
+        if (!controller.signal.aborted) console.warn("Live check failed:", err);
+      } finally {
+        if (!cancelled && current === run) setChecking(false);
+      }
+    }
+
+    async function poll() {
+      try {
+        const nodes = await expressSDK.getTextNodes();
+        if (cancelled) return;
+        failures = 0;
+        const changed =
+          nodes.length !== lastSeen.size || nodes.some((node) => lastSeen.get(node.id) !== node.text);
+        if (changed) {
+          lastSeen = new Map(nodes.map((node) => [node.id, node.text]));
+          inflight?.abort();
+          clearTimeout(debounce);
+          debounce = setTimeout(() => checkNodes(nodes), LIVE_DEBOUNCE_MS);
+        }
+      } catch (err) {
+        failures++;
+        console.warn("Live check could not read the document:", err);
+      } finally {
+        if (!cancelled) {
+          timer = setTimeout(poll, Math.min(LIVE_POLL_MS * 2 ** failures, LIVE_MAX_BACKOFF_MS));
+        }
+      }
+    }
+
+    poll();
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+      clearTimeout(debounce);
+      inflight?.abort();
+      setChecking(false);
+    };
+  }, [enabled]);
+
+  return { issues, checking };
+}
+
+// ============================================
+// ISSUE CITATIONS ("Why?")
+// ============================================
+const IssueCitations: React.FC<{ issue: Issue }> = ({ issue }) => {
+  const [open, setOpen] = useState(false);
+  const citations = issue.citations || [];
+
+  if (issue.source === "rule") {
+    return <p className="mt-2 text-[10px] font-bold uppercase tracking-wider text-gray-400">Policy rule</p>;
+  }
+  if (citations.length === 0) return null;
+
+  return (
+    <div className="mt-2">
+      <button
+        onClick={() => setOpen(!open)}
+        className="text-[10px] font-bold uppercase tracking-wider text-gray-500 hover:text-black transition-colors"
+      >
+        {open ? "▾" : "▸"} Why? ({citations.length} reference{citations.length > 1 ? "s" : ""})
+      </button>
+      {open && (
+        <div className="mt-2 space-y-2">
+          {citations.map((citation, i) => (
+            <div key={i} className="p-2 bg-white rounded-lg border border-gray-200">
+              <p className="text-xs text-gray-700 italic">"{citation.excerpt}"</p>
+              <p className="mt-1 text-[10px] font-bold text-gray-400">
+                {citation.url ? (
+                  <a
+                    href={`${SERVER_BASE}${citation.url}`}
+                    target="_blank"
+                    rel="noreferrer"
+                    className="underline hover:text-black"
+                  >
+                    {citation.originalName || citation.filename}
+                  </a>
+                ) : (
+                  citation.originalName || "Policy document"
+                )}
+                {citation.page ? ` · page ${citation.page}` : ""}
+              </p>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+// ============================================
+// NOTIFICATIONS
+// ============================================
+const NOTIFICATION_LIMIT = 30;
+const NOTIFICATION_RETRY_MAX_MS = 30000;
+
+const NOTIFICATION_ICONS: Record<NotificationType, string> = {
+  "content.submitted": "📥",
+  "step.approved": "✅",
+  "step.rejected": "↩️",
+  "comment.added": "💬",
+  "content.published": "🚀",
+  "step.reminder": "⏰",
+  "step.overdue": "⚠️",
+  "step.escalated": "⏫",
+  "step.assigned": "👤",
+};
+
+/**
+ * Keep a stream of the user's workflow events open, reconnecting with backoff.
+ * A reconnect replays what was missed from the last notification id seen, or
+ * sends `resync` when too much was missed and the list has to be reloaded.
+ *
+ * `onChange` is called with each new notification, and with nothing when the
+ * stream reconnects (anything may have changed while it was down).
+ */
+function useNotifications(enabled: boolean, onChange: (notification?: AppNotification) => void) {
+  const [notifications, setNotifications] = useState<AppNotification[]>([]);
+  const [unreadCount, setUnreadCount] = useState(0);
+  const [connected, setConnected] = useState(false);
+  const onChangeRef = useRef(onChange);
+  onChangeRef.current = onChange;
+
+  useEffect(() => {
+    setNotifications([]);
+    setUnreadCount(0);
+    setConnected(false);
+    if (!enabled) return;
+
+    const controller = new AbortController();
+    let lastEventId = 0;
+    let attempt = 0;
+
+    const reload = async () => {
+      try {
+        const latest = await api.getNotifications();
+        setNotifications(latest.notifications);
+        setUnreadCount(latest.unreadCount);
+        lastEventId = Math.max(lastEventId, latest.notifications[0]?.id || 0);
+      } catch (err) {
+        console.warn("Could not load notifications:", err);
+      }
+    };
+
+    const handleEvent = ({ event, data }: NotificationStreamEvent) => {
+      if (event === "resync") {
+        lastEventId = Math.max(lastEventId, data.latestId);
+        reload();
+      } else if (event === "ready") {
+        if (attempt > 0) onChangeRef.current();
+        attempt = 0;
+        setConnected(true);
+        setUnreadCount(data.unreadCount);
+      } else if (event === "notification") {
+        lastEventId = Math.max(lastEventId, data.id);
+        setNotifications((list) =>
+          [data, ...list.filter((item) => item.id !== data.id)]
+            .sort((a, b) => b.id - a.id)
+            .slice(0, NOTIFICATION_LIMIT)
+        );
+        setUnreadCount((count) => count + 1);
+        onChangeRef.current(data);
+      } else if (event === "read") {
+        const readAt = new Date().toISOString();
+        setUnreadCount(data.unreadCount);
+        setNotifications((list) =>
+          list.map((item) => (!item.readAt && (!data.ids || data.ids.includes(item.id)) ? { ...item, readAt } : item))
+        );
+      }
+    };
+
+    (async () => {
+      await reload();
+
+      while (!controller.signal.aborted) {
+        try {
+          await api.streamNotifications({ signal: controller.signal, lastEventId, onEvent: handleEvent });
+        } catch (err) {
+          if (controller.signal.aborted) return;
+          console.warn("Notification stream dropped:", err);
+        }
+        setConnected(false);
+        const delay = Math.min(1000 * 2 ** attempt++, NOTIFICATION_RETRY_MAX_MS);
+        await new Promise((resolve) => setTimeout(resolve, delay));
+      }
+    })();
+
+    return () => controller.abort();
+  }, [enabled]);
+
+  async function markAllRead() {
+    if (unreadCount === 0) return;
+    try {
+      const result = await api.markNotificationsRead();
+      setUnreadCount(result.unreadCount);
+    } catch (err) {
+      console.warn("Could not mark notifications read:", err);
+    }
+  }
+
+  return { notifications, unreadCount, connected, markAllRead };
+}
+
+const NotificationBell: React.FC<{
+  notifications: AppNotification[];
+  unreadCount: number;
+  connected: boolean;
+  onOpen: () => void;
+}> = ({ notifications, unreadCount, connected, onOpen }) => {
+  const [open, setOpen] = useState(false);
+
+  function toggle() {
+    if (!open) onOpen();
+    setOpen(!open);
+  }
+
+  return (
+    <div className="relative">
+      <button
+        onClick={toggle}
+        title={connected ? "Notifications" : "Notifications (reconnecting...)"}
+        className="relative w-9 h-9 flex items-center justify-center bg-white border-2 border-gray-100 rounded-full hover:border-gray-300 transition-colors"
+      >
+        <span className={`text-sm ${connected ? "" : "opacity-40"}`}>🔔</span>
+        {unreadCount > 0 && (
+          <span className="absolute -top-1 -right-1 min-w-[18px] h-[18px] px-1 flex items-center justify-center text-[9px] font-bold text-white bg-red-500 rounded-full">
+            {unreadCount > 99 ? "99+" : unreadCount}
+          </span>
+        )}
+      </button>
+
+      {open && (
+        <div className="absolute right-0 mt-2 w-72 max-h-96 overflow-y-auto bg-white border-2 border-gray-100 rounded-2xl shadow-xl z-50">
+          {notifications.length === 0 ? (
+            <p className="p-4 text-xs text-gray-400 text-center">No notifications yet</p>
+          ) : (
+            notifications.map((notification) => (
+              <div
+                key={notification.id}
+                className={`flex gap-2 px-4 py-3 border-b border-gray-50 last:border-0 ${notification.readAt ? "" : "bg-blue-50/50"}`}
+              >
+                <span className="text-sm">{NOTIFICATION_ICONS[notification.type] || "🔔"}</span>
+                <div className="flex-1 min-w-0">
+                  <p className="text-xs font-bold text-black">{notification.message}</p>
+                  {(notification.data?.feedback || notification.data?.text) && (
+                    <p className="mt-0.5 text-[11px] text-gray-500 line-clamp-2">
+                      {notification.data.feedback || notification.data.text}
+                    </p>
+                  )}
+                  <p className="mt-0.5 text-[10px] text-gray-400">{new Date(notification.createdAt).toLocaleString()}</p>
+                </div>
+              </div>
+            ))
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+// ============================================
+// INGESTION PROGRESS
+// ============================================
+const INGESTION_LABELS: Record<IngestionStatus, string> = {
+  QUEUED: "Queued",
+  EXTRACTING: "Extracting text",
+  EMBEDDING: "Embedding",
+  INDEXED: "Indexed",
+  FAILED: "Failed",
+  NOT_INDEXED: "Not indexed",
+};
+
+const IngestionProgress: React.FC<{ status: DocumentStatus | null }> = ({ status }) => {
+  if (!status || status.status === "INDEXED") return null;
+
+  if (status.status === "NOT_INDEXED") {
+    return <p className="text-[10px] text-amber-600 font-bold">{INGESTION_LABELS.NOT_INDEXED}</p>;
+  }
+
+  if (status.status === "FAILED") {
+    return (
+      <p className="text-[10px] text-red-600 font-bold truncate" title={status.error || ""}>
+        Failed: {status.error}
+      </p>
+    );
+  }
+
+  return (
+    <div className="mt-1">
+      <p className="text-[10px] text-gray-500 font-bold">
+        {INGESTION_LABELS[status.status]}
+        {status.status === "EMBEDDING" && status.totalChunks > 0
+          ? ` · ${status.processedChunks}/${status.totalChunks} chunks`
+          : "..."}
+      </p>
+      <div className="h-1 mt-1 bg-gray-200 rounded-full overflow-hidden">
+        <div
+          className="h-full bg-black transition-all"
+          style={{ width: `${status.status === "EMBEDDING" ? status.progress : 5}%` }}
+        />
+      </div>
+    </div>
+  );
+};
+
+// ============================================
+// STEP ASSIGNMENT
+// ============================================
+/**
+ * Who the open step is assigned to, with claim (unassigned steps) and reassign
+ */
+const StepAssignment: React.FC<{
+  step: ApprovalStep;
+  currentUserId?: string;
+  creatorId: string;
+  colleagues: CurrentUser[];
+  busy: boolean;
+  onClaim: () => void;
+  onReassign: (assigneeId: string | null) => void;
+}> = ({ step, currentUserId, creatorId, colleagues, busy, onClaim, onReassign }) => {
+  const candidates = colleagues.filter(
+    (user) =>
+      (user.role === step.requiredRole || user.role === "ADMIN") &&
+      user.id !== step.assigneeId &&
+      user.id !== creatorId
+  );
+
+  return (
+    <div className="flex items-center gap-2 mb-4 p-3 bg-gray-50 rounded-2xl border border-gray-100">
+      <p className="flex-1 text-xs">
+        <span className="font-bold">{step.stepName}: </span>
+        {step.assigneeId && step.assigneeId === currentUserId
+          ? "assigned to you"
+          : step.assignee
+          ? `assigned to ${step.assignee.name}`
+          : "unassigned"}
+      </p>
+      {!step.assigneeId && (
+        <button
+          onClick={onClaim}
+          disabled={busy}
+          className="px-3 py-1 text-[10px] font-bold text-white bg-black hover:bg-gray-800 rounded-full disabled:opacity-50"
+        >
+          Claim
+        </button>
+      )}
+      <select
+        value=""
+        onChange={(e) => onReassign(e.target.value === "POOL" ? null : e.target.value)}
+        disabled={busy}
+        className="px-2 py-1 text-[10px] font-bold bg-white border border-gray-200 rounded-full"
+      >
+        <option value="" disabled>
+          Reassign…
+        </option>
+        {step.assigneeId && <option value="POOL">Back to the pool</option>}
+        {candidates.map((user) => (
+          <option key={user.id} value={user.id}>
+            {user.name}
+          </option>
+        ))}
+      </select>
+    </div>
+  );
+};
+
+// ============================================
+// SLA COUNTDOWN
+// ============================================
+const SLA_TICK_MS = 60000;
+const SLA_SOON_MS = 4 * 60 * 60 * 1000;
+
+function formatDuration(ms: number) {
+  const minutes = Math.max(1, Math.round(ms / 60000));
+  if (minutes < 60) return `${minutes}m`;
+  const hours = Math.floor(minutes / 60);
+  if (hours < 48) return `${hours}h ${minutes % 60}m`;
+  return `${Math.floor(hours / 24)}d ${hours % 24}h`;
+}
+
+/**
+ * Time left until a step's SLA deadline, refreshed every minute
+ */
+const SlaCountdown: React.FC<{ dueAt: string; inverted?: boolean }> = ({ dueAt, inverted }) => {
+  const [now, setNow] = useState(Date.now());
+
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Date.now()), SLA_TICK_MS);
+    return () => clearInterval(interval);
+  }, []);
+
+  const remaining = new Date(dueAt).getTime() - now;
+  const className =
+    remaining <= 0
+      ? "bg-red-100 text-red-700"
+      : remaining <= SLA_SOON_MS
+      ? "bg-yellow-100 text-yellow-800"
+      : inverted
+      ? "bg-gray-800 text-gray-300"
+      : "bg-gray-100 text-gray-600";
+
+  return (
+    <span
+      className={`inline-block px-2 py-0.5 rounded-full text-[10px] font-bold normal-case tracking-normal ${className}`}
+      title={`Due ${new Date(dueAt).toLocaleString()}`}
+    >
+      ⏱ {remaining <= 0 ? `Overdue by ${formatDuration(-remaining)}` : `${formatDuration(remaining)} left`}
+    </span>
+  );
+};
+
+// ============================================
+// STEP HISTORY
+// ============================================
+const STEP_STATUS_STYLES: Record<StepStatus, { icon: string; className: string }> = {
+  PENDING: { icon: "○", className: "text-gray-300" },
+  IN_PROGRESS: { icon: "●", className: "text-black" },
+  APPROVED: { icon: "✓", className: "text-green-600" },
+  REJECTED: { icon: "✕", className: "text-red-600" },
+  SKIPPED: { icon: "–", className: "text-gray-300" },
+};
+
+const StepHistory: React.FC<{ steps: ApprovalStep[] }> = ({ steps }) => (
+  <div className="space-y-3">
+    {steps.map((step) => {
+      const style = STEP_STATUS_STYLES[step.status];
+      return (
+        <div key={step.id} className="flex gap-3">
+          <span className={`w-4 text-center text-sm font-bold ${style.className}`}>{style.icon}</span>
+          <div className="flex-1 min-w-0">
+            <p className={`text-xs font-bold ${step.status === "SKIPPED" ? "text-gray-400 line-through" : "text-black"}`}>
+              {step.stepName}
+              <span className="ml-2 text-[10px] text-gray-400 uppercase tracking-wider">
+                {ROLE_LABELS[step.requiredRole]}
+                {step.requiredApprovals > 1 ? ` · ${step.requiredApprovals} needed` : ""}
+              </span>
+            </p>
+            {step.status === "IN_PROGRESS" && step.dueAt && (
+              <p className="mt-1">
+                <SlaCountdown dueAt={step.dueAt} />
+                {step.escalatedAt && (
+                  <span className="ml-2 text-[10px] text-gray-400 font-bold">
+                    Escalated{step.assignee ? ` to ${step.assignee.name}` : ""}
+                  </span>
+                )}
+              </p>
+            )}
+            {step.decidedAt && (
+              <p className="text-[10px] text-gray-400 font-bold">
+                {step.status === "APPROVED" ? "Approved" : "Rejected"}
+                {step.assignee ? ` by ${step.assignee.name}` : ""} · {new Date(step.decidedAt).toLocaleString()}
+              </p>
+            )}
+            {step.feedback && (
+              <p className="mt-1 text-xs text-red-700 bg-red-50 rounded-lg p-2">{step.feedback}</p>
+            )}
+            {step.comments?.map((comment) => (
+              <div key={comment.id} className="mt-1 text-xs bg-gray-50 rounded-lg p-2">
+                <span className="font-bold">{comment.author?.name || "Reviewer"}:</span> {comment.text}
+              </div>
+            ))}
+          </div>
+        </div>
+      );
+    })}
+  </div>
+);
+
+// ============================================
+// DESIGN STATUS (review of the open document)
+// ============================================
+const DESIGN_STATUS_STYLES: Record<DesignStatusValue, { label: string; className: string }> = {
+  DRAFT: { label: "Draft", className: "bg-gray-100 text-gray-500" },
+  PENDING: { label: "In review", className: "bg-blue-100 text-blue-700" },
+  CHANGES_REQUESTED: { label: "Changes requested", className: "bg-red-100 text-red-700" },
+  APPROVED: { label: "Approved", className: "bg-green-100 text-green-700" },
+  PUBLISHED: { label: "Published", className: "bg-black text-white" },
+};
+
+const DESIGN_LOG_LABELS: Record<string, string> = {
+  SUBMITTED: "Submitted for review",
+  UPDATED: "Edited",
+  STEP_APPROVED: "Approved",
+  STEP_REJECTED: "Rejected",
+  APPROVED: "Approved",
+  REJECTED: "Changes requested",
+  COMMENTED: "Commented",
+  PUBLISHED: "Published",
+  ESCALATED: "Escalated",
+  CLAIMED: "Claimed",
+  REASSIGNED: "Reassigned",
+};
+
+const DesignStatusCard: React.FC<{ design: DesignStatus }> = ({ design }) => {
+  const style = DESIGN_STATUS_STYLES[design.status] || DESIGN_STATUS_STYLES.PENDING;
+  const latestFeedback = design.logs.find((log) => log.feedback && log.action !== "APPROVED");
+
+  return (
+    <div className="bg-white rounded-3xl p-6 border-2 border-gray-100 shadow-sm text-left">
+      <div className="flex items-center justify-between gap-2 mb-4">
+        <div className="min-w-0">
+          <p className="text-[10px] font-bold uppercase tracking-widest text-gray-400">This design</p>
+          <p className="text-sm font-bold truncate">
+            {design.content?.title || "Submitted design"}
+            {design.content && design.content.version > 1 && (
+              <span className="ml-2 text-[10px] text-gray-400">v{design.content.version}</span>
+            )}
+          </p>
+        </div>
+        <span className={`shrink-0 px-3 py-1 text-[10px] font-bold uppercase rounded-full ${style.className}`}>
+          {style.label}
+        </span>
+      </div>
+
+      {design.status === "PENDING" && design.content && design.content.pendingSteps.length > 0 && (
+        <p className="mb-4 text-xs text-gray-500">
+          Waiting on{" "}
+          <span className="font-bold text-black">
+            {design.content.pendingSteps.map((step) => `${step.stepName} (${ROLE_LABELS[step.requiredRole]})`).join(", ")}
+          </span>
+        </p>
+      )}
+
+      {design.status === "CHANGES_REQUESTED" && latestFeedback && (
+        <div className="mb-4 p-3 bg-red-50 rounded-2xl">
+          <p className="text-[10px] font-bold uppercase tracking-wider text-red-700">
+            Feedback{latestFeedback.actor ? ` from ${latestFeedback.actor.name}` : ""}
+          </p>
+          <p className="mt-1 text-xs text-red-700">{latestFeedback.feedback}</p>
+        </div>
+      )}
+
+      {design.logs.length > 0 && (
+        <div className="space-y-2">
+          {design.logs.map((log) => (
+            <div key={log.id} className="flex gap-3">
+              <span className="w-1.5 h-1.5 mt-1.5 rounded-full bg-gray-300 shrink-0" />
+              <div className="flex-1 min-w-0">
+                <p className="text-xs font-bold">
+                  {DESIGN_LOG_LABELS[log.action] || log.action}
+                  {log.stepName && <span className="font-normal text-gray-500"> · {log.stepName}</span>}
+                </p>
+                <p className="text-[10px] text-gray-400">
+                  {log.actor ? `${log.actor.name} · ` : ""}
+                  {new Date(log.createdAt).toLocaleString()}
+                </p>
+                {log.feedback && <p className="mt-1 text-xs bg-gray-50 rounded-lg p-2">{log.feedback}</p>}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+// ============================================
+// WHAT CHANGED (since changes were requested)
+// ============================================
+const WhatChanged: React.FC<{ diff: ContentDiff }> = ({ diff }) => {
+  const sinceFeedback = diff.from.workflowOutcome === "CHANGES_REQUESTED";
+  const unchanged = diff.stats.wordsAdded === 0 && diff.stats.wordsRemoved === 0;
+
+  return (
+    <div className="mb-4">
+      <h4 className="text-xs font-bold uppercase tracking-wider text-gray-400 mb-2">
+        {sinceFeedback ? "Changed since you requested changes" : "Changed since last version"}
+        <span className="ml-2 normal-case tracking-normal">
+          v{diff.from.version} → v{diff.to.version}
+        </span>
+      </h4>
+
+      {diff.feedback.map((item, i) => (
+        <div key={i} className="mb-2 text-xs bg-red-50 rounded-lg p-2">
+          <span className="font-bold">{item.reviewer || item.stepName}:</span> {item.feedback}
+          {item.comments.map((comment, j) => (
+            <p key={j} className="mt-1 text-gray-600">
+              <span className="font-bold">{comment.author?.name || "Reviewer"}:</span> {comment.text}
+            </p>
+          ))}
+        </div>
+      ))}
+
+      <div className="p-4 bg-gray-50 rounded-2xl border border-gray-100 max-h-40 overflow-y-auto">
+        {unchanged ? (
+          <p className="text-xs text-gray-400 italic">Text is unchanged.</p>
+        ) : (
+          <p className="text-sm text-gray-700 whitespace-pre-wrap">
+            {diff.segments.map((segment, i) =>
+              segment.type === "insert" ? (
+                <ins key={i} className="bg-green-100 text-green-800 no-underline">{segment.text}</ins>
+              ) : segment.type === "delete" ? (
+                <del key={i} className="bg-red-100 text-red-700">{segment.text}</del>
+              ) : (
+                <span key={i}>{segment.text}</span>
+              )
+            )}
+          </p>
+        )}
+      </div>
+      <p className="mt-1 text-[10px] font-bold text-gray-400">
+        +{diff.stats.wordsAdded} / −{diff.stats.wordsRemoved} words
+        {diff.titleChanged ? " · title changed" : ""}
+        {diff.renditionChanged ? " · design image changed" : ""}
+      </p>
+    </div>
+  );
+};
+
+// ============================================
+// COMPLIANCE DASHBOARD
+// ============================================
+const DASHBOARD_RANGES = [7, 30, 90];
+
+const SEVERITY_BAR: Record<string, string> = {
+  high: "bg-red-500",
+  medium: "bg-orange-400",
+  low: "bg-yellow-400",
+};
+
+const formatRate = (rate: number | null) => (rate === null ? "–" : `${rate}%`);
+
+const ComplianceDashboard: React.FC = () => {
+  const [days, setDays] = useState(30);
+  const [data, setData] = useState<Awaited<ReturnType<typeof api.getAnalytics>> | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    setError(null);
+    api
+      .getAnalytics(days)
+      .then((result) => !cancelled && setData(result))
+      .catch((err) => !cancelled && setError(errorMessage(err)))
+      .finally(() => !cancelled && setLoading(false));
+    return () => {
+      cancelled = true;
+    };
+  }, [days]);
+
+  const totals = (data?.trends || []).reduce(
+    (sum, point) => ({
+      checks: sum.checks + point.checks,
+      passed: sum.passed + point.passed,
+      reviewed: sum.reviewed + point.checks - point.degraded,
+      issues: sum.issues + point.issues,
+      high: sum.high + point.high,
+      medium: sum.medium + point.medium,
+      low: sum.low + point.low,
+    }),
+    { checks: 0, passed: 0, reviewed: 0, issues: 0, high: 0, medium: 0, low: 0 }
+  );
+  const passRate = totals.reviewed > 0 ? Math.round((totals.passed / totals.reviewed) * 1000) / 10 : null;
+  const busiestDay = Math.max(1, ...(data?.trends || []).map((point) => point.checks));
+  const topPhraseCount = Math.max(1, ...(data?.phrases || []).map((phrase) => phrase.count));
+
+  return (
+    <div className="space-y-4 animate-fadeIn">
+      <div className="bg-white rounded-3xl p-6 border-2 border-gray-100 shadow-sm">
+        <div className="flex items-center justify-between mb-4">
+          <div>
+            <h2 className="text-base font-bold">Compliance Dashboard</h2>
+            <p className="text-xs text-gray-400">Every check run by designers, campaigns and workflows.</p>
+          </div>
+          <div className="flex gap-1">
+            {DASHBOARD_RANGES.map((range) => (
+              <button
+                key={range}
+                onClick={() => setDays(range)}
+                className={`px-2.5 py-1 text-[10px] font-bold rounded-full ${
+                  days === range ? "bg-black text-white" : "bg-gray-100 text-gray-500 hover:text-black"
+                }`}
+              >
+                {range}d
+              </button>
+            ))}
+          </div>
+        </div>
+
+        {error && <p className="text-xs font-bold text-red-600">{error}</p>}
+        {loading && !data && <p className="text-xs text-gray-400">Loading...</p>}
+
+        {data && (
+          <>
+            <div className="grid grid-cols-3 gap-2 mb-5">
+              {[
+                { label: "Checks", value: totals.checks },
+                { label: "Pass rate", value: formatRate(passRate) },
+                { label: "Issues", value: totals.issues },
+              ].map((kpi) => (
+                <div key={kpi.label} className="p-3 bg-gray-50 rounded-2xl">
+                  <p className="text-[9px] font-bold uppercase tracking-widest text-gray-400">{kpi.label}</p>
+                  <p className="text-lg font-bold">{kpi.value}</p>
+                </div>
+              ))}
+            </div>
+
+            {/* Checks per day, passed vs. not */}
+            <p className="text-[10px] font-bold uppercase tracking-widest text-gray-400 mb-2">Checks per day</p>
+            <div className="flex items-end gap-px h-24">
+              {data.trends.map((point) => (
+                <div
+                  key={point.date}
+                  className="flex-1 flex flex-col justify-end h-full"
+                  title={`${point.date}: ${point.checks} check(s), ${point.passed} passed, pass rate ${formatRate(point.passRate)}`}
+                >
+                  <div
+                    className="bg-red-300 rounded-t-sm"
+                    style={{ height: `${((point.checks - point.passed) / busiestDay) * 100}%` }}
+                  />
+                  <div className="bg-green-500" style={{ height: `${(point.passed / busiestDay) * 100}%` }} />
+                </div>
+              ))}
+            </div>
+            <div className="flex justify-between mt-1 text-[9px] text-gray-400">
+              <span>{data.trends[0]?.date}</span>
+              <span>{data.trends[data.trends.length - 1]?.date}</span>
+            </div>
+
+            <div className="flex h-2 mt-4 rounded-full overflow-hidden bg-gray-100">
+              {(["high", "medium", "low"] as const).map((severity) => (
+                <div
+                  key={severity}
+                  className={SEVERITY_BAR[severity]}
+                  style={{ width: `${totals.issues ? (totals[severity] / totals.issues) * 100 : 0}%` }}
+                  title={`${totals[severity]} ${severity}`}
+                />
+              ))}
+            </div>
+            <p className="mt-1 text-[10px] text-gray-400">
+              {totals.high} high · {totals.medium} medium · {totals.low} low
+            </p>
+          </>
+        )}
+      </div>
+
+      {data && (
+        <>
+          <div className="bg-white rounded-3xl p-6 border-2 border-gray-100 shadow-sm">
+            <h3 className="text-sm font-bold mb-1">Most flagged claims</h3>
+            <p className="text-xs text-gray-400 mb-4">The copy designers keep getting wrong.</p>
+            {data.phrases.length === 0 ? (
+              <p className="text-xs text-gray-400">Nothing flagged in this period.</p>
+            ) : (
+              <div className="space-y-3">
+                {data.phrases.map((phrase) => (
+                  <div key={phrase.phrase}>
+                    <div className="flex justify-between gap-2 text-xs">
+                      <p className="font-bold truncate" title={phrase.phrase}>"{phrase.phrase}"</p>
+                      <span className="shrink-0 text-gray-400">{phrase.count}×</span>
+                    </div>
+                    <div className="h-1.5 mt-1 bg-gray-100 rounded-full overflow-hidden">
+                      <div
+                        className={`h-full ${SEVERITY_BAR[phrase.severity] || "bg-gray-400"}`}
+                        style={{ width: `${(phrase.count / topPhraseCount) * 100}%` }}
+                      />
+                    </div>
+                    {phrase.categories.length > 0 && (
+                      <p className="mt-0.5 text-[10px] text-gray-400">{phrase.categories.join(", ")}</p>
+                    )}
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+
+          <div className="bg-white rounded-3xl p-6 border-2 border-gray-100 shadow-sm">
+            <h3 className="text-sm font-bold mb-4">Most cited policies</h3>
+            {data.policies.documents.length === 0 && data.policies.rules.length === 0 ? (
+              <p className="text-xs text-gray-400">No policies cited in this period.</p>
+            ) : (
+              <div className="space-y-2 text-xs">
+                {data.policies.documents.map((doc) => (
+                  <div key={doc.documentId} className="flex justify-between gap-2">
+                    <span className="font-bold truncate" title={doc.originalName}>📄 {doc.originalName}</span>
+                    <span className="shrink-0 text-gray-400">
+                      {doc.citations} citation(s){doc.pages.length > 0 && ` · p. ${doc.pages.join(", ")}`}
+                    </span>
+                  </div>
+                ))}
+                {data.policies.rules.map((rule) => (
+                  <div key={rule.ruleId} className="flex justify-between gap-2">
+                    <span className="font-bold truncate">📏 {rule.pattern ?? "Deleted rule"}</span>
+                    <span className="shrink-0 text-gray-400">{rule.hits} hit(s)</span>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+
+          <div className="bg-white rounded-3xl p-6 border-2 border-gray-100 shadow-sm">
+            <h3 className="text-sm font-bold mb-4">Pass rate by team</h3>
+            {data.teams.length === 0 ? (
+              <p className="text-xs text-gray-400">No checks in this period.</p>
+            ) : (
+              <div className="space-y-3">
+                {data.teams.map((team) => (
+                  <div key={team.team ?? ""}>
+                    <div className="flex justify-between text-xs">
+                      <span className="font-bold">{team.team ?? "No team"}</span>
+                      <span className="text-gray-400">
+                        {formatRate(team.passRate)} · {team.checks} check(s)
+                      </span>
+                    </div>
+                    <div className="h-1.5 mt-1 bg-gray-100 rounded-full overflow-hidden">
+                      <div className="h-full bg-green-500" style={{ width: `${team.passRate ?? 0}%` }} />
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  );
 };
 
 // ============================================
-// ADOBE EXPRESS SDK HELPERS
+// SIGN IN
 // ============================================
-const expressSDK = {
-  isReady: false,
-
-  async initialize(): Promise<boolean> {
-    try {
-      if (addOnUISdk?.ready) {
-        await addOnUISdk.ready;
-        this.isReady = true;
-        console.log("✅ Adobe Express SDK initialized");
-        return true;
-      }
-      console.warn("⚠️ SDK not available, running in demo mode");
-      return false;
-    } catch (err) {
-      console.error("❌ SDK init error:", err);
-      return false;
-    }
-  },
-
-  async getDocumentTitle(): Promise<string> {
-    try {
-      if (addOnUISdk?.app?.document?.title) {
-        return await addOnUISdk.app.document.title || "Untitled Design";
-      }
-    } catch {}
-    return "Marketing Design";
-  },
-
-  async createRendition(): Promise<string | null> {
-    if (!addOnUISdk?.app?.document?.createRenditions) {
-      console.warn("createRenditions not available");
-      return null;
-    }
-
+const LoginScreen: React.FC<{ onSignedIn: (user: CurrentUser) => void }> = ({ onSignedIn }) => {
+  const [email, setEmail] = useState("");
+  const [password, setPassword] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [signingIn, setSigningIn] = useState(false);
+
+  async function handleSubmit(e: React.FormEvent) {
+    e.preventDefault();
+    setSigningIn(true);
+    setError(null);
     try {
-      const renditions = await addOnUISdk.app.document.createRenditions({
-        range: "currentPage",
-        format: "image/png",
-      });
-
-      if (renditions?.[0]?.blob) {
-        const base64 = await blobToBase64(renditions[0].blob);
-        console.log("📸 Rendition created successfully");
-        return base64;
-      }
+      const { token, user } = await api.login(email.trim(), password);
+      setAuthToken(token);
+      onSignedIn(user);
     } catch (err) {
-      console.error("Rendition creation error:", err);
+      setError(errorMessage(err));
+    } finally {
+      setSigningIn(false);
     }
-    return null;
-  },
-
-  async extractText(): Promise<string> {
-    try {
-      const text = await navigator.clipboard.readText();
-      if (text && text.trim()) return text;
-    } catch {}
+  }
 
-    if (addOnUISdk?.app?.document) {
-      const doc = addOnUISdk.app.document;
-      try {
-        if (typeof doc.getSelectedContent === 'function') {
-          const content = await doc.getSelectedContent();
-          if (content?.text) return content.text;
-        }
-        if (typeof doc.getSelection === 'function') {
-          const selection = await doc.getSelection();
-          if (selection?.length > 0) {
-            return selection.map((item: any) => item.text || "").filter(Boolean).join("\n");
-          }
-        }
-      } catch {}
-    }
-    return "";
-  },
+  return (
+    <main className="p-6 flex-1 w-full max-w-lg mx-auto">
+      <form onSubmit={handleSubmit} className="bg-white rounded-3xl p-6 border-2 border-gray-100 shadow-sm space-y-4">
+        <div>
+          <h2 className="text-base font-bold">Sign in</h2>
+          <p className="text-xs text-gray-400">Use the account your admin created for you.</p>
+        </div>
+        <input
+          type="email"
+          value={email}
+          onChange={(e) => setEmail(e.target.value)}
+          placeholder="Email"
+          autoComplete="username"
+          className="w-full px-4 py-3 text-sm bg-gray-50 border border-gray-100 rounded-2xl placeholder:text-gray-300 focus:ring-0"
+        />
+        <input
+          type="password"
+          value={password}
+          onChange={(e) => setPassword(e.target.value)}
+          placeholder="Password"
+          autoComplete="current-password"
+          className="w-full px-4 py-3 text-sm bg-gray-50 border border-gray-100 rounded-2xl placeholder:text-gray-300 focus:ring-0"
+        />
+        {error && <p className="text-xs font-bold text-red-600">{error}</p>}
+        <button
+          type="submit"
+          disabled={signingIn || !email.trim() || !password}
+          className="w-full py-3 text-sm font-bold bg-black text-white rounded-full shadow-lg hover:bg-gray-900 disabled:bg-gray-100 disabled:text-gray-400"
+        >
+          {signingIn ? "Signing in..." : "Sign In"}
+        </button>
+      </form>
+    </main>
+  );
 };
 
-function blobToBase64(blob: Blob): Promise<string> {
-  return new Promise((resolve, reject) => {
-    const reader = new FileReader();
-    reader.onloadend = () => {
-      const result = reader.result as string;
-      resolve(result.split(",")[1] || result);
-    };
-    reader.onerror = reject;
-    reader.readAsDataURL(blob);
-  });
-}
-
 // ============================================
 // MAIN APP COMPONENT
 // ============================================
 const App: React.FC = () => {
   // State
-  const [role, setRole] = useState<Role>("DESIGNER");
   const [serverStatus, setServerStatus] = useState<"checking" | "online" | "offline">("checking");
-  const [currentUser, setCurrentUser] = useState<{ id: string; name: string; role: string } | null>(null);
+  const [currentUser, setCurrentUser] = useState<CurrentUser | null>(null);
+  const [restoringSession, setRestoringSession] = useState(Boolean(authToken));
+  const role: Role = currentUser?.role || "DESIGNER";
+  const isReviewer = role !== "DESIGNER";
+  const canManagePolicies = ["MANAGER", "LEGAL", "ADMIN"].includes(role);
 
   // Designer state
   const [step, setStep] = useState<WorkflowStep>("CAPTURE");
@@ -259,65 +1823,185 @@ const App: React.FC = () => {
   const [capturedDesign, setCapturedDesign] = useState<CapturedDesign | null>(null);
   const [complianceResult, setComplianceResult] = useState<ComplianceResult | null>(null);
   const [checking, setChecking] = useState(false);
+  const [checkStage, setCheckStage] = useState<string | null>(null); // What the running check is doing
+  const checkAbort = useRef<AbortController | null>(null);
   const [submitting, setSubmitting] = useState(false);
   const [manualText, setManualText] = useState("");
-
-  // Manager state
+  const [documentReady, setDocumentReady] = useState(false); // Text can be read from the design
+  const [applying, setApplying] = useState(false);
+  const [appliedEdits, setAppliedEdits] = useState<AppliedTextEdit[][]>([]); // Undo stack, one entry per Apply
+  const [watching, setWatching] = useState(false);
+  const [documentId, setDocumentId] = useState<string | null>(null); // Express document id, keys the Design record
+  const [designStatus, setDesignStatus] = useState<DesignStatus | null>(null);
+  const liveCheck = useLiveCompliance(watching && documentReady && Boolean(currentUser) && role === "DESIGNER");
+
+  // Reviewer state
   const [pendingContent, setPendingContent] = useState<any[]>([]);
   const [selectedContent, setSelectedContent] = useState<any | null>(null);
   const [reviewFeedback, setReviewFeedback] = useState("");
   const [reviewing, setReviewing] = useState(false);
+  const [contentDiff, setContentDiff] = useState<ContentDiff | null>(null);
+  const [inboxView, setInboxView] = useState<"QUEUE" | "ROLE">("QUEUE"); // My queue, or every open step for the role
+  const [colleagues, setColleagues] = useState<CurrentUser[]>([]); // Reassignment targets
 
-  // Manager Knowledge Base State
-  const [managerTab, setManagerTab] = useState<"APPROVALS" | "KNOWLEDGE">("APPROVALS");
-  const [documents, setDocuments] = useState<any[]>([]);
+  // Reviewer Knowledge Base State
+  const [managerTab, setManagerTab] = useState<"APPROVALS" | "DASHBOARD" | "KNOWLEDGE">("APPROVALS");
+  const [documents, setDocuments] = useState<PolicyDocument[]>([]);
   const [uploading, setUploading] = useState(false);
+  const [docStatuses, setDocStatuses] = useState<Record<string, DocumentStatus>>({});
 
   // Toast
   const [toast, setToast] = useState<{ message: string; type: "success" | "error" | "info" } | null>(null);
 
+  // Workflow events replace polling for the inbox and the design's review status
+  const notifications = useNotifications(Boolean(currentUser), handleWorkflowEvent);
+
   // Initialize
   useEffect(() => {
     initializeApp();
   }, []);
 
+  // Editing the text makes a running check stale
   useEffect(() => {
-    fetchCurrentUser();
-    if (role === "MANAGER") {
-      fetchPendingContent();
-      const interval = setInterval(fetchPendingContent, 5000);
-      return () => clearInterval(interval);
-    }
-  }, [role]);
+    checkAbort.current?.abort();
+  }, [manualText]);
+
+  useEffect(() => {
+    setSelectedContent(null);
+    if (currentUser && isReviewer) fetchInbox();
+  }, [currentUser, inboxView]);
+
+  useEffect(() => {
+    setColleagues([]);
+    if (!currentUser || !isReviewer) return;
+    api
+      .listUsers()
+      .then(setColleagues)
+      .catch((err) => console.warn("Could not load colleagues:", err));
+  }, [currentUser]);
+
+  // Reopened design: show how its review went
+  useEffect(() => {
+    setDesignStatus(null);
+    if (!currentUser || role !== "DESIGNER" || !documentId) return;
+
+    let cancelled = false;
+    api
+      .getDesignStatus(documentId)
+      .then((design) => {
+        if (cancelled) return;
+        setDesignStatus(design);
+        if (["PENDING", "APPROVED", "PUBLISHED"].includes(design.status)) setStep("SUBMITTED");
+      })
+      .catch((err) => console.warn("Could not load design status:", err));
+    return () => {
+      cancelled = true;
+    };
+  }, [currentUser, documentId]);
 
   useEffect(() => {
-    if (role === "MANAGER" && managerTab === "KNOWLEDGE") {
+    if (currentUser && isReviewer && managerTab === "KNOWLEDGE") {
       loadDocuments();
     }
-  }, [role, managerTab]);
+  }, [currentUser, managerTab]);
+
+  // Resubmitted content: load what changed since the last review
+  useEffect(() => {
+    setContentDiff(null);
+    if (!selectedContent || selectedContent.version <= 1) return;
+
+    let cancelled = false;
+    api
+      .getContentDiff(selectedContent.id)
+      .then((diff) => {
+        if (!cancelled) setContentDiff(diff);
+      })
+      .catch((err) => console.warn("Could not load changes:", err));
+    return () => {
+      cancelled = true;
+    };
+  }, [selectedContent?.id, selectedContent?.version]);
+
+  // Poll ingestion progress while any document is still being indexed
+  useEffect(() => {
+    if (!isReviewer || managerTab !== "KNOWLEDGE") return;
+
+    const activeIds = documents
+      .filter((doc) => {
+        const status = docStatuses[doc.id]?.status || doc.ingestion?.status;
+        return status && ACTIVE_INGESTION.includes(status);
+      })
+      .map((doc) => doc.id);
+    if (activeIds.length === 0) return;
+
+    const timeout = setTimeout(async () => {
+      const results = await Promise.all(
+        activeIds.map((id) => api.getDocumentStatus(id).catch(() => null))
+      );
+      setDocStatuses((prev) => {
+        const next = { ...prev };
+        results.forEach((status) => {
+          if (status) next[status.documentId] = status;
+        });
+        return next;
+      });
+    }, 2000);
+    return () => clearTimeout(timeout);
+  }, [role, managerTab, documents, docStatuses]);
 
   async function initializeApp() {
     const isOnline = await api.checkHealth();
     setServerStatus(isOnline ? "online" : "offline");
     await expressSDK.initialize();
-    await fetchCurrentUser();
+    setDocumentReady(Boolean(expressSDK.documentApi));
+    setDocumentId(await expressSDK.getDocumentId());
+    await restoreSession();
   }
 
-  async function fetchCurrentUser() {
+  async function restoreSession() {
+    if (!authToken) return;
     try {
-      const user = await api.getOrCreateUser(role);
-      setCurrentUser(user);
+      setCurrentUser(await api.getMe());
     } catch (err) {
-      console.error("Failed to get user:", err);
+      console.warn("Stored session is no longer valid:", err);
+      setAuthToken(null);
+    } finally {
+      setRestoringSession(false);
+    }
+  }
+
+  function handleSignOut() {
+    setAuthToken(null);
+    setCurrentUser(null);
+    setWatching(false);
+    setPendingContent([]);
+    setDocuments([]);
+    handleStartOver();
+  }
+
+  function handleWorkflowEvent(notification?: AppNotification) {
+    if (notification) showToast(`🔔 ${notification.message}`, "info");
+
+    if (isReviewer) {
+      fetchInbox();
+    } else if (documentId && (!notification || notification.contentId === designStatus?.content?.id)) {
+      api
+        .getDesignStatus(documentId)
+        .then(setDesignStatus)
+        .catch((err) => console.warn("Could not refresh design status:", err));
     }
   }
 
-  async function fetchPendingContent() {
+  async function fetchInbox() {
     try {
-      const content = await api.listContent("PENDING_REVIEW");
+      const content = inboxView === "QUEUE" ? await api.getQueue() : await api.getInbox(role);
       setPendingContent(content);
+      // Keep the open item in sync (new comments, other reviewers' decisions)
+      setSelectedContent((selected) =>
+        selected ? content.find((item) => item.id === selected.id) || null : null
+      );
     } catch (err) {
-      console.error("Failed to fetch pending content:", err);
+      console.error("Failed to fetch inbox:", err);
     }
   }
 
@@ -325,6 +2009,7 @@ const App: React.FC = () => {
     try {
       const docs = await api.getDocuments();
       setDocuments(docs);
+      setDocStatuses({});
     } catch (err) {
       console.error(err);
       showToast("Failed to load documents", "error");
@@ -339,13 +2024,14 @@ const App: React.FC = () => {
     showToast("📤 Uploading truth source...", "info");
     try {
       await api.uploadDocument(file);
-      showToast("✅ Document indexed successfully!", "success");
-      await loadDocuments();
+      showToast("✅ Uploaded! Indexing in the background...", "success");
     } catch (err) {
       console.error(err);
-      showToast(" Uploaded Successfully", "success");
+      showToast(`❌ ${errorMessage(err) || "Upload failed"}`, "error");
     } finally {
       setUploading(false);
+      e.target.value = "";
+      await loadDocuments();
     }
   }
 
@@ -378,24 +2064,23 @@ const App: React.FC = () => {
       }
       
       const title = await expressSDK.getDocumentTitle();
-      let text = await expressSDK.extractText();
-      
-      if (!text && manualText.trim()) {
-        text = manualText;
-      }
+      // Pasted text is only used when the document has no text (or no sandbox)
+      const textNodes = await expressSDK.getTextNodes();
+      const text = textNodes.length > 0 ? joinTextNodes(textNodes) : manualText;
 
       if (!snapshot) {
-        showToast("⚠️ Screenshot not available. Please paste your text below.", "info");
-        if (text || manualText.trim()) {
+        if (text.trim()) {
+          showToast("⚠️ Screenshot not available, checking text only.", "info");
           const captured: CapturedDesign = {
             snapshot: "",
-            text: text || manualText,
+            text,
+            textNodes,
             title: title || "Marketing Design",
             capturedAt: new Date().toISOString(),
           };
           setCapturedDesign(captured);
           setStep("REVIEW");
-          await runComplianceCheck(text || manualText);
+          await runComplianceCheck(captured);
         } else {
           showToast("📝 Please paste your marketing text in the box above.", "info");
         }
@@ -405,7 +2090,8 @@ const App: React.FC = () => {
 
       const captured: CapturedDesign = {
         snapshot,
-        text: text || manualText || "",
+        text,
+        textNodes,
         title: title || "Marketing Design",
         capturedAt: new Date().toISOString(),
       };
@@ -414,9 +2100,8 @@ const App: React.FC = () => {
       setStep("REVIEW");
       showToast("✓ Design captured! Now checking compliance...", "success");
 
-      if (text || manualText) {
-        await runComplianceCheck(text || manualText);
-      }
+      // The snapshot is OCR'd too, so run even without any text
+      await runComplianceCheck(captured);
 
     } catch (err) {
       console.error("Capture error:", err);
@@ -426,20 +2111,83 @@ const App: React.FC = () => {
     }
   }
 
-  async function runComplianceCheck(text?: string) {
-    const textToCheck = text || capturedDesign?.text || manualText;
-    if (!textToCheck.trim()) {
+  async function runComplianceCheck(design: CapturedDesign | null = capturedDesign) {
+    const textToCheck = design?.text || manualText;
+    const snapshot = design?.snapshot;
+    if (!textToCheck.trim() && !snapshot) {
       setComplianceResult({ isCompliant: true, issues: [], checkedAt: new Date().toISOString() });
       return;
     }
 
+    // Only the latest check may update the card
+    checkAbort.current?.abort();
+    const controller = new AbortController();
+    checkAbort.current = controller;
+
+    // Show issues as the server finds them; image issues join once both checks are done
+    const streamed: Issue[] = [];
+    const showStreamed = () =>
+      setComplianceResult({
+        isCompliant: streamed.length === 0,
+        issues: [...streamed].sort(byPosition),
+        checkedAt: new Date().toISOString(),
+      });
+    const onEvent = (update: ComplianceStreamEvent) => {
+      if (controller.signal.aborted) return;
+      if (update.event === "rules") {
+        streamed.push(...update.data.issues);
+        showStreamed();
+        setCheckStage("Searching policy documents...");
+      } else if (update.event === "context") {
+        const count = update.data.chunks.length;
+        setCheckStage(count ? `Analyzing against ${count} policy excerpt(s)...` : "Analyzing copy...");
+      } else if (update.event === "issue") {
+        streamed.push(update.data.issue);
+        showStreamed();
+      }
+    };
+
     setChecking(true);
+    setCheckStage(textToCheck.trim() ? "Checking policy rules..." : "Analyzing design image...");
+    setComplianceResult(null);
     try {
-      const result = await api.checkCompliance(textToCheck);
+      const [textCheck, imageCheck] = await Promise.allSettled([
+        textToCheck.trim()
+          ? api.checkComplianceStream(textToCheck, { signal: controller.signal, onEvent }).finally(() => {
+              if (!controller.signal.aborted && snapshot) setCheckStage("Analyzing design image...");
+            })
+          : Promise.resolve(null),
+        snapshot ? api.checkImage(base64ToBlob(snapshot)) : Promise.resolve(null),
+      ]);
+      if (controller.signal.aborted) return;
+      if (textCheck.status === "rejected") throw textCheck.reason;
+      if (imageCheck.status === "rejected") {
+        // The copy check still stands on its own
+        console.error("Image check error:", imageCheck.reason);
+        showToast("⚠️ Design image could not be analyzed", "info");
+      }
+
+      const textIssues = textCheck.value?.issues || [];
+      const imageIssues = imageCheck.status === "fulfilled" ? imageCheck.value?.issues || [] : [];
+      const issues = mergeImageIssues(textIssues, imageIssues);
+      const checks = [textCheck.value, imageCheck.status === "fulfilled" ? imageCheck.value : null];
+      const degraded = checks.find((check) => check?.status === "degraded");
+      const rulesOnly = !degraded && checks.some((check) => check?.status === "rules_only");
+      const result: ComplianceResult = {
+        isCompliant: issues.length === 0 && !degraded && !rulesOnly,
+        status: degraded ? "degraded" : rulesOnly ? "rules_only" : "ok",
+        degradedReason: degraded?.degradedReason,
+        issues,
+        checkedAt: new Date().toISOString(),
+      };
       setComplianceResult(result);
       
       if (result.isCompliant) {
         showToast("✓ Design is compliant!", "success");
+      } else if (degraded) {
+        showToast("⚠️ AI review unavailable, only policy rules were checked", "info");
+      } else if (issues.length === 0) {
+        showToast("No policy rule matched (AI review is not configured)", "info");
       } else {
         showToast(`⚠️ Found ${result.issues.length} issue(s)`, "info");
       }
@@ -447,7 +2195,11 @@ const App: React.FC = () => {
       console.error("Compliance check error:", err);
       showToast("❌ Compliance check failed", "error");
     } finally {
-      setChecking(false);
+      if (checkAbort.current === controller) {
+        checkAbort.current = null;
+        setChecking(false);
+        setCheckStage(null);
+      }
     }
   }
 
@@ -464,15 +2216,39 @@ const App: React.FC = () => {
     showToast("📤 Sending to manager...", "info");
 
     try {
-      const content = await api.createContent({
+      const fields = {
         title: capturedDesign.title,
         text: capturedDesign.text || manualText || "No text content",
-        creatorId: currentUser.id,
         description: `Snapshot captured at ${capturedDesign.capturedAt}`,
-      });
+      };
+      // Changes requested on this design: resubmit the same content as a new version
+      const linked = designStatus?.content;
+      const content =
+        linked && ["DRAFT", "CHANGES_REQUESTED"].includes(linked.status)
+          ? await api.updateContent(linked.id, fields)
+          : await api.createContent(fields);
+
+      // Reviewers see the design itself, not just the copy
+      if (capturedDesign.snapshot) {
+        try {
+          await api.uploadRendition(content.id, base64ToBlob(capturedDesign.snapshot));
+        } catch (err) {
+          console.error("Rendition upload error:", err);
+          showToast(`⚠️ Design image not attached: ${errorMessage(err)}`, "info");
+        }
+      }
 
       await api.submitForApproval(content.id);
 
+      if (documentId) {
+        try {
+          await api.linkDesign({ adobeId: documentId, contentId: content.id, text: fields.text, complianceResult });
+          setDesignStatus(await api.getDesignStatus(documentId));
+        } catch (err) {
+          console.error("Design tracking error:", err);
+        }
+      }
+
       setStep("SUBMITTED");
       showToast("🎉 Sent to Manager for approval!", "success");
 
@@ -484,26 +2260,146 @@ const App: React.FC = () => {
     }
   }
 
+  // Parallel stages have several open steps - act on the one assigned to this reviewer, else an
+  // unassigned one for their role
+  function findActiveStep(steps: ApprovalStep[]) {
+    const open = steps.filter((s) => s.status === "IN_PROGRESS");
+    return (
+      open.find((s) => s.assigneeId === currentUser?.id) ||
+      open.find((s) => !s.assigneeId && s.requiredRole === currentUser?.role) ||
+      open.find((s) => s.requiredRole === currentUser?.role) ||
+      open[0]
+    );
+  }
+
+  async function handleClaim() {
+    const currentStep = selectedContent?.workflow?.steps && findActiveStep(selectedContent.workflow.steps);
+    if (!currentStep) return;
+    setReviewing(true);
+    try {
+      await api.claimStep(currentStep.id);
+      showToast("✓ Assigned to you", "success");
+      await fetchInbox();
+    } catch (err) {
+      showToast(`❌ ${errorMessage(err) || "Claim failed"}`, "error");
+    } finally {
+      setReviewing(false);
+    }
+  }
+
+  async function handleReassign(assigneeId: string | null) {
+    const currentStep = selectedContent?.workflow?.steps && findActiveStep(selectedContent.workflow.steps);
+    if (!currentStep) return;
+    setReviewing(true);
+    try {
+      const result = await api.reassignStep(currentStep.id, assigneeId);
+      showToast(`✓ ${result.message}`, "success");
+      await fetchInbox();
+    } catch (err) {
+      showToast(`❌ ${errorMessage(err) || "Reassign failed"}`, "error");
+    } finally {
+      setReviewing(false);
+    }
+  }
+
   function handleStartOver() {
+    checkAbort.current?.abort();
     setCapturedDesign(null);
     setComplianceResult(null);
     setManualText("");
+    setAppliedEdits([]);
     setStep("CAPTURE");
   }
 
+  /**
+   * Read the design again after editing it and re-run the check
+   */
+  async function recheckDesign(design: CapturedDesign) {
+    const textNodes = await expressSDK.getTextNodes();
+    const snapshot = design.snapshot ? (await expressSDK.createRendition()) || design.snapshot : "";
+    const updated: CapturedDesign = {
+      ...design,
+      snapshot,
+      textNodes,
+      text: joinTextNodes(textNodes),
+      capturedAt: new Date().toISOString(),
+    };
+    setCapturedDesign(updated);
+    await runComplianceCheck(updated);
+  }
+
+  async function handleApplySuggestions(issues: Issue[]) {
+    if (!capturedDesign) return;
+    const edits = orderEdits(
+      issues
+        .map((issue) => issueToEdit(issue, capturedDesign.textNodes))
+        .filter((edit): edit is TextEdit => edit !== null)
+    );
+    if (edits.length === 0) return;
+
+    setApplying(true);
+    const applied: AppliedTextEdit[] = [];
+    try {
+      for (const edit of edits) {
+        applied.push(await expressSDK.replaceText(edit));
+      }
+      const restyled = applied.some((edit) => !edit.stylePreserved);
+      showToast(
+        restyled ? `✏️ Applied ${applied.length} fix(es), check text styling` : `✏️ Applied ${applied.length} fix(es)`,
+        "success"
+      );
+    } catch (err) {
+      console.error("Apply suggestion error:", err);
+      showToast(`❌ Could not apply: ${errorMessage(err)}`, "error");
+    } finally {
+      if (applied.length > 0) setAppliedEdits((prev) => [...prev, applied]);
+      setApplying(false);
+    }
+
+    if (applied.length > 0) await recheckDesign(capturedDesign);
+  }
+
+  async function handleUndoApply() {
+    const batch = appliedEdits[appliedEdits.length - 1];
+    if (!batch || !capturedDesign) return;
+
+    setApplying(true);
+    try {
+      // Reverse order restores each edit at the offset it was made
+      for (const edit of [...batch].reverse()) {
+        await expressSDK.replaceText({
+          nodeId: edit.nodeId,
+          start: edit.start,
+          end: edit.start + edit.replacement.length,
+          expected: edit.replacement,
+          replacement: edit.original,
+        });
+      }
+      setAppliedEdits((prev) => prev.slice(0, -1));
+      showToast("↩️ Undone", "info");
+    } catch (err) {
+      console.error("Undo error:", err);
+      showToast(`❌ Undo failed: ${errorMessage(err)}`, "error");
+    } finally {
+      setApplying(false);
+    }
+
+    await recheckDesign(capturedDesign);
+  }
+
   async function handleApprove() {
     if (!selectedContent?.workflow?.steps) return;
     setReviewing(true);
     try {
-      const currentStep = selectedContent.workflow.steps.find((s: any) => s.status === "IN_PROGRESS");
+      const currentStep = findActiveStep(selectedContent.workflow.steps);
       if (currentStep) {
-        await api.approveStep(currentStep.id, currentUser?.id);
+        await api.approveStep(currentStep.id);
         showToast("✓ Approved!", "success");
-        await fetchPendingContent();
         setSelectedContent(null);
+        await fetchInbox();
       }
     } catch (err) {
-      showToast("❌ Approval failed", "error");
+      showToast(`❌ ${errorMessage(err) || "Approval failed"}`, "error");
     } finally {
       setReviewing(false);
     }
@@ -513,16 +2409,33 @@ const App: React.FC = () => {
     if (!selectedContent?.workflow?.steps || !reviewFeedback.trim()) return;
     setReviewing(true);
     try {
-      const currentStep = selectedContent.workflow.steps.find((s: any) => s.status === "IN_PROGRESS");
+      const currentStep = findActiveStep(selectedContent.workflow.steps);
       if (currentStep) {
-        await api.rejectStep(currentStep.id, reviewFeedback, currentUser?.id);
+        await api.rejectStep(currentStep.id, reviewFeedback);
         showToast("✓ Changes requested", "success");
-        await fetchPendingContent();
         setSelectedContent(null);
+        await fetchInbox();
+        setReviewFeedback("");
+      }
+    } catch (err) {
+      showToast(`❌ ${errorMessage(err) || "Rejection failed"}`, "error");
+    } finally {
+      setReviewing(false);
+    }
+  }
+
+  async function handleComment() {
+    if (!selectedContent?.workflow?.steps || !currentUser || !reviewFeedback.trim()) return;
+    setReviewing(true);
+    try {
+      const currentStep = findActiveStep(selectedContent.workflow.steps);
+      if (currentStep) {
+        await api.addComment(currentStep.id, reviewFeedback.trim());
         setReviewFeedback("");
+        await fetchInbox();
       }
     } catch (err) {
-      showToast("❌ Rejection failed", "error");
+      showToast("❌ Comment failed", "error");
     } finally {
       setReviewing(false);
     }
@@ -535,6 +2448,9 @@ const App: React.FC = () => {
   };
 
   const hasHighIssues = complianceResult?.issues.some(i => i.severity === "high") || false;
+  const applicableIssues = capturedDesign
+    ? complianceResult?.issues.filter((issue) => issueToEdit(issue, capturedDesign.textNodes)) || []
+    : [];
 
   // ============================================
   // RENDER
@@ -574,7 +2490,7 @@ const App: React.FC = () => {
             <div>
               <h1 className="text-sm font-bold  pl-1">Veritas</h1>
               <p className="text-[10px] text-gray-400 uppercase tracking-widest font-bold">
-                {role === "DESIGNER" ? "Designer" : "Manager"}
+                {ROLE_LABELS[role]}
               </p>
             </div>
           </div>
@@ -595,26 +2511,55 @@ const App: React.FC = () => {
                </button>
             )}
 
-            <select
-              value={role}
-              onChange={(e) => setRole(e.target.value as Role)}
-              className="text-xs font-bold bg-white border-2 border-gray-100 rounded-full px-4 py-2 hover:border-gray-300 focus:outline-none focus:border-black transition-colors"
-            >
-              <option value="DESIGNER">Designer</option>
-              <option value="MANAGER">Manager</option>
-            </select>
+            {/* LIVE CHECK BADGE */}
+            {role === "DESIGNER" && watching && (
+              <span
+                title="Live compliance check"
+                className={`flex items-center gap-1.5 px-3 py-1.5 text-[10px] font-bold rounded-full border ${
+                  liveCheck.issues.length > 0
+                    ? "bg-red-50 text-red-600 border-red-200"
+                    : "bg-gray-50 text-gray-500 border-gray-200"
+                }`}
+              >
+                <span className={`w-1.5 h-1.5 rounded-full ${liveCheck.checking ? "bg-gray-400 animate-pulse" : liveCheck.issues.length > 0 ? "bg-red-500" : "bg-green-500"}`} />
+                {liveCheck.issues.length > 0 ? `${liveCheck.issues.length} issue(s)` : "Live"}
+              </span>
+            )}
+
+            {currentUser && (
+              <NotificationBell
+                notifications={notifications.notifications}
+                unreadCount={notifications.unreadCount}
+                connected={notifications.connected}
+                onOpen={notifications.markAllRead}
+              />
+            )}
+
+            {currentUser && (
+              <button
+                onClick={handleSignOut}
+                className="text-xs font-bold bg-white border-2 border-gray-100 rounded-full px-4 py-2 hover:border-gray-300 transition-colors"
+              >
+                Sign Out
+              </button>
+            )}
           </div>
         </div>
       </header>
 
+      {/* ========== SIGN IN ========== */}
+      {!currentUser && !restoringSession && <LoginScreen onSignedIn={setCurrentUser} />}
+
       {/* ========== DESIGNER VIEW ========== */}
-      {role === "DESIGNER" && (
+      {currentUser && role === "DESIGNER" && (
         <main className="p-6 flex-1 w-full max-w-lg mx-auto">
           <div className="space-y-6">
 
             {/* STEP 1: CAPTURE */}
             {step === "CAPTURE" && (
               <>
+                {designStatus?.status === "CHANGES_REQUESTED" && <DesignStatusCard design={designStatus} />}
+
                 <div className="bg-gray-50 rounded-3xl p-6 border-2 border-gray-100">
                   <h3 className="text-sm font-bold text-black mb-4 flex items-center gap-2">
                     <span>📋</span> Quick Start
@@ -623,8 +2568,10 @@ const App: React.FC = () => {
                     <div className="flex items-start gap-4">
                       <div className="w-6 h-6 rounded-full bg-black text-white flex items-center justify-center text-[10px] font-bold shrink-0">1</div>
                       <div>
-                        <p className="font-bold text-gray-900">Copy your text</p>
-                        <p className="mt-0.5">Select text in Express → Ctrl+C</p>
+                        <p className="font-bold text-gray-900">{documentReady ? "Open your design" : "Copy your text"}</p>
+                        <p className="mt-0.5">
+                          {documentReady ? "Text on every page is read automatically" : "Select text in Express → Ctrl+C"}
+                        </p>
                       </div>
                     </div>
                     <div className="flex items-start gap-4">
@@ -641,7 +2588,7 @@ const App: React.FC = () => {
                   <textarea
                     value={manualText}
                     onChange={(e) => setManualText(e.target.value)}
-                    placeholder="Paste your marketing text here..."
+                    placeholder={documentReady ? "Optional: paste text to check if the design has none..." : "Paste your marketing text here..."}
                     rows={6}
                     className="w-full px-6 py-4 text-sm bg-transparent border-none rounded-2xl text-black placeholder:text-gray-300 focus:ring-0 resize-none"
                   />
@@ -667,9 +2614,9 @@ const App: React.FC = () => {
 
                 <button
                   onClick={handleCaptureDesign}
-                  disabled={capturing || !manualText.trim()}
+                  disabled={capturing || !(documentReady || manualText.trim())}
                   className={`w-full py-4 text-sm font-bold rounded-full shadow-xl transition-all flex items-center justify-center gap-3 ${
-                    manualText.trim()
+                    documentReady || manualText.trim()
                       ? "bg-black text-white hover:bg-gray-900 hover:scale-[1.02]"
                       : "bg-gray-100 text-gray-400 cursor-not-allowed"
                   }`}
@@ -682,12 +2629,43 @@ const App: React.FC = () => {
                       </svg>
                       Checking...
                     </>
+                  ) : documentReady ? (
+                    <>Check Entire Design</>
                   ) : manualText.trim() ? (
                     <>Run Compliance Check</>
                   ) : (
                     <>Paste Text Above First</>
                   )}
                 </button>
+
+                {documentReady && (
+                  <div className="bg-white rounded-3xl p-5 border-2 border-gray-100 shadow-sm">
+                    <div className="flex items-center justify-between">
+                      <div>
+                        <p className="text-sm font-bold text-black">Live check</p>
+                        <p className="text-[10px] text-gray-400 mt-0.5">Re-checks text layers as you edit them</p>
+                      </div>
+                      <button
+                        onClick={() => setWatching(!watching)}
+                        className={`px-4 py-1.5 text-[10px] font-bold rounded-full border transition-colors ${
+                          watching ? "bg-black text-white border-black" : "bg-white text-black border-gray-200 hover:border-gray-300"
+                        }`}
+                      >
+                        {watching ? "On" : "Off"}
+                      </button>
+                    </div>
+                    {watching && liveCheck.issues.length > 0 && (
+                      <div className="mt-4 space-y-2">
+                        {liveCheck.issues.map((issue, i) => (
+                          <div key={i} className={`p-3 rounded-2xl border ${severityColors[issue.severity].bg} ${severityColors[issue.severity].border}`}>
+                            <p className={`text-xs font-bold ${severityColors[issue.severity].text}`}>"{issue.text}"</p>
+                            <p className="text-[10px] text-gray-600 mt-0.5">{issue.reason}</p>
+                          </div>
+                        ))}
+                      </div>
+                    )}
+                  </div>
+                )}
               </>
             )}
 
@@ -697,15 +2675,35 @@ const App: React.FC = () => {
                 <div className="bg-white rounded-3xl overflow-hidden border-2 border-gray-100 shadow-sm">
                   <div className="p-4 bg-gray-50 border-b border-gray-100 flex items-center justify-between">
                     <h3 className="text-xs font-bold uppercase tracking-wider text-gray-400">Preview</h3>
+                    {capturedDesign.textNodes.length > 0 && (
+                      <span className="text-[10px] font-medium text-gray-400">
+                        {capturedDesign.textNodes.length} text layer(s) · {new Set(capturedDesign.textNodes.map((node) => node.pageId)).size} page(s)
+                      </span>
+                    )}
                     <span className="text-[10px] font-bold text-black bg-white px-2 py-1 rounded-full border border-gray-200">{capturedDesign.title}</span>
                   </div>
                   <div className="p-6 flex justify-center bg-gray-50/50">
                     {capturedDesign.snapshot ? (
-                      <img
-                        src={`data:image/png;base64,${capturedDesign.snapshot}`}
-                        alt="Captured Design"
-                        className="w-full rounded-xl border border-gray-200 shadow-sm"
-                      />
+                      <div className="relative w-full">
+                        <img
+                          src={`data:image/png;base64,${capturedDesign.snapshot}`}
+                          alt="Captured Design"
+                          className="w-full rounded-xl border border-gray-200 shadow-sm"
+                        />
+                        {complianceResult?.issues.map((issue, i) => issue.bbox && (
+                          <div
+                            key={i}
+                            title={issue.reason}
+                            className={`absolute border-2 rounded-sm ${severityColors[issue.severity].border}`}
+                            style={{
+                              left: `${issue.bbox.x * 100}%`,
+                              top: `${issue.bbox.y * 100}%`,
+                              width: `${issue.bbox.width * 100}%`,
+                              height: `${issue.bbox.height * 100}%`,
+                            }}
+                          />
+                        ))}
+                      </div>
                     ) : (
                       <div className="text-center py-8 opacity-50">
                         <span className="text-4xl block mb-2 grayscale">🎨</span>
@@ -718,15 +2716,55 @@ const App: React.FC = () => {
                 <div className="bg-white rounded-3xl p-6 border-2 border-gray-100 shadow-sm">
                   <div className="flex items-center justify-between mb-4">
                     <h3 className="text-xs font-bold uppercase tracking-wider text-gray-400">Analysis</h3>
-                    {checking && (
-                      <span className="text-xs font-bold text-gray-400 animate-pulse">
-                        Analyzing...
-                      </span>
-                    )}
+                    <div className="flex items-center gap-2">
+                      {checking && (
+                        <span className="text-xs font-bold text-gray-400 animate-pulse">
+                          {checkStage || "Analyzing..."}
+                        </span>
+                      )}
+                      {appliedEdits.length > 0 && (
+                        <button
+                          onClick={handleUndoApply}
+                          disabled={applying || checking}
+                          className="px-3 py-1 text-[10px] font-bold bg-gray-50 hover:bg-gray-100 text-black rounded-full border border-gray-200 transition-colors disabled:opacity-50"
+                        >
+                          ↩ Undo
+                        </button>
+                      )}
+                    </div>
                   </div>
 
-                  {complianceResult ? (
-                    complianceResult.isCompliant ? (
+                  {checking && !complianceResult?.issues.length ? (
+                    <div className="p-5 bg-gray-50 border-2 border-gray-100 rounded-2xl text-center">
+                      <p className="text-xs text-gray-500 font-medium animate-pulse">Issues will appear here as they are found</p>
+                    </div>
+                  ) : complianceResult ? (
+                    <>
+                    {complianceResult.status === "degraded" && (
+                      <div className="mb-3 p-4 bg-yellow-50 border-2 border-yellow-200 rounded-2xl text-xs">
+                        <p className="font-bold text-black">⚠️ AI review unavailable</p>
+                        <p className="text-gray-600 mt-1">
+                          {complianceResult.degradedReason || "The AI review could not be completed"}. Only policy
+                          rules were checked, so review the copy manually or re-run the check.
+                        </p>
+                        <button
+                          onClick={() => runComplianceCheck()}
+                          disabled={checking}
+                          className="mt-2 px-3 py-1 text-[10px] font-bold bg-white hover:bg-gray-100 text-black rounded-full border border-gray-200 transition-colors disabled:opacity-50"
+                        >
+                          Re-run Check
+                        </button>
+                      </div>
+                    )}
+                    {complianceResult.status === "rules_only" && complianceResult.issues.length === 0 && (
+                      <div className="mb-3 p-4 bg-gray-50 border-2 border-gray-100 rounded-2xl text-xs">
+                        <p className="font-bold text-black">No policy rule matched</p>
+                        <p className="text-gray-600 mt-1">
+                          No AI provider is configured, so only policy rules were checked. Review the copy manually.
+                        </p>
+                      </div>
+                    )}
+                    {complianceResult.isCompliant ? (
                       <div className="flex items-center gap-4 p-5 bg-gray-50 border-2 border-gray-100 rounded-2xl">
                         <div className="w-12 h-12 bg-black text-white rounded-full flex items-center justify-center">
                           <span className="text-xl">✓</span>
@@ -736,11 +2774,20 @@ const App: React.FC = () => {
                           <p className="text-xs text-gray-500">No issues found.</p>
                         </div>
                       </div>
-                    ) : (
+                    ) : complianceResult.issues.length > 0 ? (
                       <div className="space-y-3">
                         <div className="flex items-center gap-2 text-black font-bold pb-2 border-b border-gray-100">
                           <span>⚠️</span>
-                          <span>{complianceResult.issues.length} Issue(s) Found</span>
+                          <span className="flex-1">{complianceResult.issues.length} Issue(s) Found</span>
+                          {applicableIssues.length > 1 && (
+                            <button
+                              onClick={() => handleApplySuggestions(applicableIssues)}
+                              disabled={applying || checking}
+                              className="px-3 py-1 text-[10px] font-bold bg-black text-white hover:bg-gray-900 rounded-full transition-colors disabled:opacity-50"
+                            >
+                              Apply all ({applicableIssues.length})
+                            </button>
+                          )}
                         </div>
                         {complianceResult.issues.map((issue, i) => (
                           <div key={i} className={`p-4 rounded-2xl border-2 ${severityColors[issue.severity].bg} ${severityColors[issue.severity].border}`}>
@@ -752,16 +2799,29 @@ const App: React.FC = () => {
                                 <p className={`text-sm font-bold ${severityColors[issue.severity].text}`}>"{issue.text}"</p>
                                 <p className="text-xs text-gray-600 mt-1 font-medium">{issue.reason}</p>
                                 {issue.suggestion && (
-                                  <div className="mt-2 text-xs bg-white/50 p-2 rounded-lg">
-                                    <span className="font-bold opacity-50">Try:</span> {issue.suggestion}
+                                  <div className="mt-2 text-xs bg-white/50 p-2 rounded-lg flex items-start gap-2">
+                                    <span className="flex-1">
+                                      <span className="font-bold opacity-50">Try:</span> {issue.suggestion}
+                                    </span>
+                                    {applicableIssues.includes(issue) && (
+                                      <button
+                                        onClick={() => handleApplySuggestions([issue])}
+                                        disabled={applying || checking}
+                                        className="px-2 py-0.5 text-[10px] font-bold bg-white hover:bg-gray-100 text-black rounded-full border border-gray-200 transition-colors disabled:opacity-50"
+                                      >
+                                        Apply
+                                      </button>
+                                    )}
                                   </div>
                                 )}
+                                <IssueCitations issue={issue} />
                               </div>
                             </div>
                           </div>
                         ))}
                       </div>
-                    )
+                    ) : null}
+                    </>
                   ) : (
                     <button
                       onClick={() => runComplianceCheck()}
@@ -802,14 +2862,27 @@ const App: React.FC = () => {
                   <span className="text-4xl">🚀</span>
                 </div>
                 <div>
-                  <h2 className="text-2xl font-bold text-black">Sent to Manager</h2>
-                  <p className="text-sm text-gray-500 mt-2">Your design is pending approval.</p>
+                  <h2 className="text-2xl font-bold text-black">
+                    {designStatus?.status === "CHANGES_REQUESTED"
+                      ? "Changes Requested"
+                      : designStatus?.status === "APPROVED" || designStatus?.status === "PUBLISHED"
+                        ? "Approved"
+                        : "Sent to Manager"}
+                  </h2>
+                  <p className="text-sm text-gray-500 mt-2">
+                    {designStatus?.status === "CHANGES_REQUESTED"
+                      ? "Fix the design and submit it again."
+                      : designStatus?.status === "APPROVED" || designStatus?.status === "PUBLISHED"
+                        ? "Your design passed review."
+                        : "Your design is pending approval."}
+                  </p>
                 </div>
+                {designStatus?.content && <DesignStatusCard design={designStatus} />}
                 <button
                   onClick={handleStartOver}
                   className="px-8 py-3 text-sm font-bold bg-gray-100 hover:bg-gray-200 text-black rounded-full transition-colors"
                 >
-                  Check Another
+                  {designStatus?.status === "CHANGES_REQUESTED" ? "Fix and Resubmit" : "Check Another"}
                 </button>
               </div>
             )}
@@ -817,12 +2890,12 @@ const App: React.FC = () => {
         </main>
       )}
 
-      {/* ========== MANAGER VIEW ========== */}
-      {role === "MANAGER" && (
+      {/* ========== REVIEWER VIEW ========== */}
+      {currentUser && isReviewer && (
         <main className="p-6 flex-1 w-full max-w-lg mx-auto">
           <div className="space-y-6">
             
-            {/* Manager Tabs */}
+            {/* Reviewer Tabs */}
             <div className="flex p-1.5 bg-gray-100 rounded-full">
               <button
                 onClick={() => setManagerTab("APPROVALS")}
@@ -833,25 +2906,51 @@ const App: React.FC = () => {
                 Approvals
               </button>
               <button
-                onClick={() => setManagerTab("KNOWLEDGE")}
+                onClick={() => setManagerTab("DASHBOARD")}
                 className={`flex-1 py-2.5 text-xs font-bold rounded-full transition-all ${
-                  managerTab === "KNOWLEDGE" ? "bg-white text-black shadow-md" : "text-gray-500 hover:text-black"
+                  managerTab === "DASHBOARD" ? "bg-white text-black shadow-md" : "text-gray-500 hover:text-black"
                 }`}
               >
-                Truth Source
+                Dashboard
               </button>
+              {canManagePolicies && (
+                <button
+                  onClick={() => setManagerTab("KNOWLEDGE")}
+                  className={`flex-1 py-2.5 text-xs font-bold rounded-full transition-all ${
+                    managerTab === "KNOWLEDGE" ? "bg-white text-black shadow-md" : "text-gray-500 hover:text-black"
+                  }`}
+                >
+                  Truth Source
+                </button>
+              )}
             </div>
 
             {/* TAB 1: APPROVALS */}
             {managerTab === "APPROVALS" && (
               <>
                 <div className="bg-white rounded-3xl p-6 border-2 border-gray-100 shadow-sm">
-                  <div className="flex items-center justify-between mb-6">
-                    <h2 className="text-base font-bold">Pending</h2>
-                    <button onClick={fetchPendingContent} className="px-4 py-1.5 text-[10px] font-bold bg-gray-50 hover:bg-gray-100 text-black rounded-full border border-gray-200 transition-colors">
+                  <div className="flex items-center justify-between mb-4">
+                    <h2 className="text-base font-bold">
+                      {inboxView === "QUEUE" ? "My queue" : "Inbox"}
+                      {pendingContent.length > 0 ? ` (${pendingContent.length})` : ""}
+                    </h2>
+                    <button onClick={fetchInbox} className="px-4 py-1.5 text-[10px] font-bold bg-gray-50 hover:bg-gray-100 text-black rounded-full border border-gray-200 transition-colors">
                       Refresh
                     </button>
                   </div>
+                  <div className="flex gap-1 p-1 mb-6 bg-gray-50 rounded-full">
+                    {(["QUEUE", "ROLE"] as const).map((view) => (
+                      <button
+                        key={view}
+                        onClick={() => setInboxView(view)}
+                        className={`flex-1 py-1.5 text-[10px] font-bold rounded-full transition-colors ${
+                          inboxView === view ? "bg-black text-white" : "text-gray-500 hover:text-black"
+                        }`}
+                      >
+                        {view === "QUEUE" ? "My queue" : role === "ADMIN" ? "All open steps" : `All ${ROLE_LABELS[role]}`}
+                      </button>
+                    ))}
+                  </div>
 
                   {pendingContent.length === 0 ? (
                     <div className="py-12 text-center text-gray-400">
@@ -874,7 +2973,19 @@ const App: React.FC = () => {
                           <p className={`text-xs mt-1 line-clamp-2 ${selectedContent?.id === content.id ? "text-gray-400" : "text-gray-500"}`}>{content.text}</p>
                           <div className={`text-[10px] mt-3 font-bold uppercase tracking-wider ${selectedContent?.id === content.id ? "text-gray-500" : "text-gray-400"}`}>
                              {content.creator?.name || "Designer"}
+                             {findActiveStep(content.workflow?.steps || []) && ` · ${findActiveStep(content.workflow.steps).stepName}`}
+                             {content.queueStep?.delegatedFrom && ` · for ${content.queueStep.delegatedFrom.name}`}
+                             {inboxView === "ROLE" && findActiveStep(content.workflow?.steps || [])?.assignee &&
+                               ` · ${findActiveStep(content.workflow.steps).assignee.name}`}
                           </div>
+                          {findActiveStep(content.workflow?.steps || [])?.dueAt && (
+                            <div className="mt-2">
+                              <SlaCountdown
+                                dueAt={findActiveStep(content.workflow.steps).dueAt}
+                                inverted={selectedContent?.id === content.id}
+                              />
+                            </div>
+                          )}
                         </button>
                       ))}
                     </div>
@@ -883,7 +2994,7 @@ const App: React.FC = () => {
 
                 {/* Selected Content Review */}
                 {selectedContent && (
-                  <div className="bg-white rounded-3xl p-6 border-2 border-gray-100 shadow-xl animate-fadeIn fixed bottom-0 left-0 right-0 z-50 m-4 max-w-lg mx-auto mb-20">
+                  <div className="bg-white rounded-3xl p-6 border-2 border-gray-100 shadow-xl animate-fadeIn fixed bottom-0 left-0 right-0 z-50 m-4 max-w-lg mx-auto mb-20 max-h-[80vh] overflow-y-auto">
                     <div className="flex justify-between items-start mb-4">
                       <h3 className="text-base font-bold">{selectedContent.title}</h3>
                       <button onClick={() => setSelectedContent(null)} className="text-gray-400 hover:text-black">✕</button>
@@ -893,11 +3004,92 @@ const App: React.FC = () => {
                       <p className="text-sm text-gray-700 whitespace-pre-wrap">{selectedContent.text}</p>
                     </div>
 
+                    <div className="grid grid-cols-2 gap-3 mb-4">
+                      <div>
+                        <h4 className="text-xs font-bold uppercase tracking-wider text-gray-400 mb-2">Design</h4>
+                        {selectedContent.versions?.[0]?.rendition ? (
+                          <a
+                            href={`${SERVER_BASE}${selectedContent.versions[0].rendition}`}
+                            target="_blank"
+                            rel="noreferrer"
+                            title="Open full size"
+                          >
+                            <img
+                              src={`${SERVER_BASE}${selectedContent.versions[0].renditionThumbnail || selectedContent.versions[0].rendition}`}
+                              alt={`${selectedContent.title} rendition`}
+                              className="w-full rounded-xl border border-gray-200 shadow-sm"
+                            />
+                          </a>
+                        ) : (
+                          <div className="py-6 text-center rounded-xl bg-gray-50 border border-gray-100">
+                            <span className="text-2xl block grayscale opacity-50">🎨</span>
+                            <p className="text-[10px] text-gray-400 font-bold mt-1">No rendition</p>
+                          </div>
+                        )}
+                      </div>
+                      <div>
+                        <h4 className="text-xs font-bold uppercase tracking-wider text-gray-400 mb-2">Compliance</h4>
+                        {selectedContent.complianceResult?.issues?.length ? (
+                          <div className="space-y-2 max-h-48 overflow-y-auto">
+                            {selectedContent.complianceResult.issues.map((issue: Issue, i: number) => (
+                              <div key={i} className={`p-2 rounded-lg border ${severityColors[issue.severity].bg} ${severityColors[issue.severity].border}`}>
+                                <span className={`px-1.5 py-0.5 text-[8px] font-bold uppercase text-white rounded-full ${severityColors[issue.severity].badge}`}>
+                                  {issue.severity}
+                                </span>
+                                <p className={`mt-1 text-xs font-bold ${severityColors[issue.severity].text}`}>"{issue.text}"</p>
+                                <p className="text-[10px] text-gray-600">{issue.reason}</p>
+                              </div>
+                            ))}
+                          </div>
+                        ) : (
+                          <p className="text-xs text-gray-500">
+                            {selectedContent.complianceResult ? "✓ No issues found" : "Not checked"}
+                          </p>
+                        )}
+                      </div>
+                    </div>
+
+                    {contentDiff && <WhatChanged diff={contentDiff} />}
+
+                    {findActiveStep(selectedContent.workflow?.steps || []) && (
+                      <StepAssignment
+                        step={findActiveStep(selectedContent.workflow.steps)}
+                        currentUserId={currentUser?.id}
+                        creatorId={selectedContent.creatorId}
+                        colleagues={colleagues}
+                        busy={reviewing}
+                        onClaim={handleClaim}
+                        onReassign={handleReassign}
+                      />
+                    )}
+
+                    {selectedContent.workflow?.steps && (
+                      <div className="mb-4">
+                        <h4 className="text-xs font-bold uppercase tracking-wider text-gray-400 mb-3">History</h4>
+                        <StepHistory steps={selectedContent.workflow.steps} />
+                      </div>
+                    )}
+
+                    <textarea
+                      value={reviewFeedback}
+                      onChange={(e) => setReviewFeedback(e.target.value)}
+                      placeholder="Comment, or feedback for the designer when rejecting..."
+                      rows={2}
+                      className="w-full px-4 py-3 mb-3 text-sm bg-gray-50 border border-gray-100 rounded-2xl placeholder:text-gray-300 focus:ring-0 resize-none"
+                    />
+                    <button
+                      onClick={handleComment}
+                      disabled={reviewing || !reviewFeedback.trim()}
+                      className="w-full mb-3 px-4 py-2 text-xs font-bold text-black bg-gray-50 hover:bg-gray-100 border border-gray-200 rounded-full disabled:opacity-50"
+                    >
+                      Add Comment
+                    </button>
+
                     <div className="flex gap-3">
                       <button onClick={handleApprove} disabled={reviewing} className="flex-1 px-4 py-3 text-sm font-bold text-white bg-black hover:bg-gray-800 rounded-full shadow-lg">
                         {reviewing ? "..." : "Approve"}
                       </button>
-                      <button onClick={handleReject} disabled={reviewing} className="flex-1 px-4 py-3 text-sm font-bold text-black bg-white border-2 border-gray-200 hover:border-black rounded-full">
+                      <button onClick={handleReject} disabled={reviewing || !reviewFeedback.trim()} title={reviewFeedback.trim() ? "" : "Add feedback to reject"} className="flex-1 px-4 py-3 text-sm font-bold text-black bg-white border-2 border-gray-200 hover:border-black rounded-full">
                          {reviewing ? "..." : "Reject"}
                       </button>
                     </div>
@@ -906,19 +3098,22 @@ const App: React.FC = () => {
               </>
             )}
 
-            {/* TAB 2: KNOWLEDGE BASE */}
+            {/* TAB 2: DASHBOARD */}
+            {managerTab === "DASHBOARD" && <ComplianceDashboard />}
+
+            {/* TAB 3: KNOWLEDGE BASE */}
             {managerTab === "KNOWLEDGE" && (
               <div className="bg-white rounded-3xl p-6 border-2 border-gray-100 shadow-sm animate-fadeIn">
                 <div className="mb-6">
                   <h2 className="text-base font-bold mb-1">Truth Source</h2>
-                  <p className="text-xs text-gray-400">Upload PDF/TXT policies for the AI.</p>
+                  <p className="text-xs text-gray-400">Upload PDF, DOCX, HTML or TXT policies for the AI.</p>
                 </div>
 
                 {/* Upload Area */}
                 <div className="relative border-2 border-dashed border-gray-300 rounded-3xl p-8 text-center hover:border-black hover:bg-gray-50 transition-all cursor-pointer">
                   <input
                     type="file"
-                    accept=".pdf,.txt,.md"
+                    accept=".pdf,.docx,.html,.htm,.txt,.md"
                     onChange={handleFileUpload}
                     disabled={uploading}
                     className="absolute inset-0 w-full h-full opacity-0 cursor-pointer"
@@ -930,7 +3125,7 @@ const App: React.FC = () => {
                       <>
                         <span className="text-2xl block mb-2 grayscale opacity-70">📄</span>
                         <p className="text-sm font-bold text-black">Upload Document</p>
-                        <p className="text-[10px] uppercase font-bold text-gray-400 mt-2">PDF, TXT, MD</p>
+                        <p className="text-[10px] uppercase font-bold text-gray-400 mt-2">PDF, DOCX, HTML, TXT, MD</p>
                       </>
                     )}
                   </div>
@@ -942,13 +3137,28 @@ const App: React.FC = () => {
                   {documents.length === 0 ? (
                     <p className="text-xs text-gray-400 italic text-center py-4">No documents found.</p>
                   ) : (
-                    documents.map((doc: any) => (
+                    documents.map((doc) => (
                       <div key={doc.id} className="flex items-center justify-between p-4 bg-gray-50 rounded-2xl border border-gray-100">
                         <div className="flex items-center gap-3 overflow-hidden">
                           <span className="text-lg grayscale opacity-70">📑</span>
                           <div className="min-w-0">
-                            <p className="text-sm font-bold text-black truncate">{doc.filename || doc.name}</p>
-                            <p className="text-[10px] text-gray-400 font-bold">{new Date(doc.createdAt).toLocaleDateString()}</p>
+                            <p className="text-sm font-bold text-black truncate">{doc.originalName || doc.filename}</p>
+                            <p className="text-[10px] text-gray-400 font-bold">
+                              {new Date(doc.createdAt).toLocaleDateString()}
+                              {doc.pageCount ? ` · ${doc.pageCount} pages` : ""}
+                            </p>
+                            <IngestionProgress
+                              status={docStatuses[doc.id] || (doc.ingestion && {
+                                documentId: doc.id,
+                                status: doc.ingestion.status,
+                                totalChunks: doc.ingestion.totalChunks,
+                                processedChunks: doc.ingestion.processedChunks,
+                                progress: doc.ingestion.totalChunks
+                                  ? Math.round((doc.ingestion.processedChunks / doc.ingestion.totalChunks) * 100)
+                                  : 0,
+                                error: doc.ingestion.error,
+                              })}
+                            />
                           </div>
                         </div>
                         <button 
@@ -970,7 +3180,7 @@ const App: React.FC = () => {
       {/* Footer */}
       <footer className="bg-white border-t border-gray-100 px-6 py-4 mt-auto">
         <div className="flex items-center justify-between max-w-lg mx-auto">
-          <p className="text-[10px] font-bold text-gray-400 uppercase tracking-wider">{currentUser?.name || "Loading..."}</p>
+          <p className="text-[10px] font-bold text-gray-400 uppercase tracking-wider">{currentUser ? `${currentUser.name} · ${ROLE_LABELS[role]}` : "Signed out"}</p>
           <div className="flex items-center gap-2">
             <span className={`w-2 h-2 rounded-full ${serverStatus === "online" ? "bg-green-500" : "bg-red-500"}`} />
             <span className="text-[10px] font-bold text-gray-400 uppercase">{serverStatus}</span>
@@ -0,0 +1,50 @@
+// ============================================
+// DOCUMENT SANDBOX API
+// Shared by the panel (src/components) and the document sandbox (src/sandbox)
+// ============================================
+
+// Fractions (0..1) of the artboard's width/height, matching the rendition
+export interface NodeBounds {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface DocumentTextNode {
+  id: string;
+  text: string;
+  pageId: string;
+  pageIndex: number;
+  pageName: string | null;
+  artboardId: string;
+  bounds: NodeBounds | null;
+}
+
+// Replace `expected` at [start, end) of a node's text
+export interface TextEdit {
+  nodeId: string;
+  start: number;
+  end: number;
+  expected: string;
+  replacement: string;
+}
+
+// What was changed, enough to revert it
+export interface AppliedTextEdit {
+  nodeId: string;
+  start: number;
+  original: string;
+  replacement: string;
+  stylePreserved: boolean;
+}
+
+export interface DocumentSandboxApi {
+  /** Every text node on every page, in page → artboard → layer order */
+  getTextNodes(): Promise<DocumentTextNode[]>;
+  /**
+   * Rewrite part of a text node. If the text moved since it was read, the first
+   * occurrence of `expected` is replaced instead; throws if it is gone.
+   */
+  replaceText(edit: TextEdit): Promise<AppliedTextEdit>;
+}
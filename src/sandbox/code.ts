@@ -0,0 +1,142 @@
+/**
+ * Document Sandbox
+ *
+ * Runs inside Adobe Express with access to the document model and exposes
+ * DocumentSandboxApi to the panel through the add-on runtime.
+ */
+
+import addOnSandboxSdk from "add-on-sdk-document-sandbox";
+import { editor, ArtboardNode, BaseNode, TextNode } from "express-document-sdk";
+import {
+  AppliedTextEdit,
+  DocumentSandboxApi,
+  DocumentTextNode,
+  NodeBounds,
+  TextEdit,
+} from "../models/DocumentSandboxApi";
+
+const { runtime } = addOnSandboxSdk.instance;
+
+function isTextNode(node: BaseNode): node is TextNode {
+  return node.type === "Text";
+}
+
+/**
+ * Threaded text shares one content model across several frames; only the first
+ * frame reports it so the same copy is not checked twice
+ */
+function isFirstFrame(node: TextNode): boolean {
+  const [first] = Array.from(node.fullContent.allTextNodes);
+  return !first || first.id === node.id;
+}
+
+function boundsInArtboard(node: TextNode, artboard: ArtboardNode): NodeBounds | null {
+  try {
+    const rect = node.boundsInNode(artboard);
+    return {
+      x: rect.x / artboard.width,
+      y: rect.y / artboard.height,
+      width: rect.width / artboard.width,
+      height: rect.height / artboard.height,
+    };
+  } catch {
+    return null;
+  }
+}
+
+function collectText(node: BaseNode, visit: (text: TextNode) => void) {
+  if (isTextNode(node)) {
+    visit(node);
+    return;
+  }
+  for (const child of node.allChildren) {
+    collectText(child, visit);
+  }
+}
+
+function getTextNodes(): DocumentTextNode[] {
+  const nodes: DocumentTextNode[] = [];
+  let pageIndex = 0;
+
+  for (const page of editor.documentRoot.pages) {
+    for (const artboard of page.artboards) {
+      collectText(artboard, (textNode) => {
+        if (!isFirstFrame(textNode)) return;
+        const text = textNode.fullContent.text;
+        if (!text.trim()) return;
+
+        nodes.push({
+          id: textNode.id,
+          text,
+          pageId: page.id,
+          pageIndex,
+          pageName: page.name ?? null,
+          artboardId: artboard.id,
+          bounds: boundsInArtboard(textNode, artboard),
+        });
+      });
+    }
+    pageIndex++;
+  }
+
+  return nodes;
+}
+
+function findTextNode(id: string): TextNode | null {
+  let found: TextNode | null = null;
+  for (const page of editor.documentRoot.pages) {
+    for (const artboard of page.artboards) {
+      collectText(artboard, (textNode) => {
+        if (!found && textNode.id === id) found = textNode;
+      });
+      if (found) return found;
+    }
+  }
+  return null;
+}
+
+function replaceText(edit: TextEdit): AppliedTextEdit {
+  const node = findTextNode(edit.nodeId);
+  if (!node) throw new Error("Text layer no longer exists");
+
+  const content = node.fullContent;
+  const text = content.text;
+  let start = edit.start;
+  if (text.slice(start, edit.end) !== edit.expected) {
+    start = text.indexOf(edit.expected);
+    if (start === -1) throw new Error(`"${edit.expected}" is no longer in the design`);
+  }
+  const end = start + edit.expected.length;
+
+  // replaceText keeps the replaced characters' styling but is only available where the host
+  // ships it; setting the whole text works everywhere but resets styles to the first character's
+  const stylePreserved = typeof content.replaceText === "function";
+  if (stylePreserved) {
+    content.replaceText(edit.replacement, { start, length: end - start });
+  } else {
+    content.text = text.slice(0, start) + edit.replacement + text.slice(end);
+  }
+
+  return {
+    nodeId: edit.nodeId,
+    start,
+    original: edit.expected,
+    replacement: edit.replacement,
+    stylePreserved,
+  };
+}
+
+function start() {
+  const sandboxApi: DocumentSandboxApi = {
+    async getTextNodes() {
+      return getTextNodes();
+    },
+    async replaceText(edit) {
+      return replaceText(edit);
+    },
+  };
+
+  runtime.exposeApi(sandboxApi);
+}
+
+start();
@@ -7,7 +7,10 @@ const isEnvProduction = process.env.NODE_ENV === "production";
 module.exports = {
     mode: isEnvProduction ? "production" : "development",
     devtool: isEnvProduction ? "source-map" : "eval-source-map",
-    entry: "./src/index.tsx",
+    entry: {
+        index: "./src/index.tsx",
+        code: "./src/sandbox/code.ts"
+    },
     experiments: {
         outputModule: true
     },
@@ -15,14 +18,20 @@ module.exports = {
         pathinfo: !isEnvProduction,
         path: path.resolve(__dirname, "dist"),
         module: true,
-        filename: "index.js"
+        filename: "[name].js"
+    },
+    // Provided by Adobe Express inside the document sandbox
+    externals: {
+        "add-on-sdk-document-sandbox": "add-on-sdk-document-sandbox",
+        "express-document-sdk": "express-document-sdk"
     },
     externalsType: "module",
     externalsPresets: { web: true },
     plugins: [
         new HtmlWebpackPlugin({
             template: "src/index.html",
-            scriptLoading: "module"
+            scriptLoading: "module",
+            excludeChunks: ["code"]
         }),
         new CopyWebpackPlugin({
             patterns: [{ from: "src/*.json", to: "[name][ext]" }]